@@ -1,5 +1,6 @@
 // client/src/AdminPanel.tsx
 import { useState, useEffect } from "react";
+import type { AdminMsg } from "./net/protocol";
 
 type RoomStatus = {
   id: string;
@@ -11,7 +12,7 @@ type RoomStatus = {
 };
 
 type Props = {
-  onSendCommand: (command: any) => void;
+  onSendCommand: (command: AdminMsg) => void;
 };
 
 export default function AdminPanel({ onSendCommand }: Props) {
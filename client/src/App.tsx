@@ -2,76 +2,31 @@ import { useState, useEffect } from "react";
 import JoinScreen from "./JoinScreen";
 import RoomLobby from "./RoomLobby";
 import Game from "./Game";
+import RefreshBanner from "./ui/RefreshBanner";
+import { useGame } from "./hooks/useGame";
+import type { PlayerMode } from "./net/protocol";
 
 type JoinData = { name: string; color: string; avatar: string };
-type RoomSelection = { roomId: string; mode: "playing" | "spectating" };
-
-type RoomInfo = {
-  id: string;
-  name: string;
-  type: string;
-  state: string;
-  playerCount: number;
-  spectatorCount: number;
-  maxPlayers: number;
-  locked: boolean;
-};
+type RoomSelection = { roomId: string; mode: PlayerMode };
 
 export default function App() {
   const [joined, setJoined] = useState<JoinData | null>(null);
   const [roomSelection, setRoomSelection] = useState<RoomSelection | null>(null);
-  const [adminWs, setAdminWs] = useState<WebSocket | null>(null);
-  const [liveRoomData, setLiveRoomData] = useState<RoomInfo[]>([]);
+  const [serverUrl, setServerUrl] = useState<string>(); // set once we move to a room on another shard
   
   // Check for admin token in URL
   const adminToken = new URLSearchParams(window.location.search).get('admin');
   
-  // Lobby WebSocket connection for room status updates (and admin commands if admin)
-  useEffect(() => {
-    if (joined && !roomSelection) {
-      const WS_URL = window.location.protocol === 'https:' 
-        ? `wss://${window.location.host}` 
-        : `ws://localhost:8080`;
-      
-      const ws = new WebSocket(WS_URL);
-      
-      ws.addEventListener("open", () => {
-        console.log('[lobby] WebSocket connected for room status updates');
-        const helloMsg: any = { 
-          type: "hello", 
-          name: joined.name,
-          color: joined.color,
-          avatar: joined.avatar,
-          roomId: "chill",
-          mode: "spectating" // Lobby connection doesn't spawn a worm
-        };
-        
-        // Include admin token if present
-        if (adminToken) {
-          helloMsg.adminToken = adminToken;
-        }
-        
-        ws.send(JSON.stringify(helloMsg));
-        setAdminWs(ws);
-      });
-      
-      ws.addEventListener("message", (e) => {
-        const msg = JSON.parse(e.data);
-        if (msg.type === "adminGranted") {
-          console.log('[admin] ✅ Admin privileges granted');
-        }
-        if (msg.type === "roomStatus") {
-          setLiveRoomData(msg.rooms);
-        }
-      });
-      
-      return () => {
-        console.log('[lobby] Closing WebSocket');
-        ws.close();
-        setAdminWs(null);
-      };
-    }
-  }, [joined, roomSelection, adminToken]);
+  // One connection for the lobby (room status, admin commands) and the game;
+  // picking a room moves it there without reconnecting
+  const game = useGame(joined, roomSelection?.roomId, roomSelection?.mode, adminToken || undefined, serverUrl);
+  
+  // Rooms hosted by another shard are listed with its url, and the connection moves there
+  const joinRoom = (roomId: string, mode: PlayerMode) => {
+    const url = game.rooms.find(room => room.id === roomId)?.url;
+    if (url) setServerUrl(url);
+    setRoomSelection({ roomId, mode });
+  };
   
   // Preload all game assets immediately when app starts
   useEffect(() => {
@@ -125,40 +80,36 @@ export default function App() {
   // Step 2: Choose a room
   if (!roomSelection) {
     return (
-      <RoomLobby
-        playerData={joined}
-        onJoinRoom={(roomId, mode) => setRoomSelection({ roomId, mode })}
-        isAdmin={!!adminToken}
-        onAdminCommand={(cmd) => {
-          if (adminWs && adminWs.readyState === WebSocket.OPEN) {
-            console.log('[admin] Sending command:', cmd);
-            adminWs.send(JSON.stringify(cmd));
-          } else {
-            console.warn('[admin] WebSocket not ready, command not sent');
-          }
-        }}
-        liveRoomData={liveRoomData.length > 0 ? liveRoomData.map(room => ({
-          ...room,
-          description: room.id === "deathmatch" 
-            ? "Finals - Last worm standing wins"
-            : room.id === "chill"
-            ? "Casual play - No timers, just vibes"
-            : "Tournament Qualifier - Top worm advances"
-        })) : undefined}
-      />
+      <>
+        {game.outOfDate && <RefreshBanner message={game.outOfDate.message} rejected={game.outOfDate.rejected} />}
+        <RoomLobby
+          playerData={joined}
+          onJoinRoom={joinRoom}
+          isAdmin={!!adminToken}
+          onAdminCommand={(cmd) => {
+            if (game.connected) {
+              console.log('[admin] Sending command:', cmd);
+              game.sendAdminCommand(cmd);
+            } else {
+              console.warn('[admin] WebSocket not ready, command not sent');
+            }
+          }}
+          liveRoomData={game.rooms.length > 0 ? game.rooms : undefined}
+        />
+      </>
     );
   }
 
   // Step 3: Play the game
+  // Keyed by room so the camera and overlays start over; the connection stays
   return (
     <Game
+      key={roomSelection.roomId}
       name={joined.name}
-      color={joined.color}
-      avatar={joined.avatar}
-      roomId={roomSelection.roomId}
       mode={roomSelection.mode}
-      adminToken={adminToken || undefined}
+      game={game}
       onBackToLobby={() => setRoomSelection(null)}
+      onRoomClosed={(moveTo) => moveTo ? joinRoom(moveTo, roomSelection.mode) : setRoomSelection(null)}
     />
   );
 }
@@ -1,11 +1,23 @@
 // client/src/Game.tsx
-import { useEffect, useRef, useMemo } from "react";
-import { useGame } from "./hooks/useGame";
-import type { Snapshot, PlayerView, Vec, FoodItem } from "./net/protocol";
+import { useEffect, useRef, useMemo, useState, useCallback } from "react";
+import type { GameConnection } from "./hooks/useGame";
+import type { Snapshot, PlayerView, Vec, FoodItem, Kill, PowerUpType } from "./net/protocol";
 import Leaderboard from "./ui/Leaderboard";
 import Score from "./ui/Score";
 import TournamentTimer from "./ui/TournamentTimer";
 import TournamentEndOverlay from "./ui/TournamentEndOverlay";
+import RefreshBanner from "./ui/RefreshBanner";
+import ReconnectBanner from "./ui/ReconnectBanner";
+import QueueBanner from "./ui/QueueBanner";
+import NetStatsPanel from "./ui/NetStatsPanel";
+import SpectatorBar from "./ui/SpectatorBar";
+import KillFeed from "./ui/KillFeed";
+import PowerUpTimer from "./ui/PowerUpTimer";
+import PickupNotice, { type Pickup } from "./ui/PickupNotice";
+import { POWER_UP_LOOK } from "./ui/powerUps";
+import {
+  CAMERA_MODES, MAX_ZOOM, FREE_PAN_SPEED, followZoom, fitZoom, cameraOrigin, leaderOf, cycleFollow, type CameraMode
+} from "./engine/camera";
 
 // ---------- small log throttle so console doesn't spam ----------
 const canLog = (() => {
@@ -18,43 +30,6 @@ const canLog = (() => {
   };
 })();
 
-// ---------- interpolation helpers (disabled) ----------
-// Interpolation disabled for now due to high latency issues
-// function lerpVec(a: Vec, b: Vec, t: number): Vec {
-//   return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
-// }
-// 
-// function lerpAngle(a: number, b: number, t: number): number {
-//   let diff = b - a;
-//   while (diff > Math.PI) diff -= 2 * Math.PI;
-//   while (diff < -Math.PI) diff += 2 * Math.PI;
-//   return a + diff * t;
-// }
-//
-// function interpolateSnapshot(prev: any, next: any, t: number): any {
-//   if (!prev || !next) return next;
-//   
-//   return {
-//     ...next,
-//     players: next.players.map((np: PlayerView) => {
-//       const pp = prev.players.find((p: PlayerView) => p.id === np.id);
-//       if (!pp) return np;
-//       
-//       return {
-//         ...np,
-//         head: {
-//           pos: lerpVec(pp.head.pos, np.head.pos, t),
-//           angle: lerpAngle(pp.head.angle, np.head.angle, t)
-//         },
-//         body: np.body.map((nb: Vec, i: number) => {
-//           if (i >= pp.body.length) return nb;
-//           return lerpVec(pp.body[i], nb, t);
-//         })
-//       };
-//     })
-//   };
-// }
-
 // ---------- avatar cache ----------
 function useAvatarCache() {
   const cache = useMemo(() => new Map<string, HTMLImageElement>(), []);
@@ -183,6 +158,54 @@ function drawBonusFood(ctx: CanvasRenderingContext2D, bonusFood: FoodItem[], foo
   ctx.restore();
 }
 
+// Power-up pickups: a glowing disc with the power-up's icon
+function drawPowerUps(ctx: CanvasRenderingContext2D, bonusFood: FoodItem[]) {
+  const pickups = bonusFood.filter(f => f.type in POWER_UP_LOOK);
+  if (pickups.length === 0) return;
+
+  ctx.save();
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.font = "16px ui-sans-serif, system-ui, Apple Color Emoji";
+  for (const f of pickups) {
+    const look = POWER_UP_LOOK[f.type as PowerUpType];
+    ctx.shadowColor = look.color;
+    ctx.shadowBlur = 12;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+    ctx.strokeStyle = look.color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(f.x, f.y, 14, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+    ctx.fillText(look.icon, f.x, f.y + 1);
+  }
+  ctx.restore();
+}
+
+// A ring around the head for each running power-up, innermost first
+function drawAura(ctx: CanvasRenderingContext2D, p: PlayerView) {
+  if (!p.effects) return;
+  const headRadius = 22 * ((p.thickness || 14) / 14);
+  const pulse = 1 + 0.08 * Math.sin(performance.now() / 150);
+
+  ctx.save();
+  ctx.lineWidth = 3;
+  let ring = 0;
+  for (const type of Object.keys(POWER_UP_LOOK) as PowerUpType[]) {
+    if (!p.effects[type]) continue;
+    ctx.strokeStyle = POWER_UP_LOOK[type].color;
+    ctx.shadowColor = POWER_UP_LOOK[type].color;
+    ctx.shadowBlur = 10;
+    ctx.beginPath();
+    ctx.arc(p.head.pos.x, p.head.pos.y, (headRadius + 6 + ring * 5) * pulse, 0, Math.PI * 2);
+    ctx.stroke();
+    ring++;
+  }
+  ctx.restore();
+}
+
 function drawBody(ctx: CanvasRenderingContext2D, p: PlayerView, world: { width: number; height: number }) {
   const pts = unwrapBodyPath(p.body, world);
   ctx.save();
@@ -264,9 +287,15 @@ function drawPlayerName(ctx: CanvasRenderingContext2D, p: PlayerView, selfId?: s
 }
 
 // ---------- death overlay component ----------
-function DeathOverlay({ playerName }: { 
+function DeathOverlay({ playerName, death }: { 
   playerName: string; 
+  death: Kill | null; // how we died, once the server's kill message is in
 }) {
+  const cause = !death ? `${playerName} was eliminated`
+    : death.cause === "self" ? "You ran into your own tail"
+    : death.cause === "head" ? `Head-on with ${death.killerName ?? "another worm"}`
+    : `${death.killerName ?? "Another worm"} got you`;
+
   return (
     <div style={{
       position: 'fixed',
@@ -291,7 +320,7 @@ function DeathOverlay({ playerName }: {
       }}>
         <div style={{ fontSize: 32, marginBottom: 20 }}>💀 YOU DIED!</div>
         <div style={{ fontSize: 16, opacity: 0.8, marginBottom: 20 }}>
-          {playerName} was eliminated
+          {cause}
         </div>
         <div style={{ fontSize: 18, marginBottom: 10 }}>
           Press <strong>SPACEBAR</strong> to respawn
@@ -307,32 +336,67 @@ function DeathOverlay({ playerName }: {
 // ---------- main component ----------
 export default function Game({ 
   name, 
-  color, 
-  avatar,
-  roomId,
   mode,
-  adminToken,
-  onBackToLobby
+  game,
+  onBackToLobby,
+  onRoomClosed
 }: { 
   name: string; 
-  color: string; 
-  avatar?: string;
-  roomId?: string;
   mode?: "playing" | "spectating";
-  adminToken?: string;
+  game: GameConnection; // shared with the lobby, already in (or moving to) this room
   onBackToLobby?: () => void;
+  onRoomClosed?: (moveTo?: string) => void; // this room was deleted
 }) {
-  const { selfId, world, snapshot, sendTurn, sendBoost } = useGame(name, color, avatar, roomId, mode, adminToken);
+  const { reconnecting, restarting, queue, refused, kills, death, tournament, selfId, world, snapshot, outOfDate, roomClosed, predictor, snapBuffer, netStats, sendTurn, sendSteer, sendBoost, sendRespawn, sendView, onEvents } = game;
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const avatars = useAvatarCache();
   const foodAssets = useFoodAssetCache();
   
-  const isSpectating = mode === "spectating";
+  const isSpectating = mode === "spectating" || !!queue; // queued players watch the whole room
+  const [showNetStats, setShowNetStats] = useState(false);
+  const [pickup, setPickup] = useState<Pickup | null>(null);
+
+  // Flash up what our worm just ate or picked up
+  useEffect(() => onEvents(events => {
+    for (const e of events) {
+      if ((e.type === "bonusFood" || e.type === "powerUp") && e.playerId === selfId) setPickup({ ...e, at: performance.now() });
+    }
+  }), [onEvents, selfId]);
+  
+  // Room deleted under us: hand over to the room we were moved to, or the lobby
+  useEffect(() => {
+    if (roomClosed) onRoomClosed?.(roomClosed.moveTo);
+  }, [roomClosed, onRoomClosed]);
+  
+  // Turned away (room full, or gone): say so and go back to the lobby
+  useEffect(() => {
+    if (!refused) return;
+    alert(refused);
+    onBackToLobby?.();
+  }, [refused, onBackToLobby]);
   
   // Smooth zoom animation state
   const currentZoom = useRef(isSpectating ? 1.0 : 2.5); // Spectators see full map
   const targetZoom = useRef(isSpectating ? 1.0 : 2.5);
 
+  // Spectator camera: the render loop reads the ref, the HUD the state
+  const camera = useRef<{ mode: CameraMode; followId: string | null }>({ mode: "map", followId: null });
+  const [cameraMode, setCameraMode] = useState<CameraMode>("map");
+  const [watching, setWatching] = useState<string>();  // name of the worm the camera follows
+  const watchedId = useRef<string | undefined>(undefined);
+  const spectatorView = useRef<{ center: Vec; zoom: number } | null>(null); // world point at the screen centre
+  const shownPlayers = useRef<PlayerView[]>([]);
+  const panKeys = useRef(new Set<string>());
+
+  const setCamera = useCallback((mode: CameraMode, followId = camera.current.followId) => {
+    camera.current = { mode, followId };
+    setCameraMode(mode);
+    if (mode !== "free") panKeys.current.clear();
+  }, []);
+
+  // Last mouse/touch position on screen; null while steering with the keyboard
+  const pointer = useRef<{ x: number; y: number } | null>(null);
+
   // resize canvas to viewport
   useEffect(() => {
     const c = canvasRef.current;
@@ -346,39 +410,37 @@ export default function Game({
     return () => window.removeEventListener("resize", resize);
   }, []);
 
-  // zoom with mouse wheel (disabled for spectators)
+  // zoom with mouse wheel; spectators switch to the free camera
   useEffect(() => {
-    if (isSpectating) return; // Spectators have fixed zoom
-    
     const onWheel = (e: WheelEvent) => {
       e.preventDefault();
       const delta = e.deltaY > 0 ? 0.9 : 1.1;
+      if (isSpectating) {
+        if (spectatorView.current) spectatorView.current.zoom *= delta; // clamped by the render loop
+        if (camera.current.mode !== "free") setCamera("free");
+        return;
+      }
       targetZoom.current = Math.max(0.5, Math.min(5, targetZoom.current * delta));
     };
     window.addEventListener("wheel", onWheel, { passive: false });
     return () => window.removeEventListener("wheel", onWheel);
-  }, [isSpectating]);
+  }, [isSpectating, setCamera]);
 
   // respawn handler
   const handleRespawn = () => {
-    // Send respawn message using existing sendTurn mechanism
-    // We'll need to extend sendTurn to handle respawn messages
-    if (snapshot) {
-      const me = selfId ? snapshot.players.find(p => p.id === selfId) : undefined;
-      if (me && !me.alive) {
-        // For now, we'll use a simple page reload approach
-        window.location.reload();
-      }
-    }
+    const me = selfId && snapshot ? snapshot.players.find(p => p.id === selfId) : undefined;
+    if (me && !me.alive) sendRespawn();
   };
 
   // keyboard -> turn and boost messages
   useEffect(() => {
+    if (isSpectating) return;
     const onKey = (e: KeyboardEvent) => {
       if (e.repeat) return;
       if (e.type === "keydown") {
-        if (e.key === "ArrowLeft" || e.key.toLowerCase() === "a") sendTurn(-1);
-        if (e.key === "ArrowRight" || e.key.toLowerCase() === "d") sendTurn(1);
+        // Turning with the keyboard stops mouse steering until the pointer moves again
+        if (e.key === "ArrowLeft" || e.key.toLowerCase() === "a") { pointer.current = null; sendTurn(-1); }
+        if (e.key === "ArrowRight" || e.key.toLowerCase() === "d") { pointer.current = null; sendTurn(1); }
         if (e.key === "ArrowUp" || e.key.toLowerCase() === "w") sendBoost(true);
         
         // Spacebar respawn
@@ -400,7 +462,83 @@ export default function Game({
       window.removeEventListener("keydown", onKey);
       window.removeEventListener("keyup", onKey);
     };
-  }, [sendTurn, sendBoost]);
+  }, [sendTurn, sendBoost, isSpectating]);
+
+  // mouse/touch -> steer toward the pointer (sent from the render loop, relative to our head)
+  useEffect(() => {
+    if (isSpectating) return;
+    const onPointer = (e: PointerEvent) => {
+      pointer.current = { x: e.clientX, y: e.clientY };
+    };
+    window.addEventListener("pointermove", onPointer);
+    window.addEventListener("pointerdown", onPointer);
+    return () => {
+      window.removeEventListener("pointermove", onPointer);
+      window.removeEventListener("pointerdown", onPointer);
+    };
+  }, [isSpectating]);
+
+  // Spectator camera keys: 1-4 (or C to cycle) pick the mode, ←/→ switch the
+  // worm to follow, WASD/arrows pan the free camera
+  useEffect(() => {
+    if (!isSpectating) return;
+    const panKey = (key: string) => ["arrowleft", "arrowright", "arrowup", "arrowdown", "a", "d", "w", "s"].includes(key);
+    const onKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      const { mode } = camera.current;
+      const picked = ["1", "2", "3", "4"].indexOf(key);
+      if (picked !== -1) return setCamera(CAMERA_MODES[picked]);
+      if (key === "c" && !e.repeat) return setCamera(CAMERA_MODES[(CAMERA_MODES.indexOf(mode) + 1) % CAMERA_MODES.length]);
+      if (mode === "free") {
+        if (panKey(key)) panKeys.current.add(key);
+        return;
+      }
+      const step = key === "arrowright" || key === "d" ? 1 : key === "arrowleft" || key === "a" ? -1 : 0;
+      if (step !== 0) setCamera("follow", cycleFollow(shownPlayers.current, watchedId.current ?? null, step));
+    };
+    const onKeyUp = (e: KeyboardEvent) => { panKeys.current.delete(e.key.toLowerCase()); };
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+    };
+  }, [isSpectating, setCamera]);
+
+  // Spectators drag the map to pan it, switching to the free camera
+  useEffect(() => {
+    if (!isSpectating) return;
+    let drag: { x: number; y: number } | null = null;
+    const onDown = (e: PointerEvent) => {
+      if (e.target === canvasRef.current) drag = { x: e.clientX, y: e.clientY };
+    };
+    const onMove = (e: PointerEvent) => {
+      const view = spectatorView.current;
+      if (!drag || !view) return;
+      view.center = { x: view.center.x - (e.clientX - drag.x) / view.zoom, y: view.center.y - (e.clientY - drag.y) / view.zoom };
+      drag = { x: e.clientX, y: e.clientY };
+      if (camera.current.mode !== "free") setCamera("free");
+    };
+    const onUp = () => { drag = null; };
+    window.addEventListener("pointerdown", onDown);
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    return () => {
+      window.removeEventListener("pointerdown", onDown);
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+    };
+  }, [isSpectating, setCamera]);
+
+  // N toggles the network stats panel
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.repeat || e.key.toLowerCase() !== "n") return;
+      setShowNetStats(v => !v);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
 
   // render loop with camera that centers on self head
   useEffect(() => {
@@ -408,6 +546,7 @@ export default function Game({
     if (!c) return;
     const ctx = c.getContext("2d")!;
     let raf = 0;
+    let lastFrame = performance.now();
 
     const loop = () => {
       ctx.clearRect(0, 0, c.width, c.height);
@@ -415,26 +554,19 @@ export default function Game({
       ctx.fillStyle = "#0F1C2A";
       ctx.fillRect(0, 0, c.width, c.height);
 
-      let snap: Snapshot | null = snapshot;
+      // Remote worms render slightly in the past, interpolated between snapshots
+      const now = performance.now();
+      const dt = Math.min(0.1, (now - lastFrame) / 1000);
+      lastFrame = now;
+      const snap: Snapshot | null = snapBuffer.sample(now) ?? snapshot;
       if (!snap || !world) {
         raf = requestAnimationFrame(loop);
         return;
       }
 
-      // Interpolation disabled for now - causing issues with high latency
-      // TODO: Re-enable with better network handling
-      // if (snapBuffer.prev && snapBuffer.next && snapBuffer.nextTime > snapBuffer.prevTime) {
-      //   const now = performance.now();
-      //   const elapsed = now - snapBuffer.prevTime;
-      //   const duration = snapBuffer.nextTime - snapBuffer.prevTime;
-      //   if (duration < 200) {
-      //     const t = Math.max(0, Math.min(1, elapsed / duration));
-      //     const interpolated = interpolateSnapshot(snapBuffer.prev, snapBuffer.next, t);
-      //     if (interpolated) snap = interpolated;
-      //   }
-      // }
-
-      const players = snap!.players;
+      // Our own worm runs ahead of the snapshot on client-side prediction
+      const predicted = predictor?.predict(now);
+      const players = predicted ? snap!.players.map(p => p.id === predicted.id ? predicted : p) : snap!.players;
       const me = selfId ? players.find(p => p.id === selfId) : undefined;
 
       if (canLog("frame-info", 1000)) {
@@ -447,15 +579,58 @@ export default function Game({
       let camX = 0, camY = 0;
       
       if (isSpectating) {
-        // Spectator mode: show full map
-        zoom = Math.min(c.width / world.width, c.height / world.height);
-        camX = 0;
-        camY = 0;
+        // Spectator camera: glide towards the whole map or the worm being watched
+        const cam = camera.current;
+        const fit = fitZoom(c, world);
+        const view = spectatorView.current ??= { center: { x: world.width / 2, y: world.height / 2 }, zoom: fit };
+        shownPlayers.current = players;
+
+        let target: PlayerView | undefined;
+        if (cam.mode === "leader") target = leaderOf(players);
+        if (cam.mode === "follow") {
+          target = players.find(p => p.id === cam.followId);
+          if (!target) { // not picked yet, or they left: start from the top of the leaderboard
+            const id = cycleFollow(players, null, 1);
+            target = players.find(p => p.id === id);
+            camera.current = { ...cam, followId: id };
+          }
+        }
+        if (target?.id !== watchedId.current) {
+          watchedId.current = target?.id;
+          setWatching(target?.name);
+        }
+
+        if (cam.mode === "free") {
+          const pan = FREE_PAN_SPEED * dt / view.zoom;
+          const keys = panKeys.current;
+          if (keys.has("arrowleft") || keys.has("a")) view.center.x -= pan;
+          if (keys.has("arrowright") || keys.has("d")) view.center.x += pan;
+          if (keys.has("arrowup") || keys.has("w")) view.center.y -= pan;
+          if (keys.has("arrowdown") || keys.has("s")) view.center.y += pan;
+          view.center.x = Math.max(0, Math.min(world.width, view.center.x));
+          view.center.y = Math.max(0, Math.min(world.height, view.center.y));
+          view.zoom = Math.max(fit, Math.min(MAX_ZOOM, view.zoom));
+        } else {
+          const goal = cam.mode === "map" ? { center: { x: world.width / 2, y: world.height / 2 }, zoom: fit }
+            : target ? { center: target.head.pos, zoom: followZoom(target.score) }
+            : view; // nobody to watch: hold still
+          const lerpSpeed = 0.1;
+          view.center = {
+            x: view.center.x + (goal.center.x - view.center.x) * lerpSpeed,
+            y: view.center.y + (goal.center.y - view.center.y) * lerpSpeed,
+          };
+          view.zoom += (goal.zoom - view.zoom) * lerpSpeed;
+        }
+
+        zoom = view.zoom;
+        const origin = cameraOrigin(view.center, zoom, c, world);
+        camX = origin.x;
+        camY = origin.y;
       } else if (me) {
         const score = me.score;
         
         // Calculate target zoom based on score
-        const newTargetZoom = Math.max(1.0, 2.5 - (score - 10) / 100);
+        const newTargetZoom = followZoom(score);
         targetZoom.current = newTargetZoom;
         
         // Smooth interpolation towards target zoom
@@ -473,11 +648,20 @@ export default function Game({
         const effectiveWidth = c.width / zoom;
         const effectiveHeight = c.height / zoom;
         
+        sendView(effectiveWidth, effectiveHeight);
+        
         camX = Math.round(me.head.pos.x - effectiveWidth / 2);
         camY = Math.round(me.head.pos.y - effectiveHeight / 2);
         // simple clamp so we don't drift to negatives if you don't want wrap
         camX = Math.max(0, Math.min(camX, world.width - effectiveWidth));
         camY = Math.max(0, Math.min(camY, world.height - effectiveHeight));
+
+        // The head isn't always centred (camera clamps at the edges), so aim from where it's drawn
+        if (pointer.current && me.alive) {
+          const headX = (me.head.pos.x - camX) * zoom;
+          const headY = (me.head.pos.y - camY) * zoom;
+          sendSteer(Math.atan2(pointer.current.y - headY, pointer.current.x - headX));
+        }
       }
 
       // world transform with zoom
@@ -490,13 +674,18 @@ export default function Game({
       drawFoods(ctx, snap!.foods);
       if (snap!.bonusFood) {
         drawBonusFood(ctx, snap!.bonusFood, foodAssets);
+        drawPowerUps(ctx, snap!.bonusFood);
       }
       for (const p of players.filter(p => p.alive)) {
+        ctx.save();
+        if (p.effects?.ghost) ctx.globalAlpha = 0.45; // ghosts are see-through
+        drawAura(ctx, p);
         drawBody(ctx, p, world);
         const img = avatars.get(p.avatar);
         // always draw a fallback head so worm never disappears
         drawHeadFallback(ctx, p);
         drawHeadAvatar(ctx, p, img);
+        ctx.restore();
         drawPlayerName(ctx, p, selfId || undefined);
       }
 
@@ -506,7 +695,11 @@ export default function Game({
 
     raf = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(raf);
-  }, [snapshot, world, selfId, avatars]);
+  }, [snapshot, world, selfId, avatars, predictor, snapBuffer]);
+
+  // Tournament round: its own message from "events" servers, snapshot fields from older ones
+  const roundTimer = tournament ? tournament.timer : snapshot?.tournamentTimer;
+  const roundWinner = tournament ? tournament.winner : snapshot?.tournamentWinner;
 
   // HUD (minimal)
   return (
@@ -515,27 +708,37 @@ export default function Game({
         ref={canvasRef}
         style={{ position: "fixed", inset: 0, width: "100vw", height: "100vh", display: "block", background: "rgb(15,28,42)" }}
       />
+      {outOfDate && <RefreshBanner message={outOfDate.message} rejected={outOfDate.rejected} />}
+      {reconnecting && !outOfDate && <ReconnectBanner message={restarting ?? undefined} />}
+      {queue && !reconnecting && <QueueBanner position={queue.position} length={queue.length} />}
+      {showNetStats && <NetStatsPanel stats={netStats} renderDelay={snapBuffer.delayMs} />}
       {snapshot && (
         <>
           {!isSpectating && <Score player={selfId ? snapshot.players.find(p => p.id === selfId) : undefined} />}
-          <Leaderboard players={snapshot.players} />
+          {!isSpectating && <PowerUpTimer effects={selfId ? snapshot.players.find(p => p.id === selfId)?.effects : undefined} />}
+          {!isSpectating && <PickupNotice pickup={pickup} now={performance.now()} />}
+          <Leaderboard players={[...snapshot.players, ...(snapshot.offscreen ?? [])]} />
           {(() => {
             const me = selfId ? snapshot.players.find(p => p.id === selfId) : undefined;
-            return me && !me.alive ? <DeathOverlay playerName={name} /> : null;
+            return me && !me.alive ? <DeathOverlay playerName={name} death={death} /> : null;
           })()}
-          {(snapshot as any).tournamentTimer && (
+          <KillFeed kills={kills} selfId={selfId} now={performance.now()} />
+          {roundTimer && (
             <TournamentTimer 
-              remaining={(snapshot as any).tournamentTimer.remaining}
-              duration={(snapshot as any).tournamentTimer.duration}
+              remaining={roundTimer.remaining}
+              duration={roundTimer.duration}
             />
           )}
-          {(snapshot as any).tournamentWinner && (
+          {roundWinner && (
             <TournamentEndOverlay
-              winnerName={(snapshot as any).tournamentWinner.name}
-              winnerScore={(snapshot as any).tournamentWinner.score}
+              winnerName={roundWinner.name}
+              winnerScore={roundWinner.score}
               onBackToLobby={() => window.location.reload()}
             />
           )}
+          {isSpectating && (
+            <SpectatorBar mode={cameraMode} following={watching} onMode={mode => setCamera(mode)} />
+          )}
           {isSpectating && onBackToLobby && (
             <button
               onClick={onBackToLobby}
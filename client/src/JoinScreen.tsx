@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { MAX_NAME_LENGTH } from "./net/validate";
 
 type Props = {
   onJoin: (data: { name: string; color: string; avatar: string }) => void;
@@ -54,6 +55,7 @@ export default function JoinScreen({ onJoin }: Props) {
         <div>Name</div>
         <input
           value={name}
+          maxLength={MAX_NAME_LENGTH}
           onChange={(e) => setName(e.target.value)}
           style={{ width: "100%", padding: 8, borderRadius: 6 }}
         />
@@ -1,22 +1,13 @@
 // client/src/RoomLobby.tsx
-
-type RoomInfo = {
-  id: string;
-  name: string;
-  type: string;
-  state: string;
-  playerCount: number;
-  spectatorCount: number;
-  maxPlayers: number;
-  locked: boolean;
-  description?: string;
-};
+import { useState } from "react";
+import type { AdminMsg, RoomType, RoomInfo } from "./net/protocol";
+import { ROOM_ID_PATTERN } from "./net/validate";
 
 type Props = {
   playerData: { name: string; color: string; avatar: string };
   onJoinRoom: (roomId: string, mode: "playing" | "spectating") => void;
   isAdmin?: boolean;
-  onAdminCommand?: (command: any) => void;
+  onAdminCommand?: (command: AdminMsg) => void;
   liveRoomData?: RoomInfo[];
 };
 
@@ -84,6 +75,14 @@ export default function RoomLobby({ playerData, onJoinRoom, isAdmin, onAdminComm
   const deathmatchRoom = rooms.find(r => r.id === "deathmatch");
   const casualRooms = rooms.filter(r => r.type === "casual");
 
+  // Admins can close any room but the Chill Zone, which takes in its players
+  const deleteRoom = isAdmin && onAdminCommand
+    ? (room: RoomInfo) => {
+        if (!window.confirm(`Delete ${room.name}? Everyone in it is moved to the Chill Zone.`)) return;
+        onAdminCommand({ type: "admin:deleteRoom", roomId: room.id, moveTo: "chill" });
+      }
+    : undefined;
+
   return (
     <div
       style={{
@@ -171,7 +170,23 @@ export default function RoomLobby({ playerData, onJoinRoom, isAdmin, onAdminComm
             >
               🔄 Reset Tournament
             </button>
+            <button
+              onClick={() => onAdminCommand({ type: "admin:reloadRooms" })}
+              style={{
+                padding: "6px 12px",
+                background: "rgba(255, 255, 255, 0.1)",
+                color: "white",
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                borderRadius: 4,
+                fontWeight: 600,
+                cursor: "pointer",
+                fontSize: 12,
+              }}
+            >
+              ♻️ Reload Room Config
+            </button>
           </div>
+          <CreateRoomForm onCreate={onAdminCommand} />
         </div>
       )}
 
@@ -184,6 +199,7 @@ export default function RoomLobby({ playerData, onJoinRoom, isAdmin, onAdminComm
               key={room.id}
               room={room}
               onJoin={(mode) => onJoinRoom(room.id, mode)}
+              onDelete={deleteRoom}
             />
           ))}
         </div>
@@ -197,6 +213,7 @@ export default function RoomLobby({ playerData, onJoinRoom, isAdmin, onAdminComm
             <RoomCard
               room={deathmatchRoom}
               onJoin={(mode) => onJoinRoom(deathmatchRoom.id, mode)}
+              onDelete={deleteRoom}
             />
           </div>
         )}
@@ -208,6 +225,7 @@ export default function RoomLobby({ playerData, onJoinRoom, isAdmin, onAdminComm
               key={room.id}
               room={room}
               onJoin={(mode) => onJoinRoom(room.id, mode)}
+              onDelete={deleteRoom}
             />
           ))}
         </div>
@@ -216,9 +234,14 @@ export default function RoomLobby({ playerData, onJoinRoom, isAdmin, onAdminComm
   );
 }
 
-function RoomCard({ room, onJoin }: { room: RoomInfo; onJoin: (mode: "playing" | "spectating") => void }) {
-  const isFull = room.playerCount >= room.maxPlayers;
-  const canJoin = !room.locked && !isFull;
+function RoomCard({ room, onJoin, onDelete }: {
+  room: RoomInfo;
+  onJoin: (mode: "playing" | "spectating") => void;
+  onDelete?: (room: RoomInfo) => void;
+}) {
+  // Full rooms can still be joined: players wait in line, watching
+  const isFull = room.playerCount >= room.maxPlayers || (room.queued ?? 0) > 0;
+  const canJoin = !room.locked;
 
   return (
     <div
@@ -262,6 +285,9 @@ function RoomCard({ room, onJoin }: { room: RoomInfo; onJoin: (mode: "playing" |
         {room.spectatorCount > 0 && (
           <span style={{ opacity: 0.6 }}>👁️ {room.spectatorCount}</span>
         )}
+        {(room.queued ?? 0) > 0 && (
+          <span style={{ opacity: 0.6 }}>🚦 {room.queued} waiting</span>
+        )}
       </div>
 
       {/* Action buttons */}
@@ -281,7 +307,7 @@ function RoomCard({ room, onJoin }: { room: RoomInfo; onJoin: (mode: "playing" |
             fontSize: 14,
           }}
         >
-          {isFull ? "Full" : room.locked ? "Locked" : "Join"}
+          {room.locked ? "Locked" : isFull ? "Join Queue" : "Join"}
         </button>
         <button
           onClick={() => onJoin("spectating")}
@@ -299,6 +325,105 @@ function RoomCard({ room, onJoin }: { room: RoomInfo; onJoin: (mode: "playing" |
         >
           Spectate
         </button>
+        {onDelete && room.id !== "chill" && (
+          <button
+            onClick={() => onDelete(room)}
+            title="Delete room"
+            style={{
+              padding: "8px 10px",
+              borderRadius: 6,
+              background: "rgba(255,107,107,0.2)",
+              color: "#ff6b6b",
+              fontWeight: 600,
+              cursor: "pointer",
+              border: "none",
+              fontSize: 14,
+            }}
+          >
+            🗑️
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle = {
+  padding: "6px 8px",
+  borderRadius: 4,
+  border: "1px solid rgba(255,255,255,0.2)",
+  background: "rgba(0,0,0,0.3)",
+  color: "white",
+  fontSize: 12,
+  minWidth: 0,
+};
+
+function CreateRoomForm({ onCreate }: { onCreate: (command: AdminMsg) => void }) {
+  const [id, setId] = useState("");
+  const [name, setName] = useState("");
+  const [roomType, setRoomType] = useState<RoomType>("casual");
+  const [width, setWidth] = useState(2000);
+  const [height, setHeight] = useState(1200);
+  const [maxPlayers, setMaxPlayers] = useState(20);
+  const [description, setDescription] = useState("");
+
+  const valid = ROOM_ID_PATTERN.test(id) && name.trim().length > 0;
+
+  const submit = () => {
+    if (!valid) return;
+    onCreate({
+      type: "admin:createRoom",
+      id,
+      name: name.trim(),
+      roomType,
+      width,
+      height,
+      maxPlayers,
+      description: description.trim() || undefined,
+    });
+    setId("");
+    setName("");
+    setDescription("");
+  };
+
+  return (
+    <div style={{ marginTop: 10 }}>
+      <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 6 }}>New room</div>
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(110px, 1fr))", gap: 6 }}>
+        <input style={inputStyle} placeholder="id (e.g. arena4)" value={id} onChange={(e) => setId(e.target.value.toLowerCase())} />
+        <input style={inputStyle} placeholder="Name" value={name} maxLength={32} onChange={(e) => setName(e.target.value)} />
+        <select style={inputStyle} value={roomType} onChange={(e) => setRoomType(e.target.value as RoomType)}>
+          <option value="casual">Casual</option>
+          <option value="tournament">Tournament</option>
+        </select>
+        <input style={inputStyle} type="number" min={400} max={10000} title="Width" value={width} onChange={(e) => setWidth(Number(e.target.value))} />
+        <input style={inputStyle} type="number" min={400} max={10000} title="Height" value={height} onChange={(e) => setHeight(Number(e.target.value))} />
+        <input style={inputStyle} type="number" min={1} max={100} title="Max players" value={maxPlayers} onChange={(e) => setMaxPlayers(Number(e.target.value))} />
+      </div>
+      <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+        <input
+          style={{ ...inputStyle, flex: 1 }}
+          placeholder="Description (optional)"
+          value={description}
+          maxLength={120}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+        <button
+          onClick={submit}
+          disabled={!valid}
+          style={{
+            padding: "6px 12px",
+            background: valid ? "#22cc88" : "rgba(255,255,255,0.1)",
+            color: valid ? "#001015" : "rgba(255,255,255,0.3)",
+            border: "none",
+            borderRadius: 4,
+            fontWeight: 600,
+            cursor: valid ? "pointer" : "not-allowed",
+            fontSize: 12,
+          }}
+        >
+          ➕ Create Room
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,58 @@
+// client/src/engine/camera.ts
+// Where the camera looks: the player's own view and the spectator modes.
+//
+// Spectators pick one of four modes: the whole map, following whoever leads,
+// following a chosen worm (cycled in leaderboard order), or a free camera they
+// pan and zoom themselves. The camera is described by the world point at the
+// centre of the screen and a zoom (screen pixels per world unit).
+
+import type { PlayerView } from "../net/protocol";
+import type { Vec, World } from "./math";
+
+export type CameraMode = "map" | "leader" | "follow" | "free";
+export const CAMERA_MODES: CameraMode[] = ["map", "leader", "follow", "free"];
+
+export const MAX_ZOOM = 5;
+export const FREE_PAN_SPEED = 900; // screen px/s when panning with the keyboard
+
+type Screen = { width: number; height: number };
+
+/** Zoom for following a worm: close while it's small, further out as it grows */
+export function followZoom(score: number): number {
+  return Math.max(1.0, 2.5 - (score - 10) / 100);
+}
+
+/** Zoom that fits the whole world on screen */
+export function fitZoom(screen: Screen, world: World): number {
+  return Math.min(screen.width / world.width, screen.height / world.height);
+}
+
+/**
+ * Top-left world corner of a view centred on `center`, kept inside the world.
+ * A view wider or taller than the world is centred on it instead.
+ */
+export function cameraOrigin(center: Vec, zoom: number, screen: Screen, world: World): Vec {
+  const w = screen.width / zoom;
+  const h = screen.height / zoom;
+  const x = w >= world.width ? (world.width - w) / 2 : Math.max(0, Math.min(center.x - w / 2, world.width - w));
+  const y = h >= world.height ? (world.height - h) / 2 : Math.max(0, Math.min(center.y - h / 2, world.height - h));
+  return { x: Math.round(x), y: Math.round(y) };
+}
+
+/** The living worm with the highest score */
+export function leaderOf(players: PlayerView[]): PlayerView | undefined {
+  let best: PlayerView | undefined;
+  for (const p of players) {
+    if (p.alive && (!best || p.score > best.score)) best = p;
+  }
+  return best;
+}
+
+/** The next (step 1) or previous (step -1) living worm to follow, in leaderboard order */
+export function cycleFollow(players: PlayerView[], currentId: string | null, step: 1 | -1): string | null {
+  const alive = players.filter(p => p.alive).sort((a, b) => b.score - a.score);
+  if (alive.length === 0) return null;
+  const i = alive.findIndex(p => p.id === currentId);
+  if (i === -1) return alive[step === 1 ? 0 : alive.length - 1].id;
+  return alive[(i + step + alive.length) % alive.length].id;
+}
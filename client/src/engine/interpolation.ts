@@ -0,0 +1,149 @@
+// client/src/engine/interpolation.ts
+// Jitter buffer for rendering remote worms smoothly.
+//
+// Snapshots are placed on the server's timeline by Snapshot.t. We render a
+// little behind the newest one, far enough back that late packets have usually
+// arrived, and interpolate between the two snapshots around the render time.
+// The delay adapts to the measured arrival jitter. If the buffer runs dry we
+// extrapolate briefly from the last known velocity.
+
+import type { PlayerView, Snapshot, Vec, WorldView } from "../net/protocol";
+import { wrap } from "./movement";
+import { wrapDelta } from "./math";
+
+const MAX_SNAPSHOTS = 32;
+const JITTER_WINDOW = 60;          // arrivals used for the clock offset and jitter (~2 s)
+const JITTER_PERCENTILE = 0.9;     // lateness we wait for; rarer spikes extrapolate instead
+const MIN_DELAY_MS = 10;
+const MAX_DELAY_MS = 250;
+const DELAY_SMOOTHING = 0.05;      // share of the gap to the target delay closed per snapshot
+const MAX_EXTRAPOLATION_MS = 100;
+const TELEPORT_DISTANCE = 200;     // heads that moved further (respawn) are not interpolated
+
+export class SnapshotBuffer {
+  private snapshots: Snapshot[] = [];       // oldest first, by t
+  private lateness: number[] = [];          // arrival time minus server time, per snapshot
+  private interval = 1000 / 30;             // typical spacing of server timestamps
+  private delay = 100;                      // current render delay behind the fastest arrival
+
+  /** Add a snapshot as it arrives (`now` on the performance.now() clock) */
+  push(snap: Snapshot, now: number) {
+    const newest = this.snapshots[this.snapshots.length - 1];
+    if (newest && snap.t <= newest.t) {
+      if (snap.t === newest.t) this.snapshots[this.snapshots.length - 1] = snap;
+      return;
+    }
+    if (newest) this.interval += (snap.t - newest.t - this.interval) * 0.1;
+
+    this.snapshots.push(snap);
+    if (this.snapshots.length > MAX_SNAPSHOTS) this.snapshots.shift();
+
+    this.lateness.push(now - snap.t);
+    if (this.lateness.length > JITTER_WINDOW) this.lateness.shift();
+
+    const target = Math.min(MAX_DELAY_MS, Math.max(MIN_DELAY_MS, this.interval + this.jitter()));
+    this.delay += (target - this.delay) * DELAY_SMOOTHING;
+  }
+
+  /** Render delay in ms behind the newest server time, for diagnostics */
+  get delayMs() {
+    return this.delay;
+  }
+
+  clear() {
+    this.snapshots = [];
+    this.lateness = [];
+  }
+
+  /** The world as of a little while ago, interpolated or briefly extrapolated; null before any snapshot */
+  sample(now: number): Snapshot | null {
+    const count = this.snapshots.length;
+    if (count === 0) return null;
+
+    const renderT = now - this.offset() - this.delay;
+    const newest = this.snapshots[count - 1];
+
+    if (renderT >= newest.t) {
+      const prev = this.snapshots[count - 2];
+      if (!prev) return newest;
+      return extrapolate(prev, newest, Math.min(renderT - newest.t, MAX_EXTRAPOLATION_MS));
+    }
+
+    // Drop snapshots we have rendered past, keeping one before the render time
+    while (this.snapshots.length > 2 && this.snapshots[1].t <= renderT) this.snapshots.shift();
+
+    const [a, b] = this.snapshots;
+    if (!b || renderT <= a.t) return a;
+    return interpolate(a, b, (renderT - a.t) / (b.t - a.t));
+  }
+
+  // Server-to-local clock offset, from the least delayed recent arrival
+  private offset() {
+    return Math.min(...this.lateness);
+  }
+
+  // How much later than the least delayed arrival snapshots typically come
+  private jitter() {
+    const sorted = [...this.lateness].sort((x, y) => x - y);
+    return sorted[Math.floor((sorted.length - 1) * JITTER_PERCENTILE)] - sorted[0];
+  }
+}
+
+/** Blend two snapshots; players only in `b` (joined or came into view) are shown as in `b` */
+export function interpolate(a: Snapshot, b: Snapshot, t: number): Snapshot {
+  const before = new Map(a.players.map(p => [p.id, p]));
+  const players = b.players.map(p => {
+    const prev = before.get(p.id);
+    return prev ? lerpPlayer(prev, p, t, b.world) : p;
+  });
+  return { ...b, players };
+}
+
+/** Move players on from `b` at the velocity they had between `a` and `b` */
+export function extrapolate(a: Snapshot, b: Snapshot, dtMs: number): Snapshot {
+  const span = b.t - a.t;
+  if (dtMs <= 0 || span <= 0) return b;
+
+  const before = new Map(a.players.map(p => [p.id, p]));
+  const players = b.players.map(p => {
+    const prev = before.get(p.id);
+    if (!prev || !p.alive || !prev.alive) return p;
+    const dx = wrapDelta(p.head.pos.x - prev.head.pos.x, b.world.width) / span * dtMs;
+    const dy = wrapDelta(p.head.pos.y - prev.head.pos.y, b.world.height) / span * dtMs;
+    if (Math.hypot(dx, dy) > TELEPORT_DISTANCE) return p;
+    const shift = (v: Vec): Vec => ({ x: wrap(v.x + dx, b.world.width), y: wrap(v.y + dy, b.world.height) });
+    return { ...p, head: { pos: shift(p.head.pos), angle: p.head.angle }, body: p.body.map(shift) };
+  });
+  return { ...b, players };
+}
+
+function lerpPlayer(a: PlayerView, b: PlayerView, t: number, world: WorldView): PlayerView {
+  if (!a.alive || !b.alive) return b;
+  const dx = wrapDelta(b.head.pos.x - a.head.pos.x, world.width);
+  const dy = wrapDelta(b.head.pos.y - a.head.pos.y, world.height);
+  if (Math.hypot(dx, dy) > TELEPORT_DISTANCE) return b;
+
+  // Bodies are newest first, so point i in both snapshots is the same spot on the trail
+  const body = b.body.map((p, i) => (i < a.body.length ? lerpVec(a.body[i], p, t, world) : p));
+
+  return {
+    ...b,
+    head: { pos: lerpVec(a.head.pos, b.head.pos, t, world), angle: lerpAngle(a.head.angle, b.head.angle, t) },
+    body,
+  };
+}
+
+// Wrap-aware: takes the short way across the torus edge
+function lerpVec(a: Vec, b: Vec, t: number, world: WorldView): Vec {
+  return {
+    x: wrap(a.x + wrapDelta(b.x - a.x, world.width) * t, world.width),
+    y: wrap(a.y + wrapDelta(b.y - a.y, world.height) * t, world.height),
+  };
+}
+
+function lerpAngle(a: number, b: number, t: number): number {
+  let diff = (b - a) % (2 * Math.PI);
+  if (diff > Math.PI) diff -= 2 * Math.PI;
+  if (diff < -Math.PI) diff += 2 * Math.PI;
+  return a + diff * t;
+}
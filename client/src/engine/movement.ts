@@ -0,0 +1,73 @@
+// client/src/engine/movement.ts
+// Worm steering and movement (shared by the server's stepRoom and client-side
+// prediction, so a predicted head follows exactly the path the server takes).
+
+import type { Vec, WorldView, ActiveEffects } from "../net/protocol";
+
+export const TURN_SPEED = 0.12;
+export const BASE_SPEED = 4.0;
+export const BOOST_MULTIPLIER = 1.8;
+export const BOOST_COST_PER_TICK = 0.5;
+export const MIN_SCORE = 10; // boosting stops at this score
+export const SPEED_POWERUP_MULTIPLIER = 1.4; // the speed power-up, on top of boosting and free
+
+export type MovingWorm = {
+  pos: Vec;
+  angle: number;
+  speed: number;
+  score: number;
+  turn: -1 | 0 | 1;
+  targetAngle?: number; // analog steering: turn toward this heading instead of by `turn`
+  boosting: boolean;
+  effects?: ActiveEffects; // the speed power-up changes movement
+};
+
+export function wrap(v: number, max: number): number {
+  if (v < 0) return v + max;
+  if (v >= max) return v - max;
+  return v;
+}
+
+// Body length calculation
+export function calculateBodyLength(score: number): number {
+  const targetLen = Math.max(15, Math.floor(score * 0.8));
+  const maxLen = 300;
+  return Math.min(targetLen, maxLen);
+}
+
+// Signed angle from `from` to `to`, normalised to [-PI, PI)
+export function angleDelta(from: number, to: number): number {
+  const d = (to - from) % (Math.PI * 2);
+  if (d >= Math.PI) return d - Math.PI * 2;
+  if (d < -Math.PI) return d + Math.PI * 2;
+  return d;
+}
+
+/** Advance one tick: steer, pay for boosting and move the head across the wrapped world */
+export function moveWorm(p: MovingWorm, world: WorldView) {
+  // steering, capped at TURN_SPEED per tick either way
+  if (p.targetAngle !== undefined) {
+    const d = angleDelta(p.angle, p.targetAngle);
+    p.angle += Math.max(-TURN_SPEED, Math.min(TURN_SPEED, d));
+  } else {
+    p.angle += p.turn * TURN_SPEED;
+  }
+
+  const base = p.effects?.speed ? BASE_SPEED * SPEED_POWERUP_MULTIPLIER : BASE_SPEED;
+  if (p.boosting && p.score > MIN_SCORE) {
+    p.speed = base * BOOST_MULTIPLIER;
+    p.score -= BOOST_COST_PER_TICK;
+    // Auto-stop boosting when score gets too low
+    if (p.score <= MIN_SCORE) {
+      p.boosting = false;
+      p.score = MIN_SCORE; // Prevent going below minimum
+    }
+  } else {
+    p.speed = base;
+    p.boosting = false; // Stop boosting if score too low
+  }
+
+  // move
+  p.pos.x = wrap(p.pos.x + Math.cos(p.angle) * p.speed, world.width);
+  p.pos.y = wrap(p.pos.y + Math.sin(p.angle) * p.speed, world.height);
+}
@@ -0,0 +1,178 @@
+// client/src/engine/prediction.ts
+// Client-side prediction for the local worm.
+//
+// Turn/steer/boost inputs are numbered and applied locally right away. Snapshots echo
+// the last input the server applied (inputSeq) and how many ticks it has run
+// since (inputTicks), so on each one we restart from the server's worm and
+// replay only the predicted ticks the server hasn't simulated yet.
+
+import type { PlayerView, Snapshot, Vec, WorldView } from "../net/protocol";
+import { moveWorm, wrap, calculateBodyLength, type MovingWorm } from "./movement";
+import { wrapDelta } from "./math";
+
+export const TICK_MS = 1000 / 30; // the server's TICK_HZ
+const MAX_HISTORY = 90;           // predicted ticks kept (~3 s); older ones count as simulated
+const MAX_CATCH_UP = 5;           // ticks run in one frame before giving up and resuming
+const SNAP_DISTANCE = 100;        // corrections beyond this (respawn, desync) snap instead of blending
+const CORRECTION_DECAY = 0.8;     // share of a correction still shown after each tick
+
+export type InputChange = { turn?: -1 | 0 | 1; targetAngle?: number; boosting?: boolean };
+type Input = InputChange & { seq: number };
+
+// A predicted tick: the newest input sent before it and how many ticks had run since that input
+type Tick = { seq: number; n: number };
+
+type PredictedWorm = MovingWorm & { body: Vec[] };
+
+// Steering isn't in snapshots, so we track what the server last applied from our own inputs
+type Steering = Pick<MovingWorm, "turn" | "targetAngle">;
+
+export class Predictor {
+  private seq = 0;
+  private sinceInput = 0;          // ticks predicted since input `seq` was sent
+  private pending: Input[] = [];   // inputs the server hasn't applied yet
+  private history: Tick[] = [];    // ticks the server may not have simulated yet
+  private ackedSteering: Steering = { turn: 0 };
+  private worm: PredictedWorm | null = null;
+  private server: PlayerView | null = null;
+  private world: WorldView | null = null;
+  private correction: Vec = { x: 0, y: 0 };
+  private lastTickAt = 0;
+
+  constructor(private readonly selfId: string) {}
+
+  /** Number an input and apply it to the prediction; returns the seq to send with it */
+  input(change: InputChange): number {
+    const input: Input = { ...change, seq: ++this.seq };
+    this.pending.push(input);
+    this.sinceInput = 0;
+    if (this.worm) applyInput(this.worm, input);
+    return input.seq;
+  }
+
+  /** Restart from the server's worm in this snapshot and replay the ticks it hasn't run */
+  reconcile(snap: Snapshot) {
+    const me = snap.players.find(p => p.id === this.selfId);
+    if (snap.inputSeq === undefined || !me) return;
+    const acked = snap.inputSeq;
+    const ticks = snap.inputTicks ?? 0;
+
+    // Inputs and ticks up to the echo are part of the server's state now
+    for (const input of this.pending) {
+      if (input.seq <= acked) applySteering(this.ackedSteering, input);
+    }
+    this.pending = this.pending.filter(i => i.seq > acked);
+    this.history = this.history.filter(t => t.seq > acked || (t.seq === acked && t.n > ticks));
+
+    // Without inputs in flight, never count fewer ticks than the server (e.g. after skipped frames)
+    if (acked === this.seq) this.sinceInput = Math.max(this.sinceInput, ticks);
+
+    this.world = snap.world;
+    this.server = me;
+
+    if (!me.alive) {
+      // The server resets steering on respawn
+      this.worm = null;
+      this.history = [];
+      this.ackedSteering = { turn: 0 };
+      return;
+    }
+
+    const shown = this.worm && {
+      x: this.worm.pos.x + this.correction.x,
+      y: this.worm.pos.y + this.correction.y,
+    };
+
+    const worm: PredictedWorm = {
+      pos: { ...me.head.pos },
+      angle: me.head.angle,
+      speed: 0,
+      score: me.score,
+      ...this.ackedSteering,
+      boosting: me.boosting ?? false,
+      effects: me.effects,
+      body: me.body.map(p => ({ ...p })),
+    };
+
+    let next = 0;
+    for (const tick of this.history) {
+      while (next < this.pending.length && this.pending[next].seq <= tick.seq) {
+        applyInput(worm, this.pending[next++]);
+      }
+      this.step(worm, snap.world);
+    }
+    while (next < this.pending.length) applyInput(worm, this.pending[next++]);
+
+    // Blend small mispredictions away instead of jumping
+    this.correction = { x: 0, y: 0 };
+    if (shown) {
+      const dx = wrapDelta(shown.x - worm.pos.x, snap.world.width);
+      const dy = wrapDelta(shown.y - worm.pos.y, snap.world.height);
+      if (Math.hypot(dx, dy) <= SNAP_DISTANCE) this.correction = { x: dx, y: dy };
+    }
+    this.worm = worm;
+  }
+
+  /** Advance at the server's tick rate up to `now` and return the local worm to draw */
+  predict(now: number): PlayerView | null {
+    const worm = this.worm;
+    const world = this.world;
+    if (!worm || !world || !this.server) return null;
+
+    const due = Math.floor((now - this.lastTickAt) / TICK_MS);
+    if (due > MAX_CATCH_UP) {
+      // First frame or a hidden tab; the next reconcile catches us up
+      this.lastTickAt = now;
+    } else {
+      for (let i = 0; i < due; i++) this.tick(worm, world);
+      this.lastTickAt += due * TICK_MS;
+    }
+
+    const { x: cx, y: cy } = this.correction;
+    const shift = (p: Vec): Vec => ({ x: wrap(p.x + cx, world.width), y: wrap(p.y + cy, world.height) });
+    const corrected = cx !== 0 || cy !== 0;
+
+    return {
+      ...this.server,
+      head: { pos: shift(worm.pos), angle: worm.angle },
+      body: corrected ? worm.body.map(shift) : worm.body,
+      boosting: worm.boosting,
+    };
+  }
+
+  private tick(worm: PredictedWorm, world: WorldView) {
+    this.sinceInput++;
+    this.history.push({ seq: this.seq, n: this.sinceInput });
+    if (this.history.length > MAX_HISTORY) this.history.shift();
+    this.step(worm, world);
+
+    this.correction.x *= CORRECTION_DECAY;
+    this.correction.y *= CORRECTION_DECAY;
+    if (Math.hypot(this.correction.x, this.correction.y) < 0.1) this.correction = { x: 0, y: 0 };
+  }
+
+  // Same as the movement part of the server's stepRoom
+  private step(worm: PredictedWorm, world: WorldView) {
+    moveWorm(worm, world);
+    worm.body.unshift({ x: worm.pos.x, y: worm.pos.y });
+    const len = calculateBodyLength(worm.score);
+    if (worm.body.length > len) worm.body.length = len;
+  }
+}
+
+function applyInput(worm: MovingWorm, input: Input) {
+  applySteering(worm, input);
+  if (input.boosting !== undefined) worm.boosting = input.boosting;
+}
+
+// Mirrors the server: a turn cancels analog steering, a steer stops the keyboard turn
+function applySteering(s: Steering, input: Input) {
+  if (input.turn !== undefined) {
+    s.turn = input.turn;
+    s.targetAngle = undefined;
+  }
+  if (input.targetAngle !== undefined) {
+    s.targetAngle = input.targetAngle;
+    s.turn = 0;
+  }
+}
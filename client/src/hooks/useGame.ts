@@ -1,11 +1,21 @@
 // client/src/hooks/useGame.ts
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import type {
-  AnyServerMsg, Welcome, Snapshot, WorldView
+  AnyServerMsg, Snapshot, SnapshotDelta, WorldView, AdminMsg, ClientHello, PingMsg, SteerMsg, RoomClosedMsg,
+  QueueMsg, RoomInfo, PlayerMode, JoinRoomMsg, LeaveRoomMsg, Kill, GameEvent, TournamentMsg
 } from "../net/protocol";
+import { decodeMessage, CodecVersionError } from "../net/codec";
+import { applyDelta } from "../net/delta";
+import { NetStats, type NetStatsSummary } from "../net/stats";
+import {
+  PROTOCOL_VERSION, CAPABILITIES, CLOSE_UNSUPPORTED_PROTOCOL, CLOSE_SESSION_TAKEN_OVER, CLOSE_ROOM_CLOSED, CLOSE_ROOM_FULL
+} from "../net/version";
+import { Predictor, TICK_MS } from "../engine/prediction";
+import { angleDelta } from "../engine/movement";
+import { SnapshotBuffer } from "../engine/interpolation";
 
 
-const WS_URL = typeof window !== 'undefined' && window.location.protocol === 'https:' 
+export const WS_URL = typeof window !== 'undefined' && window.location.protocol === 'https:' 
   ? `wss://${window.location.host}` 
   : `ws://localhost:8080`;
 
@@ -17,32 +27,87 @@ function isSnapshot(x: any): x is Snapshot {
     Array.isArray(x.foods);
 }
 
-type InterpolationBuffer = {
-  prev: Snapshot | null;
-  next: Snapshot | null;
-  prevTime: number;
-  nextTime: number;
+// Reconstructed snapshots kept around as possible delta baselines
+const BASELINE_HISTORY = 64;
+
+// Reconnect backoff after a dropped socket (doubling, with jitter)
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 10_000;
+
+// How often we ping the server and refresh the net stats
+const PING_INTERVAL_MS = 1000;
+
+// Analog steering: heading changes smaller than this (radians) aren't worth sending
+const STEER_EPSILON = 0.01;
+
+// Kill feed: how many recent kills we keep, and how long the feed shows each
+const KILL_FEED_LENGTH = 5;
+export const KILL_FEED_MS = 6000;
+
+// Net stats count what came over the wire, so JSON frames are measured in UTF-8 bytes
+const textEncoder = new TextEncoder();
+
+// Close codes that reconnecting won't fix (1008: server dropped us for invalid messages)
+const NO_RECONNECT = [CLOSE_UNSUPPORTED_PROTOCOL, CLOSE_SESSION_TAKEN_OVER, CLOSE_ROOM_CLOSED, CLOSE_ROOM_FULL, 1008];
+
+// Set when this client's protocol doesn't match the server's
+export type OutOfDate = {
+  message: string;
+  rejected: boolean;  // true if the server refused the connection
 };
 
+// A kill in the feed, stamped with when it arrived (performance.now())
+export type FeedKill = Kill & { at: number };
+
+// Called with each tick's events, e.g. for effects, sounds and HUD notices
+export type EventsListener = (events: GameEvent[], tick: number) => void;
+
+// The worm picked on the join screen
+export type PlayerProfile = { name: string; color: string; avatar?: string };
+
+/**
+ * One connection for the lobby and the game. Changing `roomId` or `mode` moves
+ * the connection to the new room (joinRoom/leaveRoom); servers without the
+ * "rooms" capability get a fresh connection instead. A new `serverUrl` (a
+ * room on another shard) always reconnects.
+ */
 export function useGame(
-  name: string, 
-  color: string, 
-  avatar?: string,
-  roomId?: string,
-  mode?: "playing" | "spectating",
-  adminToken?: string
+  player: PlayerProfile | null, // null until the worm is picked; no connection until then
+  roomId?: string,              // undefined while in the lobby
+  mode: PlayerMode = "playing",
+  adminToken?: string,
+  serverUrl = WS_URL            // the shard hosting roomId, when rooms are spread over several servers
 ) {
   const [connected, setConnected] = useState(false);
   const [selfId, setSelfId] = useState<string | null>(null);
   const [world, setWorld] = useState<WorldView | null>(null);
   const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+  const [outOfDate, setOutOfDate] = useState<OutOfDate | null>(null);
+  const [predictor, setPredictor] = useState<Predictor | null>(null);
+  const [reconnecting, setReconnecting] = useState(false);
+  const [netStats, setNetStats] = useState<NetStatsSummary | null>(null);
+  const [roomClosed, setRoomClosed] = useState<RoomClosedMsg | null>(null);
+  const [restarting, setRestarting] = useState<string | null>(null); // server's shutdown notice until we're back
+  const [queue, setQueue] = useState<QueueMsg | null>(null);          // our place in line while the room is full
+  const [refused, setRefused] = useState<string | null>(null);        // turned away: room (and queue) full, or gone
+  const [rooms, setRooms] = useState<RoomInfo[]>([]);                 // the lobby's room list
+  const [kills, setKills] = useState<FeedKill[]>([]);                 // recent kills in our room, newest last
+  const [death, setDeath] = useState<Kill | null>(null);              // how our worm last died
+  const [tournament, setTournament] = useState<TournamentMsg | null>(null); // the room's round once the server sent one (older servers use snapshot fields)
   const wsRef = useRef<WebSocket | null>(null);
-  const snapBuffer = useRef<InterpolationBuffer>({
-    prev: null,
-    next: null,
-    prevTime: 0,
-    nextTime: 0
-  });
+  const target = useRef({ roomId, mode });       // where the connection should be; the hello asks for it
+  const canSwitchRooms = useRef(false);          // server has the "rooms" capability
+  const connectedTo = useRef<string | null>(null);
+  const self = useRef<string | null>(null);      // selfId, for the message handler
+  const switching = useRef(false);               // until the server confirms a joinRoom/leaveRoom; frames meanwhile are stale
+  const resumeToken = useRef<string | undefined>(undefined); // reclaims our worm if the socket drops
+  const reconnectNow = useRef<(() => void) | null>(null);
+  const eventListeners = useRef(new Set<EventsListener>());
+  const predictorRef = useRef<Predictor | null>(null);
+  const lastView = useRef<{ width: number; height: number; at: number } | null>(null);
+  const canSteer = useRef(false);
+  const lastSteer = useRef<{ angle: number; at: number } | null>(null);
+  const [snapBuffer] = useState(() => new SnapshotBuffer());
 
   // throttle helper for logs
   const throttle = (key: string, ms: number) => {
@@ -53,84 +118,336 @@ export function useGame(
     return false;
   };
 
+  // Move the open connection when the room or mode changes (the connect effect below handles the first one)
   useEffect(() => {
-    const ws = new WebSocket(WS_URL);
-    wsRef.current = ws;
+    const previous = target.current;
+    target.current = { roomId, mode };
+    const ws = wsRef.current;
+    if (previous.roomId === roomId && previous.mode === mode) return;
+    if (!ws) {
+      reconnectNow.current?.(); // closed for good by the last room (full, or deleted)
+      return;
+    }
+    if (ws.readyState !== WebSocket.OPEN || connectedTo.current !== serverUrl) return; // the next hello asks for it
 
-    ws.addEventListener("open", () => {
-      setConnected(true);
-      console.log(`[client] ws open: ${WS_URL}`);
+    // Forget the room we were in; leaving on purpose gives up our worm
+    setSelfId(null);
+    setWorld(null);
+    setSnapshot(null);
+    setQueue(null);
+    setRoomClosed(null);
+    setRefused(null);
+    setKills([]);
+    setDeath(null);
+    setTournament(null);
+    self.current = null;
+    snapBuffer.clear();
+    predictorRef.current = null;
+    setPredictor(null);
+    resumeToken.current = undefined;
+    if (!canSwitchRooms.current) {
+      ws.close(1000, "changing rooms"); // reconnects with a hello for the new room
+      return;
+    }
+    switching.current = true;
+    const msg: JoinRoomMsg | LeaveRoomMsg = roomId ? { type: "joinRoom", roomId, mode } : { type: "leaveRoom" };
+    ws.send(JSON.stringify(msg));
+    console.log(roomId ? `[client] joining ${roomId} (${mode})` : "[client] leaving for the lobby");
+  }, [roomId, mode, serverUrl, snapBuffer]);
+
+  useEffect(() => {
+    if (!player) return;
+    let disposed = false;
+    let attempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const ws = new WebSocket(serverUrl);
+      ws.binaryType = "arraybuffer"; // binary state messages arrive as ArrayBuffer
+      wsRef.current = ws;
+      connectedTo.current = serverUrl;
+      switching.current = false;
+      snapBuffer.clear();
+      const stats = new NetStats();
+      let statsTimer: ReturnType<typeof setInterval> | undefined;
+
+      ws.addEventListener("open", () => {
+        setConnected(true);
+        lastView.current = null; // new connection, resend our view
+        console.log(`[client] ws open: ${serverUrl}`);
       
-      const helloMsg: any = { 
-        type: "hello", 
-        name, 
-        color, 
-        avatar,
-        roomId: roomId || "chill",
-        mode: mode || "playing"
-      };
+        // Servers without the "rooms" capability put a hello without a room in
+        // "chill"; spectating keeps the lobby from spawning a worm there
+        const { roomId, mode } = target.current;
+        const helloMsg: ClientHello = { 
+          type: "hello", 
+          name: player.name, 
+          color: player.color, 
+          avatar: player.avatar,
+          roomId,
+          mode: roomId ? mode : "spectating",
+          protocol: PROTOCOL_VERSION,
+          capabilities: CAPABILITIES,
+          resumeToken: resumeToken.current
+        };
       
-      // Include admin token if provided
-      if (adminToken) {
-        helloMsg.adminToken = adminToken;
-        console.log(`[client] Authenticating as admin`);
-      }
+        // Include admin token if provided
+        if (adminToken) {
+          helloMsg.adminToken = adminToken;
+          console.log(`[client] Authenticating as admin`);
+        }
       
-      ws.send(JSON.stringify(helloMsg));
-    });
-
-    ws.addEventListener("message", (e) => {
-      let msg: AnyServerMsg | any;
-      try { msg = JSON.parse(e.data); } catch { return; }
-
-      if (msg.type === "welcome") {
-        const w = msg as Welcome;
-        setSelfId(w.selfId);
-        setWorld(w.world);
-        console.log("[client] recv welcome:", w);
-        return;
-      }
-
-      if (msg.type === "state") {
-        const snap = msg.snapshot;
+        ws.send(JSON.stringify(helloMsg));
+      });
+
+      // Snapshots by seq, so deltas can be applied to whichever one the server acked
+      const baselines = new Map<number, Snapshot>();
+
+      const ack = (seq: number) => {
+        baselines.forEach((_, s) => { if (s <= seq - BASELINE_HISTORY) baselines.delete(s); });
+        if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ type: "ack", seq }));
+      };
+
+      // Shared snapshot handling for both JSON and binary state messages
+      const onSnapshot = (snap: unknown) => {
+        if (switching.current) return; // from the room we're leaving
         if (!isSnapshot(snap)) {
           if (throttle("bad-snap", 1000)) console.warn("[client] Invalid snapshot", snap);
           return;
         }
-        
+        if (snap.seq !== undefined) {
+          baselines.set(snap.seq, snap);
+          ack(snap.seq);
+        }
+        predictorRef.current?.reconcile(snap);
+      
         // Buffer snapshots for interpolation
-        const now = performance.now();
-        snapBuffer.current.prev = snapBuffer.current.next;
-        snapBuffer.current.prevTime = snapBuffer.current.nextTime;
-        snapBuffer.current.next = snap;
-        snapBuffer.current.nextTime = now;
-        
+        snapBuffer.push(snap, performance.now());
+      
         setSnapshot(snap);
-      }
-    });
-
-    ws.addEventListener("error", (err) => {
-      if (throttle("ws-error", 1000)) console.warn("[client] ws error:", err);
-    });
-
-    ws.addEventListener("close", () => {
-      setConnected(false);
-      setSelfId(null);
-      console.log("[client] ws closed");
-      // Optional: simple reconnect
-      setTimeout(() => {
-        if (wsRef.current === ws) {
-          wsRef.current = null;
-          // let your app control reconnect if you prefer
-        }
-      }, 500);
-    });
+      };
+
+      const onDelta = (delta: SnapshotDelta) => {
+        const base = baselines.get(delta.baseSeq);
+        if (!base) {
+          // Baseline already dropped; the next keyframe will resync us
+          if (throttle("missing-baseline", 1000)) console.warn("[client] Delta for unknown baseline", delta.baseSeq);
+          return;
+        }
+        onSnapshot(applyDelta(base, delta));
+      };
+
+      // Kills feed the kill feed, and ours the death screen
+      const onKills = (fresh: Kill[]) => {
+        if (fresh.length === 0) return;
+        const at = performance.now();
+        setKills(prev => [...prev, ...fresh.map(k => ({ ...k, at }))].slice(-KILL_FEED_LENGTH));
+        const mine = fresh.find(k => k.victimId === self.current);
+        if (mine) setDeath(mine);
+      };
+
+      // Every tick's events go to the subscribers; servers without "events" only send kills
+      const onEvents = (events: GameEvent[], tick: number) => {
+        if (switching.current) return; // from the room we're leaving
+        onKills(events.filter(e => e.type === "kill"));
+        for (const listener of eventListeners.current) listener(events, tick);
+      };
+
+      ws.addEventListener("message", (e) => {
+        // Binary frames are always state or delta messages
+        if (e.data instanceof ArrayBuffer) {
+          stats.snapshot(e.data.byteLength, performance.now());
+          try {
+            const decoded = decodeMessage(e.data);
+            if (decoded.type === "state") onSnapshot(decoded.snapshot);
+            else onDelta(decoded.delta);
+          } catch (err) {
+            // Every frame would fail the same way: stop, and ask for a refresh
+            if (err instanceof CodecVersionError) {
+              console.warn(`[client] ${err.message}, disconnecting`);
+              setOutOfDate({ message: "A new version of the game is available. Please refresh the page.", rejected: true });
+              ws.close(CLOSE_UNSUPPORTED_PROTOCOL, "codec version mismatch");
+              return;
+            }
+            if (throttle("bad-binary", 1000)) console.warn("[client] Failed to decode binary snapshot", err);
+          }
+          return;
+        }
+
+        let msg: AnyServerMsg;
+        try { msg = JSON.parse(e.data); } catch { return; }
+
+        if (msg.type === "welcome") {
+          const w = msg;
+          const roomChanged = switching.current;
+          switching.current = false;
+          if (roomChanged) baselines.clear(); // new room, new snapshot seqs
+          if (self.current !== (w.selfId || null)) setDeath(null); // a resumed worm keeps its death
+          self.current = w.selfId || null;
+          setTournament(null); // the server sends the current round to each new viewer
+          setSelfId(w.selfId);
+          setWorld(w.world ?? null);
+          resumeToken.current = w.resumeToken;
+          canSwitchRooms.current = w.capabilities?.includes("rooms") ?? false;
+          attempt = 0;
+          setReconnecting(false);
+          setRestarting(null);
+          if (w.selfId) setQueue(null); // admitted (queued players are welcomed as spectators first)
+          if (w.resumed) console.log(`[client] resumed worm ${w.selfId}`);
+
+          // Ping once a second if the server answers, and publish fresh stats either way
+          const canPing = w.capabilities?.includes("ping") ?? false;
+          let pingId = 0;
+          const tick = () => {
+            if (canPing && ws.readyState === WebSocket.OPEN) {
+              const ping: PingMsg = { type: "ping", id: ++pingId, clientTime: performance.now() };
+              ws.send(JSON.stringify(ping));
+            }
+            setNetStats(stats.summary(performance.now()));
+          };
+          clearInterval(statsTimer);
+          statsTimer = setInterval(tick, PING_INTERVAL_MS);
+          tick();
+        
+          // Predict our own worm when the server echoes input seqs
+          const p = w.selfId && w.capabilities?.includes("predict") ? new Predictor(w.selfId) : null;
+          predictorRef.current = p;
+          setPredictor(p);
+          canSteer.current = w.capabilities?.includes("steer") ?? false;
+          lastSteer.current = null;
+          console.log(`[client] recv welcome (protocol ${w.protocol ?? "legacy"}, capabilities: ${(w.capabilities ?? []).join(", ") || "none"}):`, w);
+        
+          // Server accepted us but has moved on; keep playing, suggest a refresh
+          if (w.protocol !== undefined && w.protocol > PROTOCOL_VERSION) {
+            setOutOfDate({ message: "A new version of the game is available. Please refresh the page.", rejected: false });
+          }
+          return;
+        }
+
+        if (msg.type === "error") {
+          const err = msg;
+          console.warn("[client] server error:", err.message);
+          if (err.code === "outdated_client" || err.code === "unsupported_protocol") {
+            setOutOfDate({ message: err.message, rejected: true });
+          }
+          // Turned away by a hello or joinRoom; a refused joinRoom leaves us where we were
+          if (err.code === "room_full" || (err.code === "invalid_room" && switching.current)) {
+            switching.current = false;
+            setRefused(err.message);
+          }
+          return;
+        }
+
+        if (msg.type === "roomLeft") {
+          switching.current = false;
+          return;
+        }
+
+        if (msg.type === "roomStatus") {
+          setRooms(msg.rooms);
+          return;
+        }
+
+        if (msg.type === "adminGranted" || msg.type === "adminSuccess") {
+          console.log(`[admin] ${msg.message}`);
+          return;
+        }
+
+        if (msg.type === "queue") {
+          setQueue(msg);
+          return;
+        }
+
+        if (msg.type === "roomClosed") {
+          // The caller moves us on; without the "rooms" capability the server also closes the socket
+          const closed = msg;
+          console.log(`[client] ${closed.message}`);
+          setRoomClosed(closed);
+          return;
+        }
+
+        if (msg.type === "events") {
+          onEvents(msg.events, msg.tick);
+          return;
+        }
+
+        if (msg.type === "kill") {
+          onEvents(msg.kills.map(k => ({ ...k, type: "kill" })), msg.tick);
+          return;
+        }
+
+        if (msg.type === "tournament") {
+          if (!switching.current) setTournament(msg);
+          return;
+        }
+
+        if (msg.type === "shutdown") {
+          // The server is saving our worm; reconnecting resumes it once it's back
+          const notice = msg;
+          console.log(`[client] ${notice.message}`);
+          setRestarting(notice.message);
+          return;
+        }
+
+        if (msg.type === "pong") {
+          stats.pong(msg, performance.now());
+          return;
+        }
+
+        if (msg.type === "state") {
+          stats.snapshot(textEncoder.encode(e.data).length, performance.now());
+          onSnapshot(msg.snapshot);
+        }
+
+        if (msg.type === "delta") {
+          stats.snapshot(textEncoder.encode(e.data).length, performance.now());
+          onDelta(msg.delta);
+        }
+      });
+
+      ws.addEventListener("error", (err) => {
+        if (throttle("ws-error", 1000)) console.warn("[client] ws error:", err);
+      });
+
+      ws.addEventListener("close", (e) => {
+        clearInterval(statsTimer);
+        setNetStats(null);
+        setConnected(false);
+        setSelfId(null);
+        predictorRef.current = null;
+        setPredictor(null);
+        console.log(`[client] ws closed (${e.code}${e.reason ? `: ${e.reason}` : ""})`);
+        if (wsRef.current === ws) wsRef.current = null;
+        if (disposed || NO_RECONNECT.includes(e.code)) return;
+
+        // Reconnect with backoff; the resume token gets our worm back if the server still holds it
+        const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+        attempt++;
+        setReconnecting(true);
+        console.log(`[client] reconnecting in ${Math.round(delay)}ms (attempt ${attempt})`);
+        retryTimer = setTimeout(connect, delay);
+      });
+    };
+
+    connect();
+
+    // After a close we don't retry (room full, room deleted), connect again once there's somewhere else to go
+    reconnectNow.current = () => {
+      if (disposed || wsRef.current) return;
+      clearTimeout(retryTimer);
+      attempt = 0;
+      connect();
+    };
 
     return () => {
-      ws.close();
+      disposed = true;
+      clearTimeout(retryTimer);
+      wsRef.current?.close();
       wsRef.current = null;
+      connectedTo.current = null;
+      reconnectNow.current = null;
     };
-  }, [name, color, avatar]);
+  }, [player, serverUrl]);
 
   // send turn
   const sendTurn = (dir: -1 | 0 | 1) => {
@@ -139,7 +456,22 @@ export function useGame(
       if (throttle("drop-turn", 1000)) console.debug("[client] DROP send (socket not open)", { type: "turn", dir });
       return;
     }
-    ws.send(JSON.stringify({ type: "turn", dir }));
+    const seq = predictorRef.current?.input({ turn: dir });
+    ws.send(JSON.stringify({ type: "turn", dir, seq }));
+    lastSteer.current = null; // the turn cancelled any steering on the server
+  };
+
+  // steer toward a heading (radians); called every frame, so throttled to the tick rate
+  const sendSteer = (angle: number) => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN || !canSteer.current) return;
+    const now = performance.now();
+    const prev = lastSteer.current;
+    if (prev && (Math.abs(angleDelta(prev.angle, angle)) < STEER_EPSILON || now - prev.at < TICK_MS)) return;
+    lastSteer.current = { angle, at: now };
+    const seq = predictorRef.current?.input({ targetAngle: angle });
+    const steer: SteerMsg = { type: "steer", angle, seq };
+    ws.send(JSON.stringify(steer));
   };
 
   // send boost
@@ -149,10 +481,38 @@ export function useGame(
       if (throttle("drop-boost", 1000)) console.debug("[client] DROP boost (socket not open)", { type: "boost", boosting });
       return;
     }
-    ws.send(JSON.stringify({ type: "boost", boosting }));
+    const seq = predictorRef.current?.input({ boosting });
+    ws.send(JSON.stringify({ type: "boost", boosting, seq }));
   };
 
-  const sendAdminCommand = (command: any) => {
+  // bring our dead worm back as a baby, on the same connection (a reload would lose our place)
+  const sendRespawn = () => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+    ws.send(JSON.stringify({ type: "respawn" }));
+  };
+
+  // report the visible world extent so the server can cull what it sends us
+  const sendView = (width: number, height: number) => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+    const now = performance.now();
+    const prev = lastView.current;
+    if (prev) {
+      const changed = Math.abs(width - prev.width) > prev.width * 0.1 || Math.abs(height - prev.height) > prev.height * 0.1;
+      if (!changed || now - prev.at < 250) return;
+    }
+    lastView.current = { width, height, at: now };
+    ws.send(JSON.stringify({ type: "view", width: Math.round(width), height: Math.round(height) }));
+  };
+
+  // subscribe to the room's events; returns the unsubscribe (an effect's cleanup)
+  const onEvents = useCallback((listener: EventsListener) => {
+    eventListeners.current.add(listener);
+    return () => { eventListeners.current.delete(listener); };
+  }, []);
+
+  const sendAdminCommand = (command: AdminMsg) => {
     const ws = wsRef.current;
     if (ws && ws.readyState === 1) {
       ws.send(JSON.stringify(command));
@@ -160,6 +520,8 @@ export function useGame(
   };
 
   return {
-    connected, selfId, world, snapshot, sendTurn, sendBoost, sendAdminCommand, snapBuffer: snapBuffer.current,
+    connected, reconnecting, restarting, queue, refused, rooms, kills, death, tournament, selfId, world, snapshot, outOfDate, roomClosed, netStats, predictor, sendTurn, sendSteer, sendBoost, sendRespawn, sendView, sendAdminCommand, onEvents, snapBuffer,
   } as const;
 }
+
+export type GameConnection = ReturnType<typeof useGame>;
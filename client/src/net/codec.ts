@@ -0,0 +1,584 @@
+// client/src/net/codec.ts
+// Compact binary encoding for state and delta messages (shared by server and client).
+//
+// State layout (little endian):
+//   u8  version, u8 kind
+//   f64 t, u32 seq, u16 world.width, u16 world.height
+//   u16 string count, then per string: u16 byte length + utf-8 bytes
+//   u16 player count, then per player (see writePlayer)
+//   u16 food count, then per food: u16 x, u16 y
+//   u16 bonus food count, then per item: u16 x, u16 y, u8 type, u16 value (power-ups are types too)
+//   u16 dead count, then per id: u16 string index
+//   u8  extras flags, then offscreen summaries / tournament timer / winner / input echo / u32 tick if flagged
+//
+// Delta layout shares the header (plus u32 baseSeq after seq), the string
+// table, dead list and extras; see encodeDelta for the body.
+//
+// Running power-ups go with a player as u8 count, then per effect: u8 type, u16 ticks left.
+//
+// Coordinates are quantized to 16 bits relative to the world size, so precision
+// is world.width / 65535 (~0.04 units in the Chill Zone). Names, colors, avatars
+// and ids are interned in a per-message string table and referenced by index.
+
+import type {
+  Snapshot, SnapshotDelta, PlayerView, PlayerDelta, PlayerSummary, FoodItem, Vec, WorldView, StateMsg, DeltaMsg,
+  ActiveEffects, PowerUpType
+} from "./protocol";
+
+export const CODEC_VERSION = 4;
+
+const KIND_STATE = 1;
+const KIND_DELTA = 2;
+
+const NO_STRING = 0xffff;
+const NO_LENGTH = 0xffff;
+const COORD_MAX = 0xffff;
+const TWO_PI = Math.PI * 2;
+
+const PLAYER_ALIVE = 1 << 0;
+const PLAYER_BOOSTING = 1 << 1;
+const PLAYER_THICKNESS = 1 << 2;
+const PLAYER_EFFECTS = 1 << 3;
+
+const DELTA_SCORE = 1 << 0;
+const DELTA_ALIVE = 1 << 1;       // alive changed, value in DELTA_ALIVE_VALUE
+const DELTA_ALIVE_VALUE = 1 << 2;
+const DELTA_BOOSTING = 1 << 3;    // boosting changed, value in DELTA_BOOSTING_VALUE
+const DELTA_BOOSTING_VALUE = 1 << 4;
+const DELTA_THICKNESS = 1 << 5;   // thickness changed to a value
+const DELTA_THICKNESS_RESET = 1 << 6;
+const DELTA_FULL_BODY = 1 << 7;
+const DELTA_EFFECTS = 1 << 8;     // effects changed to a set
+const DELTA_EFFECTS_RESET = 1 << 9;
+
+const EXTRA_TIMER = 1 << 0;
+const EXTRA_WINNER = 1 << 1;
+const EXTRA_OFFSCREEN = 1 << 2;
+const EXTRA_INPUT = 1 << 3;
+const EXTRA_TICK = 1 << 4;
+
+const FOOD_TYPE_CODES: FoodItem["type"][] = ["bug", "jira", "zillow", "shield", "magnet", "speed", "ghost"];
+const EFFECT_CODES: PowerUpType[] = ["shield", "magnet", "speed", "ghost"];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// Growable byte buffer with typed writes
+class ByteWriter {
+  private bytes = new Uint8Array(4096);
+  private view = new DataView(this.bytes.buffer);
+  offset = 0;
+
+  private ensure(n: number) {
+    if (this.offset + n <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.offset + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.bytes.subarray(0, this.offset));
+    this.bytes = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(v: number) { this.ensure(1); this.view.setUint8(this.offset, v); this.offset += 1; }
+  u16(v: number) { this.ensure(2); this.view.setUint16(this.offset, v, true); this.offset += 2; }
+  u32(v: number) { this.ensure(4); this.view.setUint32(this.offset, v, true); this.offset += 4; }
+  f32(v: number) { this.ensure(4); this.view.setFloat32(this.offset, v, true); this.offset += 4; }
+  f64(v: number) { this.ensure(8); this.view.setFloat64(this.offset, v, true); this.offset += 8; }
+
+  raw(data: Uint8Array) {
+    this.ensure(data.length);
+    this.bytes.set(data, this.offset);
+    this.offset += data.length;
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.offset);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private bytes: Uint8Array;
+  offset = 0;
+
+  constructor(data: ArrayBuffer | Uint8Array) {
+    this.bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    this.view = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength);
+  }
+
+  u8() { const v = this.view.getUint8(this.offset); this.offset += 1; return v; }
+  u16() { const v = this.view.getUint16(this.offset, true); this.offset += 2; return v; }
+  u32() { const v = this.view.getUint32(this.offset, true); this.offset += 4; return v; }
+  f32() { const v = this.view.getFloat32(this.offset, true); this.offset += 4; return v; }
+  f64() { const v = this.view.getFloat64(this.offset, true); this.offset += 8; return v; }
+
+  raw(n: number): Uint8Array {
+    const out = this.bytes.subarray(this.offset, this.offset + n);
+    this.offset += n;
+    return out;
+  }
+}
+
+// Interns strings so repeated names/colors/avatars are only sent once
+class StringTable {
+  readonly strings: string[] = [];
+  private index = new Map<string, number>();
+
+  ref(s: string | undefined): number {
+    if (s === undefined) return NO_STRING;
+    let i = this.index.get(s);
+    if (i === undefined) {
+      i = this.strings.length;
+      this.strings.push(s);
+      this.index.set(s, i);
+    }
+    return i;
+  }
+}
+
+function quantize(v: number, size: number): number {
+  const q = Math.round((v / size) * COORD_MAX);
+  return Math.max(0, Math.min(COORD_MAX, q));
+}
+
+function dequantize(q: number, size: number): number {
+  return (q / COORD_MAX) * size;
+}
+
+function quantizeAngle(a: number): number {
+  const norm = ((a % TWO_PI) + TWO_PI) % TWO_PI;
+  return Math.round((norm / TWO_PI) * COORD_MAX) & COORD_MAX;
+}
+
+function dequantizeAngle(q: number): number {
+  return (q / COORD_MAX) * TWO_PI;
+}
+
+function writeVec(w: ByteWriter, v: Vec, world: WorldView) {
+  w.u16(quantize(v.x, world.width));
+  w.u16(quantize(v.y, world.height));
+}
+
+function readVec(r: ByteReader, world: WorldView): Vec {
+  const x = dequantize(r.u16(), world.width);
+  const y = dequantize(r.u16(), world.height);
+  return { x, y };
+}
+
+function writeVecs(w: ByteWriter, pts: Vec[], world: WorldView) {
+  w.u16(pts.length);
+  for (const pt of pts) writeVec(w, pt, world);
+}
+
+function readVecs(r: ByteReader, world: WorldView): Vec[] {
+  const n = r.u16();
+  const out: Vec[] = new Array(n);
+  for (let i = 0; i < n; i++) out[i] = readVec(r, world);
+  return out;
+}
+
+function writeIndices(w: ByteWriter, indices: number[]) {
+  w.u16(indices.length);
+  for (const i of indices) w.u16(i);
+}
+
+function readIndices(r: ByteReader): number[] {
+  const n = r.u16();
+  const out: number[] = new Array(n);
+  for (let i = 0; i < n; i++) out[i] = r.u16();
+  return out;
+}
+
+function writeBonusFood(w: ByteWriter, items: FoodItem[], world: WorldView) {
+  w.u16(items.length);
+  for (const f of items) {
+    writeVec(w, f, world);
+    w.u8(FOOD_TYPE_CODES.indexOf(f.type));
+    w.u16(f.value);
+  }
+}
+
+function readBonusFood(r: ByteReader, world: WorldView): FoodItem[] {
+  const n = r.u16();
+  const out: FoodItem[] = new Array(n);
+  for (let i = 0; i < n; i++) {
+    const { x, y } = readVec(r, world);
+    const type = FOOD_TYPE_CODES[r.u8()];
+    const value = r.u16();
+    out[i] = { x, y, type, value };
+  }
+  return out;
+}
+
+function writeStringTable(w: ByteWriter, strings: StringTable) {
+  w.u16(strings.strings.length);
+  for (const s of strings.strings) {
+    const bytes = textEncoder.encode(s);
+    w.u16(bytes.length);
+    w.raw(bytes);
+  }
+}
+
+function readStringTable(r: ByteReader): string[] {
+  const n = r.u16();
+  const strings: string[] = new Array(n);
+  for (let i = 0; i < n; i++) {
+    strings[i] = textDecoder.decode(r.raw(r.u16()));
+  }
+  return strings;
+}
+
+// Fields common to state and delta messages
+type Extras = Pick<Snapshot, "offscreen" | "dead" | "tournamentTimer" | "tournamentWinner" | "inputSeq" | "inputTicks" | "tick">;
+
+function collectExtraStrings(table: StringTable, extras: Extras) {
+  for (const p of extras.offscreen ?? []) {
+    table.ref(p.id);
+    table.ref(p.name);
+  }
+  for (const id of extras.dead ?? []) table.ref(id);
+  if (extras.tournamentTimer) table.ref(extras.tournamentTimer.state);
+  if (extras.tournamentWinner) table.ref(extras.tournamentWinner.name);
+}
+
+function collectPlayerStrings(table: StringTable, p: PlayerView) {
+  table.ref(p.id);
+  table.ref(p.name);
+  table.ref(p.color);
+  table.ref(p.avatar);
+}
+
+function writeExtras(w: ByteWriter, extras: Extras, strings: StringTable) {
+  const dead = extras.dead ?? [];
+  w.u16(dead.length);
+  for (const id of dead) w.u16(strings.ref(id));
+
+  let flags = 0;
+  if (extras.tournamentTimer) flags |= EXTRA_TIMER;
+  if (extras.tournamentWinner) flags |= EXTRA_WINNER;
+  if (extras.offscreen) flags |= EXTRA_OFFSCREEN;
+  if (extras.inputSeq !== undefined) flags |= EXTRA_INPUT;
+  if (extras.tick !== undefined) flags |= EXTRA_TICK;
+  w.u8(flags);
+  if (extras.offscreen) {
+    w.u16(extras.offscreen.length);
+    for (const p of extras.offscreen) {
+      w.u16(strings.ref(p.id));
+      w.u16(strings.ref(p.name));
+      w.f32(p.score);
+      w.u8(p.alive ? 1 : 0);
+    }
+  }
+  if (extras.tournamentTimer) {
+    w.u16(strings.ref(extras.tournamentTimer.state));
+    w.u16(extras.tournamentTimer.remaining);
+    w.u16(extras.tournamentTimer.duration);
+  }
+  if (extras.tournamentWinner) {
+    w.u16(strings.ref(extras.tournamentWinner.name));
+    w.f32(extras.tournamentWinner.score);
+  }
+  if (extras.inputSeq !== undefined) {
+    w.u32(extras.inputSeq);
+    w.u16(Math.min(extras.inputTicks ?? 0, 0xffff));
+  }
+  if (extras.tick !== undefined) w.u32(extras.tick);
+}
+
+function readExtras(r: ByteReader, strings: string[], into: Extras) {
+  const deadCount = r.u16();
+  if (deadCount > 0) {
+    const dead: string[] = new Array(deadCount);
+    for (let i = 0; i < deadCount; i++) dead[i] = strings[r.u16()];
+    into.dead = dead;
+  }
+
+  const flags = r.u8();
+  if (flags & EXTRA_OFFSCREEN) {
+    const n = r.u16();
+    const offscreen: PlayerSummary[] = new Array(n);
+    for (let i = 0; i < n; i++) {
+      offscreen[i] = { id: strings[r.u16()], name: strings[r.u16()], score: r.f32(), alive: r.u8() === 1 };
+    }
+    into.offscreen = offscreen;
+  }
+  if (flags & EXTRA_TIMER) {
+    into.tournamentTimer = { state: strings[r.u16()], remaining: r.u16(), duration: r.u16() };
+  }
+  if (flags & EXTRA_WINNER) {
+    into.tournamentWinner = { name: strings[r.u16()], score: r.f32() };
+  }
+  if (flags & EXTRA_INPUT) {
+    into.inputSeq = r.u32();
+    into.inputTicks = r.u16();
+  }
+  if (flags & EXTRA_TICK) into.tick = r.u32();
+}
+
+function writeEffects(w: ByteWriter, effects: ActiveEffects) {
+  const running = EFFECT_CODES.filter(type => effects[type] !== undefined);
+  w.u8(running.length);
+  for (const type of running) {
+    w.u8(EFFECT_CODES.indexOf(type));
+    w.u16(Math.min(0xffff, effects[type]!));
+  }
+}
+
+function readEffects(r: ByteReader): ActiveEffects {
+  const effects: ActiveEffects = {};
+  const count = r.u8();
+  for (let i = 0; i < count; i++) {
+    const type = EFFECT_CODES[r.u8()];
+    effects[type] = r.u16();
+  }
+  return effects;
+}
+
+function writePlayer(w: ByteWriter, p: PlayerView, strings: StringTable, world: WorldView) {
+  w.u16(strings.ref(p.id));
+  w.u16(strings.ref(p.name));
+  w.u16(strings.ref(p.color));
+  w.u16(strings.ref(p.avatar));
+
+  let flags = 0;
+  if (p.alive) flags |= PLAYER_ALIVE;
+  if (p.boosting) flags |= PLAYER_BOOSTING;
+  if (p.thickness !== undefined) flags |= PLAYER_THICKNESS;
+  if (p.effects) flags |= PLAYER_EFFECTS;
+  w.u8(flags);
+
+  writeVec(w, p.head.pos, world);
+  w.u16(quantizeAngle(p.head.angle));
+  w.f32(p.score);
+  if (p.thickness !== undefined) w.f32(p.thickness);
+  if (p.effects) writeEffects(w, p.effects);
+
+  writeVecs(w, p.body, world);
+}
+
+function readPlayer(r: ByteReader, strings: string[], world: WorldView): PlayerView {
+  const id = strings[r.u16()];
+  const name = strings[r.u16()];
+  const color = strings[r.u16()];
+  const avatarRef = r.u16();
+  const flags = r.u8();
+
+  const pos = readVec(r, world);
+  const angle = dequantizeAngle(r.u16());
+  const score = r.f32();
+  const thickness = flags & PLAYER_THICKNESS ? r.f32() : undefined;
+  const effects = flags & PLAYER_EFFECTS ? readEffects(r) : undefined;
+  const body = readVecs(r, world);
+
+  const p: PlayerView = {
+    id, name, color,
+    head: { pos, angle },
+    body,
+    score,
+    alive: (flags & PLAYER_ALIVE) !== 0,
+  };
+  if (avatarRef !== NO_STRING) p.avatar = strings[avatarRef];
+  if (flags & PLAYER_BOOSTING) p.boosting = true;
+  if (thickness !== undefined) p.thickness = thickness;
+  if (effects) p.effects = effects;
+  return p;
+}
+
+function writePlayerDelta(w: ByteWriter, d: PlayerDelta, strings: StringTable, world: WorldView) {
+  w.u16(strings.ref(d.id));
+
+  let flags = 0;
+  if (d.score !== undefined) flags |= DELTA_SCORE;
+  if (d.alive !== undefined) flags |= DELTA_ALIVE | (d.alive ? DELTA_ALIVE_VALUE : 0);
+  if (d.boosting !== undefined) flags |= DELTA_BOOSTING | (d.boosting ? DELTA_BOOSTING_VALUE : 0);
+  if (d.thickness === null) flags |= DELTA_THICKNESS_RESET;
+  else if (d.thickness !== undefined) flags |= DELTA_THICKNESS;
+  if (d.body) flags |= DELTA_FULL_BODY;
+  if (d.effects === null) flags |= DELTA_EFFECTS_RESET;
+  else if (d.effects !== undefined) flags |= DELTA_EFFECTS;
+  w.u16(flags);
+
+  writeVec(w, d.head.pos, world);
+  w.u16(quantizeAngle(d.head.angle));
+  if (d.score !== undefined) w.f32(d.score);
+  if (typeof d.thickness === "number") w.f32(d.thickness);
+  if (d.effects) writeEffects(w, d.effects);
+
+  if (d.body) {
+    writeVecs(w, d.body, world);
+  } else {
+    writeVecs(w, d.bodyPrepend ?? [], world);
+    w.u16(d.bodyLength ?? NO_LENGTH);
+  }
+}
+
+function readPlayerDelta(r: ByteReader, strings: string[], world: WorldView): PlayerDelta {
+  const id = strings[r.u16()];
+  const flags = r.u16();
+
+  const d: PlayerDelta = { id, head: { pos: readVec(r, world), angle: dequantizeAngle(r.u16()) } };
+  if (flags & DELTA_SCORE) d.score = r.f32();
+  if (flags & DELTA_ALIVE) d.alive = (flags & DELTA_ALIVE_VALUE) !== 0;
+  if (flags & DELTA_BOOSTING) d.boosting = (flags & DELTA_BOOSTING_VALUE) !== 0;
+  if (flags & DELTA_THICKNESS) d.thickness = r.f32();
+  if (flags & DELTA_THICKNESS_RESET) d.thickness = null;
+  if (flags & DELTA_EFFECTS) d.effects = readEffects(r);
+  if (flags & DELTA_EFFECTS_RESET) d.effects = null;
+
+  if (flags & DELTA_FULL_BODY) {
+    d.body = readVecs(r, world);
+  } else {
+    const prepend = readVecs(r, world);
+    const length = r.u16();
+    if (prepend.length > 0) d.bodyPrepend = prepend;
+    if (length !== NO_LENGTH) d.bodyLength = length;
+  }
+  return d;
+}
+
+function writeHeader(w: ByteWriter, kind: number, t: number, seq: number, world: WorldView) {
+  w.u8(CODEC_VERSION);
+  w.u8(kind);
+  w.f64(t);
+  w.u32(seq);
+  w.u16(world.width);
+  w.u16(world.height);
+}
+
+/** Encode a snapshot into the binary state format */
+export function encodeSnapshot(snap: Snapshot): Uint8Array {
+  const w = new ByteWriter();
+  const world = snap.world;
+
+  const strings = new StringTable();
+  for (const p of snap.players) collectPlayerStrings(strings, p);
+  collectExtraStrings(strings, snap);
+
+  writeHeader(w, KIND_STATE, snap.t, snap.seq ?? 0, world);
+  writeStringTable(w, strings);
+
+  w.u16(snap.players.length);
+  for (const p of snap.players) writePlayer(w, p, strings, world);
+
+  writeVecs(w, snap.foods, world);
+  writeBonusFood(w, snap.bonusFood ?? [], world);
+  writeExtras(w, snap, strings);
+
+  return w.finish();
+}
+
+/** Encode a delta into the binary delta format */
+export function encodeDelta(delta: SnapshotDelta): Uint8Array {
+  const w = new ByteWriter();
+  const world = delta.world;
+
+  const strings = new StringTable();
+  for (const d of delta.players) strings.ref(d.id);
+  for (const p of delta.addedPlayers) collectPlayerStrings(strings, p);
+  for (const id of delta.removedPlayers) strings.ref(id);
+  collectExtraStrings(strings, delta);
+
+  writeHeader(w, KIND_DELTA, delta.t, delta.seq, world);
+  w.u32(delta.baseSeq);
+  writeStringTable(w, strings);
+
+  w.u16(delta.players.length);
+  for (const d of delta.players) writePlayerDelta(w, d, strings, world);
+
+  w.u16(delta.addedPlayers.length);
+  for (const p of delta.addedPlayers) writePlayer(w, p, strings, world);
+
+  w.u16(delta.removedPlayers.length);
+  for (const id of delta.removedPlayers) w.u16(strings.ref(id));
+
+  writeIndices(w, delta.removedFoods);
+  writeVecs(w, delta.addedFoods, world);
+  writeIndices(w, delta.removedBonusFood);
+  writeBonusFood(w, delta.addedBonusFood, world);
+  writeExtras(w, delta, strings);
+
+  return w.finish();
+}
+
+function readState(r: ByteReader, t: number, seq: number, world: WorldView): Snapshot {
+  const strings = readStringTable(r);
+
+  const playerCount = r.u16();
+  const players: PlayerView[] = new Array(playerCount);
+  for (let i = 0; i < playerCount; i++) players[i] = readPlayer(r, strings, world);
+
+  const foods = readVecs(r, world);
+  const bonusFood = readBonusFood(r, world);
+
+  const snap: Snapshot = { t, world, players, foods };
+  if (seq !== 0) snap.seq = seq;
+  if (bonusFood.length > 0) snap.bonusFood = bonusFood;
+  readExtras(r, strings, snap);
+  return snap;
+}
+
+function readDelta(r: ByteReader, t: number, seq: number, world: WorldView): SnapshotDelta {
+  const baseSeq = r.u32();
+  const strings = readStringTable(r);
+
+  const deltaCount = r.u16();
+  const players: PlayerDelta[] = new Array(deltaCount);
+  for (let i = 0; i < deltaCount; i++) players[i] = readPlayerDelta(r, strings, world);
+
+  const addedCount = r.u16();
+  const addedPlayers: PlayerView[] = new Array(addedCount);
+  for (let i = 0; i < addedCount; i++) addedPlayers[i] = readPlayer(r, strings, world);
+
+  const removedCount = r.u16();
+  const removedPlayers: string[] = new Array(removedCount);
+  for (let i = 0; i < removedCount; i++) removedPlayers[i] = strings[r.u16()];
+
+  const delta: SnapshotDelta = {
+    seq, baseSeq, t, world,
+    players,
+    addedPlayers,
+    removedPlayers,
+    removedFoods: readIndices(r),
+    addedFoods: readVecs(r, world),
+    removedBonusFood: readIndices(r),
+    addedBonusFood: readBonusFood(r, world),
+  };
+  readExtras(r, strings, delta);
+  return delta;
+}
+
+/** Thrown for a message from a different codec version (the client is out of date, or the server is) */
+export class CodecVersionError extends Error {
+  readonly version: number;
+
+  constructor(version: number) {
+    super(`Unsupported snapshot codec version ${version}`);
+    this.name = "CodecVersionError";
+    this.version = version;
+  }
+}
+
+/** Decode any binary server message */
+export function decodeMessage(data: ArrayBuffer | Uint8Array): StateMsg | DeltaMsg {
+  const r = new ByteReader(data);
+
+  const version = r.u8();
+  if (version !== CODEC_VERSION) {
+    throw new CodecVersionError(version);
+  }
+  const kind = r.u8();
+  const t = r.f64();
+  const seq = r.u32();
+  const world: WorldView = { width: r.u16(), height: r.u16() };
+
+  if (kind === KIND_STATE) return { type: "state", snapshot: readState(r, t, seq, world) };
+  if (kind === KIND_DELTA) return { type: "delta", delta: readDelta(r, t, seq, world) };
+  throw new Error(`Unknown binary message kind ${kind}`);
+}
+
+/** Decode a binary state message back into a Snapshot */
+export function decodeSnapshot(data: ArrayBuffer | Uint8Array): Snapshot {
+  const msg = decodeMessage(data);
+  if (msg.type !== "state") throw new Error(`Expected a state message, got ${msg.type}`);
+  return msg.snapshot;
+}
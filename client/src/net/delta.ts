@@ -0,0 +1,210 @@
+// client/src/net/delta.ts
+// Snapshot diffing (server) and reconstruction (client).
+//
+// A delta describes the next snapshot relative to a baseline the client has
+// acknowledged. Food has no identity, so it is diffed by value: removals are
+// indices into the baseline's list and additions are appended. Bodies only
+// grow at the head and shrink at the tail, so they are sent as new head points
+// plus the resulting length.
+
+import type { Snapshot, SnapshotDelta, PlayerView, PlayerDelta, Vec, FoodItem, ActiveEffects } from "./protocol";
+
+// Don't bother diffing a body when this many points were added since the baseline
+const MAX_BODY_PREPEND = 64;
+
+function sameVec(a: Vec, b: Vec): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+function sameEffects(a: ActiveEffects | undefined, b: ActiveEffects | undefined): boolean {
+  const keys = Object.keys({ ...a, ...b }) as Array<keyof ActiveEffects>;
+  return keys.every(k => a?.[k] === b?.[k]);
+}
+
+const foodKey = (f: Vec) => `${f.x},${f.y}`;
+const bonusKey = (f: FoodItem) => `${f.x},${f.y},${f.type},${f.value}`;
+
+// Multiset diff: which baseline indices disappeared and which items are new
+function diffList<T>(base: T[], next: T[], key: (item: T) => string): { removed: number[]; added: T[] } {
+  const unmatched = new Map<string, number>();
+  for (const item of next) {
+    const k = key(item);
+    unmatched.set(k, (unmatched.get(k) ?? 0) + 1);
+  }
+
+  const removed: number[] = [];
+  for (let i = 0; i < base.length; i++) {
+    const k = key(base[i]);
+    const count = unmatched.get(k);
+    if (count) unmatched.set(k, count - 1);
+    else removed.push(i);
+  }
+
+  const added: T[] = [];
+  for (const item of next) {
+    const k = key(item);
+    const count = unmatched.get(k);
+    if (count) {
+      added.push(item);
+      unmatched.set(k, count - 1);
+    }
+  }
+
+  return { removed, added };
+}
+
+function applyList<T>(base: T[], removed: number[], added: T[]): T[] {
+  if (removed.length === 0) return base.concat(added);
+  const drop = new Set(removed);
+  const out = base.filter((_, i) => !drop.has(i));
+  for (const item of added) out.push(item);
+  return out;
+}
+
+// How many points were pushed onto the front of `base` to get `next`, or null if
+// `next` is not a continuation of `base` (respawn, or too far behind)
+function countPrepended(base: Vec[], next: Vec[]): number | null {
+  if (base.length === 0) return next.length <= MAX_BODY_PREPEND ? next.length : null;
+
+  const limit = Math.min(MAX_BODY_PREPEND, next.length - 1);
+  for (let k = 0; k <= limit; k++) {
+    if (!sameVec(next[k], base[0])) continue;
+    // Verify the far end of the overlap as well
+    const overlap = Math.min(base.length, next.length - k);
+    if (sameVec(next[k + overlap - 1], base[overlap - 1])) return k;
+  }
+  return null;
+}
+
+function diffPlayer(base: PlayerView, next: PlayerView): PlayerDelta | null {
+  const d: PlayerDelta = { id: next.id, head: next.head };
+  let changed =
+    !sameVec(base.head.pos, next.head.pos) || base.head.angle !== next.head.angle;
+
+  const prepended = countPrepended(base.body, next.body);
+  if (prepended === null) {
+    d.body = next.body;
+    changed = true;
+  } else if (prepended > 0 || next.body.length !== base.body.length) {
+    d.bodyPrepend = next.body.slice(0, prepended);
+    d.bodyLength = next.body.length;
+    changed = true;
+  }
+
+  if (base.score !== next.score) { d.score = next.score; changed = true; }
+  if (base.alive !== next.alive) { d.alive = next.alive; changed = true; }
+  if (!!base.boosting !== !!next.boosting) { d.boosting = !!next.boosting; changed = true; }
+  if (base.thickness !== next.thickness) { d.thickness = next.thickness ?? null; changed = true; }
+  if (!sameEffects(base.effects, next.effects)) { d.effects = next.effects ?? null; changed = true; }
+
+  return changed ? d : null;
+}
+
+function applyPlayerDelta(base: PlayerView, d: PlayerDelta): PlayerView {
+  const p: PlayerView = { ...base, head: d.head };
+
+  if (d.body) {
+    p.body = d.body;
+  } else if (d.bodyPrepend || d.bodyLength !== undefined) {
+    const prepend = d.bodyPrepend ?? [];
+    const length = d.bodyLength ?? prepend.length + base.body.length;
+    p.body = prepend.concat(base.body).slice(0, length);
+  }
+
+  if (d.score !== undefined) p.score = d.score;
+  if (d.alive !== undefined) p.alive = d.alive;
+  if (d.boosting !== undefined) {
+    if (d.boosting) p.boosting = true;
+    else delete p.boosting;
+  }
+  if (d.thickness !== undefined) {
+    if (d.thickness === null) delete p.thickness;
+    else p.thickness = d.thickness;
+  }
+  if (d.effects !== undefined) {
+    if (d.effects === null) delete p.effects;
+    else p.effects = d.effects;
+  }
+  return p;
+}
+
+/** Describe `next` as changes against `base` */
+export function diffSnapshots(base: Snapshot, next: Snapshot): SnapshotDelta {
+  const baseById = new Map(base.players.map(p => [p.id, p]));
+  const nextIds = new Set(next.players.map(p => p.id));
+
+  const players: PlayerDelta[] = [];
+  const addedPlayers: PlayerView[] = [];
+  for (const p of next.players) {
+    const prev = baseById.get(p.id);
+    if (!prev) {
+      addedPlayers.push(p);
+      continue;
+    }
+    const d = diffPlayer(prev, p);
+    if (d) players.push(d);
+  }
+  const removedPlayers = base.players.filter(p => !nextIds.has(p.id)).map(p => p.id);
+
+  const foods = diffList(base.foods, next.foods, foodKey);
+  const bonus = diffList(base.bonusFood ?? [], next.bonusFood ?? [], bonusKey);
+
+  const delta: SnapshotDelta = {
+    seq: next.seq ?? 0,
+    baseSeq: base.seq ?? 0,
+    t: next.t,
+    world: next.world,
+    players,
+    addedPlayers,
+    removedPlayers,
+    removedFoods: foods.removed,
+    addedFoods: foods.added,
+    removedBonusFood: bonus.removed,
+    addedBonusFood: bonus.added,
+  };
+  if (next.offscreen) delta.offscreen = next.offscreen;
+  if (next.dead) delta.dead = next.dead;
+  if (next.tournamentTimer) delta.tournamentTimer = next.tournamentTimer;
+  if (next.tournamentWinner) delta.tournamentWinner = next.tournamentWinner;
+  if (next.inputSeq !== undefined) {
+    delta.inputSeq = next.inputSeq;
+    delta.inputTicks = next.inputTicks;
+  }
+  if (next.tick !== undefined) delta.tick = next.tick;
+  return delta;
+}
+
+/** Rebuild the full snapshot a delta describes from its baseline */
+export function applyDelta(base: Snapshot, delta: SnapshotDelta): Snapshot {
+  const removed = new Set(delta.removedPlayers);
+  const changes = new Map(delta.players.map(d => [d.id, d]));
+
+  const players: PlayerView[] = [];
+  for (const p of base.players) {
+    if (removed.has(p.id)) continue;
+    const d = changes.get(p.id);
+    players.push(d ? applyPlayerDelta(p, d) : p);
+  }
+  for (const p of delta.addedPlayers) players.push(p);
+
+  const snap: Snapshot = {
+    t: delta.t,
+    seq: delta.seq,
+    world: delta.world,
+    players,
+    foods: applyList(base.foods, delta.removedFoods, delta.addedFoods),
+  };
+
+  const bonusFood = applyList(base.bonusFood ?? [], delta.removedBonusFood, delta.addedBonusFood);
+  if (bonusFood.length > 0) snap.bonusFood = bonusFood;
+  if (delta.offscreen) snap.offscreen = delta.offscreen;
+  if (delta.dead) snap.dead = delta.dead;
+  if (delta.tournamentTimer) snap.tournamentTimer = delta.tournamentTimer;
+  if (delta.tournamentWinner) snap.tournamentWinner = delta.tournamentWinner;
+  if (delta.inputSeq !== undefined) {
+    snap.inputSeq = delta.inputSeq;
+    snap.inputTicks = delta.inputTicks;
+  }
+  if (delta.tick !== undefined) snap.tick = delta.tick;
+  return snap;
+}
@@ -5,6 +5,13 @@ export type WorldView = { width: number; height: number };
 
 export type PlayerHead = { pos: Vec; angle: number };
 
+// Timed pickups: shield survives hitting other worms, magnet eats food from
+// further away, speed moves faster for free, ghost passes through other worms
+export type PowerUpType = "shield" | "magnet" | "speed" | "ghost";
+
+// Ticks left on each power-up a worm has running
+export type ActiveEffects = Partial<Record<PowerUpType, number>>;
+
 export type PlayerView = {
   id: string;
   name: string;
@@ -16,34 +23,240 @@ export type PlayerView = {
   alive: boolean;
   boosting?: boolean;        // true when player is boosting
   thickness?: number;        // body thickness (14 default, can grow thicker after max length)
+  effects?: ActiveEffects;   // running power-ups, if any
 };
 
+// Coarse info about players outside the recipient's view (for the leaderboard)
+export type PlayerSummary = Pick<PlayerView, "id" | "name" | "score" | "alive">;
+
 export type Food = Vec;
 
+export type BonusFoodType = "bug" | "jira" | "zillow";
+
+// Bonus food adds `value` to the score; power-ups are worth 0 and start their effect
 export type FoodItem = {
   x: number;
   y: number;
-  type: "bug" | "jira" | "zillow";
+  type: BonusFoodType | PowerUpType;
   value: number;
 };
 
+export type TournamentTimerInfo = {
+  state: string;
+  remaining: number;         // seconds
+  duration: number;          // seconds
+};
+
+export type TournamentWinnerInfo = { name: string; score: number };
+
 export type Snapshot = {
-  t: number;                 // server tick or ms timestamp
+  t: number;                 // server simulation time in ms (exactly one tick interval per tick)
+  tick?: number;             // simulation tick the snapshot was taken after
+  seq?: number;              // broadcast sequence number, used as a delta baseline
   world: WorldView;
-  players: PlayerView[];
+  players: PlayerView[];     // players in view (everyone for spectators)
+  offscreen?: PlayerSummary[]; // players culled from this recipient's view
   foods: Food[];
   bonusFood?: FoodItem[];    // asset-based food items (optional)
   dead?: string[];           // ids that died in this frame (optional)
+  tournamentTimer?: TournamentTimerInfo;   // tournament rooms while a round is active (see TournamentMsg for "events" clients)
+  tournamentWinner?: TournamentWinnerInfo; // tournament rooms once a round is finished (likewise)
+  inputSeq?: number;         // recipient's last turn/boost seq the server applied ("predict" only)
+  inputTicks?: number;       // ticks the server simulated since applying inputSeq
+};
+
+// Changes to one player relative to a delta baseline
+export type PlayerDelta = {
+  id: string;
+  head: PlayerHead;
+  bodyPrepend?: Vec[];       // new points added at the front of the body (newest first)
+  bodyLength?: number;       // body length after prepending and trimming the tail
+  body?: Vec[];              // full body, when it could not be diffed (e.g. after respawn)
+  score?: number;            // present when changed
+  alive?: boolean;           // present when changed
+  boosting?: boolean;        // present when changed
+  thickness?: number | null; // present when changed, null = back to default
+  effects?: ActiveEffects | null; // present when changed, null = none left
 };
 
+// Snapshot expressed as changes against a baseline the client acknowledged
+export type SnapshotDelta = {
+  seq: number;
+  baseSeq: number;
+  t: number;
+  tick?: number;
+  world: WorldView;
+  players: PlayerDelta[];           // players present in the baseline that changed
+  addedPlayers: PlayerView[];
+  removedPlayers: string[];
+  removedFoods: number[];           // indices into the baseline's foods
+  addedFoods: Food[];
+  removedBonusFood: number[];       // indices into the baseline's bonusFood
+  addedBonusFood: FoodItem[];
+  offscreen?: PlayerSummary[];
+  dead?: string[];
+  tournamentTimer?: TournamentTimerInfo;
+  tournamentWinner?: TournamentWinnerInfo;
+  inputSeq?: number;
+  inputTicks?: number;
+};
+
+// Wire encoding for state messages: "binary" is the compact format from ./codec,
+// "json" is the fallback. Binary is used when both sides have the "binary" capability.
+export type WireEncoding = "json" | "binary";
+
+// Optional protocol features, negotiated in hello/welcome (see ./version)
+//   binary - state/delta messages in the binary format
+//   delta  - delta messages against acked baselines (client sends acks)
+//   aoi    - snapshots culled to the player's view, with offscreen summaries
+//   predict - turn/boost carry seq numbers, snapshots echo the last one applied
+//   ping   - server answers ping messages (latency and clock offset measurement)
+//   steer  - server accepts steer messages (analog steering toward a heading)
+//   rooms  - joinRoom/leaveRoom move the connection between rooms; a hello
+//            without roomId joins none (the lobby), and a deleted room
+//            doesn't close the socket
+export type Capability = "binary" | "delta" | "aoi" | "predict" | "ping" | "steer" | "rooms" | "events";
+
 // --- Client → Server ---
-export type ClientHello = { type: "hello"; name: string; color: string; avatar?: string };
-export type TurnMsg     = { type: "turn"; dir: -1 | 0 | 1 };  // -1 left, 0 none, 1 right
-export type BoostMsg    = { type: "boost"; boosting: boolean }; // boost on/off
+// Every message below is checked against its schema in ./validate before the server acts on it
+export type PlayerMode = "playing" | "spectating";
+
+export type ClientHello = {
+  type: "hello";
+  name: string;
+  color: string;
+  avatar?: string;
+  roomId?: string;            // defaults to "chill" (no room with the rooms capability)
+  mode?: PlayerMode;          // defaults to "playing"
+  adminToken?: string;
+  resumeToken?: string;       // from an earlier Welcome, to reclaim a worm after a dropped socket
+  protocol?: number;          // PROTOCOL_VERSION of the client (absent on legacy clients)
+  capabilities?: Capability[];
+};
+// seq numbers inputs for reconciliation (increasing per connection, "predict" only)
+export type TurnMsg     = { type: "turn"; dir: -1 | 0 | 1; seq?: number };  // -1 left, 0 none, 1 right
+export type BoostMsg    = { type: "boost"; boosting: boolean; seq?: number }; // boost on/off
+export type SteerMsg    = { type: "steer"; angle: number; seq?: number };  // heading in radians; a turn message cancels it
 export type RespawnMsg  = { type: "respawn" };
+export type AckMsg      = { type: "ack"; seq: number };     // last snapshot seq reconstructed
+export type ViewMsg     = { type: "view"; width: number; height: number }; // visible world extent
+export type PingMsg     = { type: "ping"; id: number; clientTime: number }; // clientTime: performance.now()
+// Move to another room on the same connection ("rooms"); answered with a Welcome for the new room
+export type JoinRoomMsg  = { type: "joinRoom"; roomId: string; mode?: PlayerMode }; // mode defaults to "playing"
+export type LeaveRoomMsg = { type: "leaveRoom" }; // back to the lobby; answered with roomLeft
+
+export type RoomType = "tournament" | "casual";
+
+export type AdminStartTournamentMsg = { type: "admin:startTournament"; roomIds?: string[] };
+export type AdminEndRoundMsg        = { type: "admin:endRound"; roomId: string };
+export type AdminResetTournamentMsg = { type: "admin:resetTournament" };
+export type AdminGetRoomStatusMsg   = { type: "admin:getRoomStatus" };
+export type AdminCreateRoomMsg = {
+  type: "admin:createRoom";
+  id: string;                 // lowercase letters, digits and dashes
+  name: string;
+  roomType: RoomType;
+  width: number;              // world size
+  height: number;
+  maxPlayers: number;
+  description?: string;
+};
+export type AdminDeleteRoomMsg = {
+  type: "admin:deleteRoom";
+  roomId: string;
+  moveTo?: string;            // room to send occupants to; without it they go back to the lobby
+};
+export type AdminReloadRoomsMsg = { type: "admin:reloadRooms" }; // re-read the server's rooms file
+export type AdminMsg =
+  | AdminStartTournamentMsg
+  | AdminEndRoundMsg
+  | AdminResetTournamentMsg
+  | AdminGetRoomStatusMsg
+  | AdminCreateRoomMsg
+  | AdminDeleteRoomMsg
+  | AdminReloadRoomsMsg;
+
+export type AnyClientMsg =
+  | ClientHello | TurnMsg | BoostMsg | SteerMsg | RespawnMsg | AckMsg | ViewMsg | PingMsg | JoinRoomMsg | LeaveRoomMsg | AdminMsg;
 
 // --- Server → Client ---
-export type Welcome  = { type: "welcome"; selfId: string; world: WorldView };
-export type StateMsg = { type: "state"; snapshot: Snapshot }; // canonical
+export type Welcome  = {
+  type: "welcome";
+  selfId: string;
+  roomId?: string;              // the room this Welcome is for; absent outside any room ("rooms")
+  world?: WorldView;            // the room's world; absent outside any room
+  protocol?: number;            // server PROTOCOL_VERSION
+  capabilities?: Capability[];  // capabilities enabled for this connection
+  resumeToken?: string;         // send in the next hello to reclaim this worm after a disconnect
+  resumed?: boolean;            // true if the hello's resumeToken reclaimed a held worm
+};
+export type StateMsg = { type: "state"; snapshot: Snapshot }; // canonical (also used for keyframes)
+export type PongMsg  = { type: "pong"; id: number; clientTime: number; serverTime: number }; // serverTime: Date.now()
+export type DeltaMsg = { type: "delta"; delta: SnapshotDelta };
+// Sent before CLOSE_ROOM_CLOSED, or on its own to "rooms" clients, which then join moveTo themselves
+export type RoomClosedMsg = { type: "roomClosed"; roomId: string; message: string; moveTo?: string };
+export type RoomLeftMsg = { type: "roomLeft"; roomId: string }; // answers leaveRoom
+export type ServerShutdownMsg = { type: "shutdown"; message: string }; // sent before CLOSE_SERVER_RESTART
+// Waiting for a slot in a full room (spectating meanwhile); a Welcome with our selfId follows once we're in
+export type QueueMsg = { type: "queue"; roomId: string; position: number; length: number }; // position is 1-based
+
+// How a worm died: its head ran into another worm's body, into another head, or into its own body
+export type KillCause = "body" | "head" | "self";
+export type Kill = {
+  victimId: string;
+  victimName: string;
+  killerId?: string;          // absent for self-collisions
+  killerName?: string;
+  cause: KillCause;
+};
+
+// Sent to clients without "events" ahead of the snapshot that lists the victims as dead
+export type KillMsg = { type: "kill"; tick: number; kills: Kill[] };
+
+// Things that happened in the room during one tick, in the order they happened
+export type KillEvent      = Kill & { type: "kill" };
+export type BonusFoodEvent = { type: "bonusFood"; playerId: string; playerName: string; food: BonusFoodType; value: number; score: number };
+export type PowerUpEvent   = { type: "powerUp"; playerId: string; playerName: string; powerUp: PowerUpType; ticks: number };
+export type FoodBurstEvent = { type: "foodBurst"; playerId: string; pos: Vec; count: number }; // food dropped by a dead worm around pos
+export type BoostEvent     = { type: "boost"; playerId: string; boosting: boolean };          // started or stopped (also when out of score)
+export type GameEvent = KillEvent | BonusFoodEvent | PowerUpEvent | FoodBurstEvent | BoostEvent;
+// Sent to "events" clients for every tick with events, ahead of that tick's snapshot
+export type EventsMsg = { type: "events"; tick: number; events: GameEvent[] };
+
+// A tournament room's round, sent to "events" clients whenever it changes (the
+// timer every second); neither field means no round is running. Other clients
+// get the same as snapshot fields.
+export type TournamentMsg = { type: "tournament"; timer?: TournamentTimerInfo; winner?: TournamentWinnerInfo };
+
+// A room as listed in the lobby
+export type RoomInfo = {
+  id: string;
+  name: string;
+  description?: string;
+  type: RoomType;
+  state: string;
+  playerCount: number;
+  spectatorCount: number;
+  maxPlayers: number;
+  locked: boolean;
+  queued?: number;            // players waiting for a slot
+  url?: string;               // game server hosting the room, if not the one that sent the list (sharding)
+};
+export type RoomStatusMsg = { type: "roomStatus"; rooms: RoomInfo[] };
+
+export type ErrorCode =
+  | "outdated_client"         // client protocol older than the server supports
+  | "unsupported_protocol"    // client protocol newer than the server
+  | "invalid_message"         // message failed schema validation
+  | "unauthorized"            // admin command without admin privileges
+  | "invalid_room"            // admin command or joinRoom for a missing or wrong-type room
+  | "room_exists"             // admin:createRoom with an id already in use
+  | "invalid_config"          // admin:reloadRooms found a missing or invalid rooms file
+  | "room_full";              // room and its join queue are full (sent before CLOSE_ROOM_FULL)
+export type ErrorMsg = { type: "error"; message: string; code?: ErrorCode };
+// Answers an admin hello (adminGranted) or a successful admin command (adminSuccess)
+export type AdminReplyMsg = { type: "adminGranted" | "adminSuccess"; message: string };
 
-export type AnyServerMsg = Welcome | StateMsg;
+export type AnyServerMsg =
+  | Welcome | StateMsg | DeltaMsg | PongMsg | RoomClosedMsg | RoomLeftMsg | ServerShutdownMsg | QueueMsg
+  | KillMsg | EventsMsg | TournamentMsg | RoomStatusMsg | AdminReplyMsg | ErrorMsg;
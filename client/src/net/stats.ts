@@ -0,0 +1,74 @@
+// client/src/net/stats.ts
+// Connection quality numbers for the net-stats panel.
+//
+// RTT and jitter come from ping/pong round trips; jitter is the smoothed change
+// between consecutive RTTs (as in RFC 3550). The server clock offset is taken
+// from the recent round trip with the lowest RTT, where assuming the pong was
+// stamped halfway through is least wrong.
+
+import type { PongMsg } from "./protocol";
+
+const RTT_WINDOW = 10;        // recent round trips kept
+const JITTER_GAIN = 1 / 16;
+const RATE_WINDOW_MS = 1000;  // snapshot rate and size are averaged over this
+
+export type NetStatsSummary = {
+  rtt: number | null;         // ms, latest round trip
+  jitter: number | null;      // ms
+  clockOffset: number | null; // ms to add to Date.now() to get the server's clock
+  snapshotsPerSecond: number;
+  snapshotBytes: number;      // average size of recent state/delta messages
+};
+
+type RoundTrip = { rtt: number; offset: number };
+
+export class NetStats {
+  private roundTrips: RoundTrip[] = [];
+  private jitter: number | null = null;
+  private arrivals: { at: number; bytes: number }[] = [];
+
+  // `now` arguments are performance.now(); timeOrigin maps them to wall-clock time
+  constructor(private readonly timeOrigin = performance.timeOrigin) {}
+
+  /** Record a pong received at `now` */
+  pong(msg: PongMsg, now: number) {
+    const rtt = now - msg.clientTime;
+    if (rtt < 0) return;
+
+    const last = this.roundTrips[this.roundTrips.length - 1];
+    if (last) {
+      const change = Math.abs(rtt - last.rtt);
+      this.jitter = this.jitter === null ? change : this.jitter + (change - this.jitter) * JITTER_GAIN;
+    }
+
+    // Our wall clock halfway through the round trip vs the server's stamp
+    const offset = msg.serverTime - (this.timeOrigin + msg.clientTime + rtt / 2);
+    this.roundTrips.push({ rtt, offset });
+    if (this.roundTrips.length > RTT_WINDOW) this.roundTrips.shift();
+  }
+
+  /** Record a state or delta message of `bytes` received at `now` */
+  snapshot(bytes: number, now: number) {
+    this.arrivals.push({ at: now, bytes });
+    this.prune(now);
+  }
+
+  summary(now: number): NetStatsSummary {
+    this.prune(now);
+    const last = this.roundTrips[this.roundTrips.length - 1];
+    const best = this.roundTrips.reduce<RoundTrip | null>((b, r) => (!b || r.rtt < b.rtt ? r : b), null);
+    const totalBytes = this.arrivals.reduce((sum, a) => sum + a.bytes, 0);
+
+    return {
+      rtt: last ? last.rtt : null,
+      jitter: this.jitter,
+      clockOffset: best ? best.offset : null,
+      snapshotsPerSecond: this.arrivals.length * (1000 / RATE_WINDOW_MS),
+      snapshotBytes: this.arrivals.length > 0 ? totalBytes / this.arrivals.length : 0,
+    };
+  }
+
+  private prune(now: number) {
+    while (this.arrivals.length > 0 && this.arrivals[0].at <= now - RATE_WINDOW_MS) this.arrivals.shift();
+  }
+}
@@ -0,0 +1,165 @@
+// client/src/net/validate.ts
+// Schemas for client → server messages (shared by server and client).
+//
+// The server runs every inbound message through validateClientMessage before
+// acting on it. Only fields named in a schema are copied to the result, and an
+// optional field that is null counts as absent.
+
+import type { AnyClientMsg, AdminMsg } from "./protocol";
+
+export const MAX_NAME_LENGTH = 32;
+const MAX_ID_LENGTH = 64;
+const MAX_URL_LENGTH = 256;
+const MAX_LIST_LENGTH = 16;
+const MAX_SEQ = 0xffffffff; // sent as u32 in binary snapshots
+export const MIN_WORLD_SIZE = 400;
+export const MAX_WORLD_SIZE = 10000; // coordinates are quantized to 16 bits, so keep precision sane
+export const MAX_ROOM_PLAYERS = 100;
+export const ROOM_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+type FieldSpec =
+  | { kind: "string"; maxLength: number; pattern?: RegExp; optional?: boolean }
+  | { kind: "number"; min: number; max: number; integer?: boolean; optional?: boolean }
+  | { kind: "boolean"; optional?: boolean }
+  | { kind: "enum"; values: readonly (string | number)[]; optional?: boolean }
+  | { kind: "stringList"; maxItems: number; maxLength: number; optional?: boolean };
+
+type Schema = Record<string, FieldSpec>;
+
+const SCHEMAS: Record<AnyClientMsg["type"], Schema> = {
+  hello: {
+    name: { kind: "string", maxLength: MAX_NAME_LENGTH },
+    color: { kind: "string", maxLength: 32 },
+    avatar: { kind: "string", maxLength: MAX_URL_LENGTH, optional: true },
+    roomId: { kind: "string", maxLength: MAX_ID_LENGTH, optional: true },
+    mode: { kind: "enum", values: ["playing", "spectating"], optional: true },
+    adminToken: { kind: "string", maxLength: 256, optional: true },
+    resumeToken: { kind: "string", maxLength: MAX_ID_LENGTH, optional: true },
+    protocol: { kind: "number", min: 0, max: 0xffff, integer: true, optional: true },
+    // Unknown capability names are allowed here and dropped by the handshake
+    capabilities: { kind: "stringList", maxItems: MAX_LIST_LENGTH, maxLength: 32, optional: true },
+  },
+  turn: {
+    dir: { kind: "enum", values: [-1, 0, 1] },
+    seq: { kind: "number", min: 1, max: MAX_SEQ, integer: true, optional: true },
+  },
+  boost: {
+    boosting: { kind: "boolean" },
+    seq: { kind: "number", min: 1, max: MAX_SEQ, integer: true, optional: true },
+  },
+  steer: {
+    angle: { kind: "number", min: -Math.PI, max: Math.PI },
+    seq: { kind: "number", min: 1, max: MAX_SEQ, integer: true, optional: true },
+  },
+  respawn: {},
+  ack: {
+    seq: { kind: "number", min: 0, max: Number.MAX_SAFE_INTEGER, integer: true },
+  },
+  view: {
+    width: { kind: "number", min: 0, max: 100000 },
+    height: { kind: "number", min: 0, max: 100000 },
+  },
+  ping: {
+    id: { kind: "number", min: 0, max: MAX_SEQ, integer: true },
+    clientTime: { kind: "number", min: 0, max: Number.MAX_SAFE_INTEGER },
+  },
+  joinRoom: {
+    roomId: { kind: "string", maxLength: MAX_ID_LENGTH },
+    mode: { kind: "enum", values: ["playing", "spectating"], optional: true },
+  },
+  leaveRoom: {},
+  "admin:startTournament": {
+    roomIds: { kind: "stringList", maxItems: MAX_LIST_LENGTH, maxLength: MAX_ID_LENGTH, optional: true },
+  },
+  "admin:endRound": {
+    roomId: { kind: "string", maxLength: MAX_ID_LENGTH },
+  },
+  "admin:resetTournament": {},
+  "admin:getRoomStatus": {},
+  "admin:createRoom": {
+    id: { kind: "string", maxLength: MAX_ID_LENGTH, pattern: ROOM_ID_PATTERN },
+    name: { kind: "string", maxLength: MAX_NAME_LENGTH },
+    roomType: { kind: "enum", values: ["tournament", "casual"] },
+    width: { kind: "number", min: MIN_WORLD_SIZE, max: MAX_WORLD_SIZE, integer: true },
+    height: { kind: "number", min: MIN_WORLD_SIZE, max: MAX_WORLD_SIZE, integer: true },
+    maxPlayers: { kind: "number", min: 1, max: MAX_ROOM_PLAYERS, integer: true },
+    description: { kind: "string", maxLength: 120, optional: true },
+  },
+  "admin:deleteRoom": {
+    roomId: { kind: "string", maxLength: MAX_ID_LENGTH },
+    moveTo: { kind: "string", maxLength: MAX_ID_LENGTH, optional: true },
+  },
+  "admin:reloadRooms": {},
+};
+
+export type Validated =
+  | { ok: true; msg: AnyClientMsg }
+  | { ok: false; error: string };
+
+/** Check a parsed message against its schema and return a clean copy */
+export function validateClientMessage(raw: unknown): Validated {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { ok: false, error: "message must be an object" };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const type = input.type;
+  if (typeof type !== "string" || !Object.prototype.hasOwnProperty.call(SCHEMAS, type)) {
+    return { ok: false, error: `unknown message type ${JSON.stringify(type)?.slice(0, 40)}` };
+  }
+
+  const schema = SCHEMAS[type as AnyClientMsg["type"]];
+  const out: Record<string, unknown> = { type };
+
+  for (const [field, spec] of Object.entries(schema)) {
+    const value = input[field];
+    if (value === undefined || value === null) {
+      if (spec.optional) continue;
+      return { ok: false, error: `${type}.${field} is required` };
+    }
+
+    const problem = checkField(value, spec);
+    if (problem) return { ok: false, error: `${type}.${field} ${problem}` };
+    out[field] = value;
+  }
+
+  return { ok: true, msg: out as AnyClientMsg };
+}
+
+export function isAdminMsg(msg: AnyClientMsg): msg is AdminMsg {
+  return msg.type.startsWith("admin:");
+}
+
+function checkField(value: unknown, spec: FieldSpec): string | null {
+  switch (spec.kind) {
+    case "string":
+      if (typeof value !== "string") return "must be a string";
+      if (value.length > spec.maxLength) return `must be at most ${spec.maxLength} characters`;
+      if (spec.pattern && !spec.pattern.test(value)) return `must match ${spec.pattern}`;
+      return null;
+
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return "must be a finite number";
+      if (spec.integer && !Number.isInteger(value)) return "must be an integer";
+      if (value < spec.min || value > spec.max) return `must be between ${spec.min} and ${spec.max}`;
+      return null;
+
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be a boolean";
+
+    case "enum":
+      return spec.values.includes(value as string | number)
+        ? null
+        : `must be one of ${spec.values.join(", ")}`;
+
+    case "stringList":
+      if (!Array.isArray(value)) return "must be an array";
+      if (value.length > spec.maxItems) return `must have at most ${spec.maxItems} items`;
+      for (const item of value) {
+        if (typeof item !== "string" || item.length > spec.maxLength) {
+          return `must contain strings of at most ${spec.maxLength} characters`;
+        }
+      }
+      return null;
+  }
+}
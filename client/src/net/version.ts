@@ -0,0 +1,34 @@
+// client/src/net/version.ts
+// Protocol version, capabilities and close codes (shared by server and client).
+//
+// Bump PROTOCOL_VERSION on any change an older client would misread, and raise
+// MIN_CLIENT_PROTOCOL when the server stops serving older clients.
+//
+//   1 - original unversioned protocol (JSON snapshots only)
+//   2 - version/capability handshake, binary, delta and area-of-interest support
+//   3 - binary codec 4: power-ups on players and food, wider player delta flags
+
+import type { Capability } from "./protocol";
+
+export const PROTOCOL_VERSION = 3;
+
+// Clients that don't send a version speak the original protocol
+export const LEGACY_PROTOCOL = 1;
+
+// Oldest client protocol the server still accepts (legacy clients get plain JSON)
+export const MIN_CLIENT_PROTOCOL = 1;
+
+// Oldest client protocol that reads our binary codec; older versioned clients
+// asking for binary are asked to refresh rather than misread every frame
+export const MIN_BINARY_PROTOCOL = 3;
+
+export const CAPABILITIES: Capability[] = ["binary", "delta", "aoi", "predict", "ping", "steer", "rooms", "events"];
+
+// WebSocket close codes; clients don't reconnect after these
+export const CLOSE_UNSUPPORTED_PROTOCOL = 4000; // see the error message sent before closing
+export const CLOSE_SESSION_TAKEN_OVER = 4001;   // another connection resumed this worm
+export const CLOSE_ROOM_CLOSED = 4002;          // the room was deleted (see the roomClosed message)
+export const CLOSE_ROOM_FULL = 4003;            // the room and its join queue are full
+
+// Standard "service restart" close; clients reconnect and resume once the server is back
+export const CLOSE_SERVER_RESTART = 1012;
@@ -0,0 +1,59 @@
+// client/src/ui/KillFeed.tsx
+import { KILL_FEED_MS, type FeedKill } from "../hooks/useGame";
+import type { Kill } from "../net/protocol";
+
+/** One line of the feed, e.g. "Ann ⚔️ Bob" */
+function describe(kill: Kill): string {
+  switch (kill.cause) {
+    case "self": return `${kill.victimName} ran into themselves`;
+    case "head": return `${kill.killerName ?? "?"} 💥 ${kill.victimName} (head-on)`;
+    default: return `${kill.killerName ?? "?"} ⚔️ ${kill.victimName}`;
+  }
+}
+
+// Recent kills in the room, bottom right; each fades out after KILL_FEED_MS
+export default function KillFeed({ kills, selfId, now }: {
+  kills: FeedKill[];
+  selfId: string | null;
+  now: number;          // performance.now() at render
+}) {
+  const shown = kills.filter(k => now - k.at < KILL_FEED_MS);
+  if (shown.length === 0) return null;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        right: 12,
+        bottom: 12,
+        display: "flex",
+        flexDirection: "column",
+        gap: 4,
+        alignItems: "flex-end",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: 13,
+        pointerEvents: "none",
+        zIndex: 100,
+      }}
+    >
+      {shown.map((k, i) => {
+        const involved = k.victimId === selfId || k.killerId === selfId;
+        return (
+          <div
+            key={`${k.at}-${k.victimId}-${i}`}
+            style={{
+              padding: "4px 10px",
+              background: "rgba(0, 0, 0, 0.6)",
+              border: involved ? "1px solid #22cc88" : "1px solid transparent",
+              borderRadius: 6,
+              color: "white",
+              opacity: Math.min(1, (KILL_FEED_MS - (now - k.at)) / 1000),
+            }}
+          >
+            {describe(k)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
-import type { PlayerView } from "../net/protocol";
+import type { PlayerSummary } from "../net/protocol";
 
-export default function Leaderboard({ players }: { players: PlayerView[] }) {
+export default function Leaderboard({ players }: { players: PlayerSummary[] }) {
   const top = [...players]
     .filter((p) => p.alive)
     .sort((a, b) => b.score - a.score)
@@ -0,0 +1,66 @@
+// client/src/ui/NetStatsPanel.tsx
+import type { NetStatsSummary } from "../net/stats";
+
+type Props = {
+  stats: NetStatsSummary | null;
+  renderDelay: number; // ms remote worms are drawn behind the newest snapshot
+};
+
+const ms = (v: number | null) => (v === null ? "–" : `${Math.round(v)} ms`);
+
+function formatBytes(bytes: number) {
+  return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${Math.round(bytes)} B`;
+}
+
+// Colour the RTT so lag complaints are easy to confirm at a glance
+function rttColor(rtt: number | null) {
+  if (rtt === null) return "white";
+  if (rtt < 80) return "#51cf66";
+  if (rtt < 200) return "#ffa500";
+  return "#ff6b6b";
+}
+
+export default function NetStatsPanel({ stats, renderDelay }: Props) {
+  const rows: [string, string, string?][] = stats
+    ? [
+        ["Ping", ms(stats.rtt), rttColor(stats.rtt)],
+        ["Jitter", ms(stats.jitter)],
+        ["Clock offset", ms(stats.clockOffset)],
+        ["Snapshots", `${stats.snapshotsPerSecond}/s`],
+        ["Snapshot size", formatBytes(stats.snapshotBytes)],
+        ["Bandwidth", `${formatBytes(stats.snapshotBytes * stats.snapshotsPerSecond)}/s`],
+        ["Render delay", ms(renderDelay)],
+      ]
+    : [];
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        left: 12,
+        bottom: 12,
+        background: "rgba(0,0,0,0.6)",
+        color: "white",
+        borderRadius: 8,
+        padding: "10px 14px",
+        fontFamily: "ui-monospace, monospace",
+        fontSize: 12,
+        minWidth: 200,
+        zIndex: 100,
+      }}
+    >
+      <div style={{ fontWeight: 700, marginBottom: 6 }}>Network</div>
+      {stats ? (
+        rows.map(([label, value, color]) => (
+          <div key={label} style={{ display: "flex", justifyContent: "space-between", gap: 16 }}>
+            <span style={{ opacity: 0.7 }}>{label}</span>
+            <span style={{ color: color ?? "white" }}>{value}</span>
+          </div>
+        ))
+      ) : (
+        <div style={{ opacity: 0.7 }}>Not connected</div>
+      )}
+      <div style={{ opacity: 0.5, marginTop: 6 }}>Press N to hide</div>
+    </div>
+  );
+}
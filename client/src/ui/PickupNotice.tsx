@@ -0,0 +1,41 @@
+// client/src/ui/PickupNotice.tsx
+import type { BonusFoodEvent, PowerUpEvent } from "../net/protocol";
+import { POWER_UP_LOOK } from "./powerUps";
+
+// Something our worm just picked up, stamped with when it arrived (performance.now())
+export type Pickup = (BonusFoodEvent | PowerUpEvent) & { at: number };
+
+export const PICKUP_NOTICE_MS = 1500;
+
+// A short notice above the worm, e.g. "+10 jira" or "⚡ Speed!"; fades out after PICKUP_NOTICE_MS
+export default function PickupNotice({ pickup, now }: {
+  pickup: Pickup | null;
+  now: number;          // performance.now() at render
+}) {
+  if (!pickup || now - pickup.at >= PICKUP_NOTICE_MS) return null;
+
+  const look = pickup.type === "powerUp" ? POWER_UP_LOOK[pickup.powerUp] : undefined;
+  return (
+    <div
+      style={{
+        position: "fixed",
+        left: "50%",
+        top: "30%",
+        transform: "translateX(-50%)",
+        padding: "6px 14px",
+        background: "rgba(0, 0, 0, 0.5)",
+        border: `1px solid ${look?.color ?? "#F7C96E"}`,
+        borderRadius: 8,
+        color: "white",
+        fontFamily: "ui-sans-serif, system-ui, Apple Color Emoji",
+        fontSize: 18,
+        fontWeight: 700,
+        pointerEvents: "none",
+        zIndex: 100,
+        opacity: Math.min(1, (PICKUP_NOTICE_MS - (now - pickup.at)) / 500),
+      }}
+    >
+      {pickup.type === "powerUp" ? `${look!.icon} ${look!.label}!` : `+${pickup.value} ${pickup.food}`}
+    </div>
+  );
+}
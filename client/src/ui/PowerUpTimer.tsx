@@ -0,0 +1,52 @@
+// client/src/ui/PowerUpTimer.tsx
+import type { ActiveEffects, PowerUpType } from "../net/protocol";
+import { TICK_MS } from "../engine/prediction";
+import { POWER_UP_LOOK } from "./powerUps";
+
+// Your running power-ups and the seconds left on each, under the score
+export default function PowerUpTimer({ effects }: { effects: ActiveEffects | undefined }) {
+  const running = (Object.keys(POWER_UP_LOOK) as PowerUpType[]).filter(type => effects?.[type]);
+  if (running.length === 0) return null;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        left: 12,
+        top: 90,
+        display: "flex",
+        flexDirection: "column",
+        gap: 4,
+        fontFamily: "ui-sans-serif, system-ui, Apple Color Emoji",
+        fontSize: 13,
+        pointerEvents: "none",
+        zIndex: 100,
+      }}
+    >
+      {running.map(type => {
+        const look = POWER_UP_LOOK[type];
+        const seconds = Math.ceil((effects![type]! * TICK_MS) / 1000);
+        return (
+          <div
+            key={type}
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              width: 160,
+              boxSizing: "border-box",
+              padding: "4px 10px",
+              background: "rgba(0, 0, 0, 0.5)",
+              border: `1px solid ${look.color}`,
+              borderRadius: 6,
+              color: "white",
+              opacity: seconds <= 2 ? 0.6 : 1, // about to run out
+            }}
+          >
+            <span>{look.icon} {look.label}</span>
+            <span style={{ fontWeight: 600 }}>{seconds}s</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+// client/src/ui/QueueBanner.tsx
+
+// Shown while waiting for a slot in a full room; the room plays on behind it
+export default function QueueBanner({ position, length }: { position: number; length: number }) {
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 80,
+        left: "50%",
+        transform: "translateX(-50%)",
+        padding: "10px 18px",
+        background: "rgba(0, 0, 0, 0.85)",
+        border: "2px solid #22cc88",
+        borderRadius: 8,
+        color: "white",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: 14,
+        textAlign: "center",
+        zIndex: 1100,
+      }}
+    >
+      <div style={{ fontWeight: 600 }}>🚦 Room full, you're #{position} of {length} in line</div>
+      <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>Watching until a spot opens, you'll join automatically</div>
+    </div>
+  );
+}
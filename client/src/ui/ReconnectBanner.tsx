@@ -0,0 +1,25 @@
+// client/src/ui/ReconnectBanner.tsx
+
+// `message` explains the drop, e.g. the server's restart notice
+export default function ReconnectBanner({ message }: { message?: string }) {
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 80,
+        left: "50%",
+        transform: "translateX(-50%)",
+        padding: "10px 18px",
+        background: "rgba(0, 0, 0, 0.85)",
+        border: "2px solid #ffa500",
+        borderRadius: 8,
+        color: "white",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: 14,
+        zIndex: 1100,
+      }}
+    >
+      {message ? `🔄 ${message}…` : "📡 Connection lost, reconnecting…"}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+// client/src/ui/RefreshBanner.tsx
+
+type Props = {
+  message: string;
+  rejected: boolean; // server refused the connection, the game can't continue
+};
+
+export default function RefreshBanner({ message, rejected }: Props) {
+  const color = rejected ? "#ff6b6b" : "#ffa500";
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: rejected ? "40%" : 80,
+        left: "50%",
+        transform: "translateX(-50%)",
+        padding: "12px 20px",
+        background: "rgba(0, 0, 0, 0.85)",
+        border: `2px solid ${color}`,
+        borderRadius: 8,
+        color: "white",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: 14,
+        zIndex: 1100,
+        display: "flex",
+        alignItems: "center",
+        gap: 16,
+        maxWidth: "90vw",
+      }}
+    >
+      <div>
+        <div style={{ fontWeight: 600, color, marginBottom: 4 }}>
+          {rejected ? "⚠️ Game client out of date" : "🔄 Update available"}
+        </div>
+        <div style={{ opacity: 0.8 }}>{message}</div>
+      </div>
+      <button
+        onClick={() => window.location.reload()}
+        style={{
+          padding: "8px 16px",
+          background: color,
+          color: "#001015",
+          border: "none",
+          borderRadius: 6,
+          fontWeight: 600,
+          cursor: "pointer",
+          fontSize: 14,
+          whiteSpace: "nowrap",
+        }}
+      >
+        Refresh
+      </button>
+    </div>
+  );
+}
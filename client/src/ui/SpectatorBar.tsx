@@ -0,0 +1,68 @@
+// client/src/ui/SpectatorBar.tsx
+import type { CameraMode } from "../engine/camera";
+
+const MODES: Array<{ mode: CameraMode; key: string; label: string }> = [
+  { mode: "map", key: "1", label: "🗺️ Map" },
+  { mode: "leader", key: "2", label: "👑 Leader" },
+  { mode: "follow", key: "3", label: "🎯 Follow" },
+  { mode: "free", key: "4", label: "🕹️ Free" },
+];
+
+const HINTS: Record<CameraMode, string> = {
+  map: "The whole room",
+  leader: "Following whoever is in the lead",
+  follow: "← → to switch worms",
+  free: "Drag or WASD to pan, scroll to zoom",
+};
+
+// Spectator camera mode picker
+export default function SpectatorBar({ mode, following, onMode }: {
+  mode: CameraMode;
+  following?: string;   // name of the worm the camera follows, if any
+  onMode: (mode: CameraMode) => void;
+}) {
+  const hint = mode === "leader" || mode === "follow"
+    ? `${following ? `Watching ${following}` : "Nobody to follow yet"} · ${HINTS[mode]}`
+    : HINTS[mode];
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        bottom: 76,
+        left: "50%",
+        transform: "translateX(-50%)",
+        padding: "8px 12px",
+        background: "rgba(0, 0, 0, 0.7)",
+        borderRadius: 8,
+        color: "white",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: 13,
+        textAlign: "center",
+        zIndex: 100,
+      }}
+    >
+      <div style={{ display: "flex", gap: 6, justifyContent: "center" }}>
+        {MODES.map(m => (
+          <button
+            key={m.mode}
+            onClick={() => onMode(m.mode)}
+            title={`Press ${m.key}`}
+            style={{
+              padding: "4px 10px",
+              background: m.mode === mode ? "rgba(34, 204, 136, 0.9)" : "rgba(255, 255, 255, 0.1)",
+              color: m.mode === mode ? "#001015" : "white",
+              border: "1px solid rgba(255, 255, 255, 0.3)",
+              borderRadius: 6,
+              fontWeight: 600,
+              cursor: "pointer",
+            }}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      <div style={{ marginTop: 6, opacity: 0.7, fontSize: 12 }}>{hint}</div>
+    </div>
+  );
+}
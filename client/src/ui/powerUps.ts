@@ -0,0 +1,10 @@
+// client/src/ui/powerUps.ts
+// How each power-up looks, on the map and in the HUD
+import type { PowerUpType } from "../net/protocol";
+
+export const POWER_UP_LOOK: Record<PowerUpType, { icon: string; label: string; color: string }> = {
+  shield: { icon: "🛡️", label: "Shield", color: "#4dabf7" },
+  magnet: { icon: "🧲", label: "Magnet", color: "#ff6b6b" },
+  speed: { icon: "⚡", label: "Speed", color: "#ffd43b" },
+  ghost: { icon: "👻", label: "Ghost", color: "#e5dbff" },
+};
@@ -0,0 +1,74 @@
+// server/src/directory-server.ts
+// The directory service for sharded deployments (see directory.ts), run as
+// its own process: `npm run directory`. Game servers find it via DIRECTORY_URL.
+//
+//   PUT    /shards/:id   register or refresh a shard; replies with all rooms
+//   DELETE /shards/:id   a shard shutting down
+//   GET    /rooms        every live shard's rooms
+//   GET    /shards       live shards
+
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { ShardDirectory, parseRegistration, parseShardId } from "./directory.js";
+
+const PORT = Number(process.env.DIRECTORY_PORT) || 8090;
+const MAX_BODY_BYTES = 256 * 1024;
+
+const directory = new ShardDirectory();
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url || "/", "http://directory");
+  const shardMatch = /^\/shards\/([^/]+)$/.exec(url.pathname);
+
+  if (req.method === "GET" && url.pathname === "/rooms") {
+    return sendJson(res, 200, { rooms: directory.rooms() });
+  }
+  if (req.method === "GET" && url.pathname === "/shards") {
+    return sendJson(res, 200, { shards: directory.list() });
+  }
+  if (!shardMatch) return sendJson(res, 404, { error: "not found" });
+
+  const id = parseShardId(shardMatch[1]);
+  if (!id.ok) return sendJson(res, 400, { error: id.error });
+  const { shardId } = id;
+
+  if (req.method === "DELETE") {
+    directory.unregister(shardId);
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (req.method !== "PUT") return sendJson(res, 405, { error: "method not allowed" });
+
+  readBody(req, (body) => {
+    if (body === null) return sendJson(res, 413, { error: `body over ${MAX_BODY_BYTES} bytes` });
+
+    let parsed: unknown;
+    try { parsed = JSON.parse(body); } catch { return sendJson(res, 400, { error: "malformed JSON" }); }
+
+    const checked = parseRegistration(parsed);
+    if (!checked.ok) return sendJson(res, 400, { error: checked.error });
+    sendJson(res, 200, directory.register(shardId, checked.registration));
+  });
+});
+
+// Collect a request body; null if it's too large
+function readBody(req: IncomingMessage, done: (body: string | null) => void) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let tooLarge = false;
+  req.on("data", (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) tooLarge = true;
+    else chunks.push(chunk);
+  });
+  req.on("end", () => done(tooLarge ? null : Buffer.concat(chunks).toString("utf-8")));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+server.listen(PORT, () => {
+  console.log(`[directory] Listening on :${PORT}`);
+});
@@ -0,0 +1,160 @@
+// server/src/directory.test.ts
+import { describe, it, expect } from 'vitest';
+import { ShardDirectory, DirectoryClient, parseRegistration, parseShardId, SHARD_TTL_MS } from './directory';
+import type { RoomInfo } from '../../client/src/net/protocol';
+
+const quiet = () => {};
+
+function room(id: string, playerCount = 0): RoomInfo {
+  return {
+    id, name: id, type: 'casual', state: 'freeplay',
+    playerCount, spectatorCount: 0, maxPlayers: 20, locked: false,
+  };
+}
+
+function setup() {
+  const clock = { now: 0 };
+  const directory = new ShardDirectory({ now: () => clock.now, log: quiet });
+  return { clock, directory };
+}
+
+// A fetch that hands requests to an in-process directory
+function fetchFrom(directory: ShardDirectory, calls: string[] = []): typeof fetch {
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    const shard = decodeURIComponent(url.split('/shards/')[1]);
+    calls.push(`${init?.method} ${url}`);
+    if (init?.method === 'DELETE') {
+      directory.unregister(shard);
+      return new Response(null, { status: 204 });
+    }
+    const checked = parseRegistration(JSON.parse(String(init?.body)));
+    if (!checked.ok) return new Response(checked.error, { status: 400 });
+    return Response.json(directory.register(shard, checked.registration));
+  }) as typeof fetch;
+}
+
+describe('Shard Directory', () => {
+  it('should list every shard\'s rooms with the url to reach them', () => {
+    const { directory } = setup();
+    directory.register('a', { url: 'ws://a:8080', rooms: [room('chill'), room('arena1')] });
+    const reply = directory.register('b', { url: 'ws://b:8081', rooms: [room('arena2', 3)] });
+
+    expect(reply.conflicts).toEqual([]);
+    expect(reply.rooms.map(r => [r.id, r.url, r.shard])).toEqual([
+      ['chill', 'ws://a:8080', 'a'],
+      ['arena1', 'ws://a:8080', 'a'],
+      ['arena2', 'ws://b:8081', 'b'],
+    ]);
+    expect(reply.rooms[2].playerCount).toBe(3);
+  });
+
+  it('should replace a shard\'s rooms when it registers again', () => {
+    const { directory } = setup();
+    directory.register('a', { url: 'ws://a:8080', rooms: [room('chill', 1)] });
+    directory.register('a', { url: 'ws://a:8080', rooms: [room('chill', 5), room('mini')] });
+
+    expect(directory.rooms().map(r => [r.id, r.playerCount])).toEqual([['chill', 5], ['mini', 0]]);
+  });
+
+  it('should keep a room with the shard that registered it first', () => {
+    const { directory } = setup();
+    directory.register('a', { url: 'ws://a:8080', rooms: [room('chill')] });
+    const reply = directory.register('b', { url: 'ws://b:8081', rooms: [room('chill'), room('arena2')] });
+
+    expect(reply.conflicts).toEqual(['chill']);
+    expect(directory.rooms().map(r => [r.id, r.shard])).toEqual([['chill', 'a'], ['arena2', 'b']]);
+    expect(directory.register('a', { url: 'ws://a:8080', rooms: [room('chill')] }).conflicts).toEqual([]);
+  });
+
+  it('should drop shards that stop registering', () => {
+    const { clock, directory } = setup();
+    directory.register('a', { url: 'ws://a:8080', rooms: [room('chill')] });
+    clock.now = 1000;
+    directory.register('b', { url: 'ws://b:8081', rooms: [room('arena1')] });
+
+    clock.now = SHARD_TTL_MS + 500;
+    expect(directory.list().map(s => s.id)).toEqual(['b']);
+    expect(directory.rooms().map(r => r.id)).toEqual(['arena1']);
+  });
+
+  it('should drop a shard that unregisters', () => {
+    const { directory } = setup();
+    directory.register('a', { url: 'ws://a:8080', rooms: [room('chill')] });
+
+    expect(directory.unregister('a')).toBe(true);
+    expect(directory.unregister('a')).toBe(false);
+    expect(directory.rooms()).toEqual([]);
+  });
+
+  it('should refuse malformed registrations', () => {
+    expect(parseRegistration(null).ok).toBe(false);
+    expect(parseRegistration({ url: 'http://a', rooms: [] }).ok).toBe(false);
+    expect(parseRegistration({ url: 'ws://a', rooms: {} }).ok).toBe(false);
+    expect(parseRegistration({ url: 'ws://a', rooms: [{ ...room('chill'), id: 'Bad Id' }] })).toEqual({
+      ok: false, error: 'rooms[0] is not a valid room',
+    });
+    expect(parseRegistration({ url: 'wss://a.example', rooms: [room('chill')] }).ok).toBe(true);
+  });
+
+  it('should refuse malformed shard ids without throwing', () => {
+    expect(parseShardId('eu-1')).toEqual({ ok: true, shardId: 'eu-1' });
+    expect(parseShardId('eu%2D1')).toEqual({ ok: true, shardId: 'eu-1' });
+    expect(parseShardId('%E0%A4%A')).toEqual({ ok: false, error: 'malformed shard id' });
+    expect(parseShardId('a%2Fb').ok).toBe(false);
+    expect(parseShardId('x'.repeat(65)).ok).toBe(false);
+  });
+});
+
+describe('Directory Client', () => {
+  it('should register its rooms and keep only the other shards\' rooms', async () => {
+    const { directory } = setup();
+    directory.register('b', { url: 'ws://b:8081', rooms: [room('arena2')] });
+    const client = new DirectoryClient({
+      directoryUrl: 'http://dir:8090/', shardId: 'a', publicUrl: 'ws://a:8080',
+      listRooms: () => [room('chill')], fetch: fetchFrom(directory), log: quiet,
+    });
+
+    await client.register();
+    expect(directory.rooms().map(r => r.id)).toEqual(['arena2', 'chill']);
+    expect(client.remoteRooms).toEqual([{ ...room('arena2'), url: 'ws://b:8081' }]);
+  });
+
+  it('should forget remote rooms while the directory is unreachable', async () => {
+    const { directory } = setup();
+    directory.register('b', { url: 'ws://b:8081', rooms: [room('arena2')] });
+    let up = true;
+    const working = fetchFrom(directory);
+    const lines: string[] = [];
+    const client = new DirectoryClient({
+      directoryUrl: 'http://dir:8090', shardId: 'a', publicUrl: 'ws://a:8080', listRooms: () => [],
+      fetch: ((input: string, init?: RequestInit) => up ? working(input, init) : Promise.reject(new Error('ECONNREFUSED'))) as typeof fetch,
+      log: line => lines.push(line),
+    });
+
+    await client.register();
+    up = false;
+    await client.register();
+    await client.register();
+    expect(client.remoteRooms).toEqual([]);
+    expect(lines.filter(line => line.includes("Can't reach"))).toHaveLength(1);
+
+    up = true;
+    await client.register();
+    expect(client.remoteRooms.map(r => r.id)).toEqual(['arena2']);
+  });
+
+  it('should unregister when stopped', async () => {
+    const { directory } = setup();
+    const calls: string[] = [];
+    const client = new DirectoryClient({
+      directoryUrl: 'http://dir:8090', shardId: 'shard 1', publicUrl: 'ws://a:8080',
+      listRooms: () => [room('chill')], fetch: fetchFrom(directory, calls), log: quiet,
+    });
+
+    await client.register();
+    await client.stop();
+    expect(calls).toEqual(['PUT http://dir:8090/shards/shard%201', 'DELETE http://dir:8090/shards/shard%201']);
+    expect(directory.rooms()).toEqual([]);
+  });
+});
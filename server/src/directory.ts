@@ -0,0 +1,233 @@
+// server/src/directory.ts
+// Room directory for running the game on several processes (shards), each
+// hosting some of the rooms.
+//
+// Every shard registers with the directory (directory-server.ts) every few
+// seconds, sending its public address and its rooms. The reply lists the rooms
+// of every live shard, so each shard's lobby shows all of them and clients are
+// sent to the process hosting the room they pick. Shards that stop registering
+// are dropped after SHARD_TTL_MS.
+
+import type { RoomInfo } from "../../client/src/net/protocol";
+import { ROOM_ID_PATTERN } from "../../client/src/net/validate.js";
+
+export const SHARD_HEARTBEAT_MS = 2000;
+export const SHARD_TTL_MS = 3 * SHARD_HEARTBEAT_MS; // a couple of missed heartbeats
+export const SHARD_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+// What a shard sends when it registers
+export type ShardRegistration = {
+  url: string;            // where clients reach the shard (ws:// or wss://)
+  rooms: RoomInfo[];
+};
+
+// A room in the directory, with the shard hosting it
+export type DirectoryRoom = RoomInfo & { url: string; shard: string };
+
+export type RegisterReply = {
+  rooms: DirectoryRoom[];
+  conflicts: string[];    // room ids this shard sent that another shard already hosts
+};
+
+type Shard = ShardRegistration & { id: string; seenAt: number };
+
+export type ShardDirectoryOptions = {
+  now?: () => number;
+  ttlMs?: number;
+  log?: (line: string) => void;
+};
+
+export class ShardDirectory {
+  // In first-registration order; when two shards list the same room id the earlier one keeps it
+  private shards = new Map<string, Shard>();
+  private readonly now: () => number;
+  private readonly ttlMs: number;
+  private readonly log: (line: string) => void;
+
+  constructor({ now = Date.now, ttlMs = SHARD_TTL_MS, log = console.log }: ShardDirectoryOptions = {}) {
+    this.now = now;
+    this.ttlMs = ttlMs;
+    this.log = log;
+  }
+
+  /** Register or refresh a shard; replies with every live shard's rooms */
+  register(id: string, registration: ShardRegistration): RegisterReply {
+    this.prune();
+    const known = this.shards.get(id);
+    this.shards.set(id, { id, ...registration, seenAt: this.now() });
+    if (!known || known.url !== registration.url) {
+      this.log(`[directory] ${id} registered at ${registration.url} with ${registration.rooms.length} rooms`);
+    }
+
+    const rooms = this.rooms();
+    const conflicts = registration.rooms
+      .filter(room => rooms.some(r => r.id === room.id && r.shard !== id))
+      .map(room => room.id);
+    return { rooms, conflicts };
+  }
+
+  /** Forget a shard that is shutting down */
+  unregister(id: string): boolean {
+    const removed = this.shards.delete(id);
+    if (removed) this.log(`[directory] ${id} unregistered`);
+    return removed;
+  }
+
+  /** Rooms of all live shards, each id listed once */
+  rooms(): DirectoryRoom[] {
+    this.prune();
+    const rooms = new Map<string, DirectoryRoom>();
+    for (const shard of this.shards.values()) {
+      for (const room of shard.rooms) {
+        if (!rooms.has(room.id)) rooms.set(room.id, { ...room, url: shard.url, shard: shard.id });
+      }
+    }
+    return Array.from(rooms.values());
+  }
+
+  /** Live shards, for the directory's status page */
+  list(): Array<{ id: string; url: string; rooms: string[]; lastSeenMs: number }> {
+    this.prune();
+    const now = this.now();
+    return Array.from(this.shards.values(), shard => ({
+      id: shard.id,
+      url: shard.url,
+      rooms: shard.rooms.map(r => r.id),
+      lastSeenMs: now - shard.seenAt,
+    }));
+  }
+
+  private prune() {
+    const cutoff = this.now() - this.ttlMs;
+    for (const shard of this.shards.values()) {
+      if (shard.seenAt >= cutoff) continue;
+      this.shards.delete(shard.id);
+      this.log(`[directory] ${shard.id} stopped registering, dropped its ${shard.rooms.length} rooms`);
+    }
+  }
+}
+
+/** Check a registration body from the network */
+export function parseRegistration(body: unknown): { ok: true; registration: ShardRegistration } | { ok: false; error: string } {
+  if (!isObject(body)) return { ok: false, error: "registration must be an object" };
+  if (typeof body.url !== "string" || !/^wss?:\/\/\S+$/.test(body.url)) {
+    return { ok: false, error: "url must be a ws:// or wss:// address" };
+  }
+  if (!Array.isArray(body.rooms)) return { ok: false, error: "rooms must be an array" };
+
+  for (let i = 0; i < body.rooms.length; i++) {
+    if (!isRoomInfo(body.rooms[i])) return { ok: false, error: `rooms[${i}] is not a valid room` };
+  }
+  return { ok: true, registration: { url: body.url, rooms: body.rooms } };
+}
+
+/** Check the :id segment of a /shards/:id path, still percent-encoded */
+export function parseShardId(segment: string): { ok: true; shardId: string } | { ok: false; error: string } {
+  let shardId: string;
+  try { shardId = decodeURIComponent(segment); } catch { return { ok: false, error: "malformed shard id" }; }
+  if (!SHARD_ID_PATTERN.test(shardId)) return { ok: false, error: `shard id must match ${SHARD_ID_PATTERN}` };
+  return { ok: true, shardId };
+}
+
+function isRoomInfo(x: unknown): x is RoomInfo {
+  return isObject(x) &&
+    typeof x.id === "string" && ROOM_ID_PATTERN.test(x.id) &&
+    typeof x.name === "string" &&
+    (x.description === undefined || typeof x.description === "string") &&
+    (x.type === "tournament" || x.type === "casual") &&
+    typeof x.state === "string" &&
+    typeof x.playerCount === "number" &&
+    typeof x.spectatorCount === "number" &&
+    typeof x.maxPlayers === "number" &&
+    typeof x.locked === "boolean";
+}
+
+function isObject(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
+
+export type DirectoryClientOptions = {
+  directoryUrl: string;     // http:// address of the directory service
+  shardId: string;
+  publicUrl: string;        // sent to the directory as where clients reach this shard
+  listRooms: () => RoomInfo[];
+  fetch?: typeof fetch;
+  log?: (line: string) => void;
+};
+
+/**
+ * A shard's side of the directory: registers this shard's rooms every
+ * heartbeat and keeps the rooms the other shards host.
+ */
+export class DirectoryClient {
+  /** Rooms hosted by other shards, with the url to reach them; empty while the directory is unreachable */
+  remoteRooms: RoomInfo[] = [];
+
+  private readonly options: Required<DirectoryClientOptions>;
+  private timer?: ReturnType<typeof setInterval>;
+  private inFlight = false;
+  private reachable: boolean | null = null; // null until the first attempt
+  private conflicts = "";
+
+  constructor(options: DirectoryClientOptions) {
+    this.options = { fetch: globalThis.fetch, log: console.log, ...options };
+  }
+
+  start() {
+    if (this.timer) return;
+    void this.register();
+    this.timer = setInterval(() => void this.register(), SHARD_HEARTBEAT_MS);
+  }
+
+  /** Stop heartbeats and tell the directory we're gone (best effort) */
+  async stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    try {
+      await this.options.fetch(this.shardUrl(), { method: "DELETE" });
+    } catch {
+      // the directory drops us after SHARD_TTL_MS anyway
+    }
+  }
+
+  /** Send one heartbeat; overlapping calls are skipped */
+  async register() {
+    if (this.inFlight) return;
+    this.inFlight = true;
+    const { shardId, publicUrl, listRooms, log } = this.options;
+    try {
+      const registration: ShardRegistration = { url: publicUrl, rooms: listRooms() };
+      const res = await this.options.fetch(this.shardUrl(), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(registration),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}: ${await res.text()}`);
+      const reply = await res.json() as RegisterReply;
+
+      this.remoteRooms = reply.rooms
+        .filter(room => room.shard !== shardId)
+        .map(({ shard: _shard, ...room }) => room);
+      if (this.reachable !== true) log(`[directory] Registered ${shardId} with ${this.options.directoryUrl}`);
+      this.reachable = true;
+
+      const conflicts = reply.conflicts.join(", ");
+      if (conflicts && conflicts !== this.conflicts) {
+        log(`[directory] Rooms hosted by another shard, not listed for ${shardId}: ${conflicts}`);
+      }
+      this.conflicts = conflicts;
+    } catch (err) {
+      this.remoteRooms = [];
+      if (this.reachable !== false) {
+        log(`[directory] Can't reach ${this.options.directoryUrl}, showing only local rooms: ${(err as Error).message}`);
+      }
+      this.reachable = false;
+    } finally {
+      this.inFlight = false;
+    }
+  }
+
+  private shardUrl() {
+    return `${this.options.directoryUrl.replace(/\/+$/, "")}/shards/${encodeURIComponent(this.options.shardId)}`;
+  }
+}
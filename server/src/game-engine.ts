@@ -3,32 +3,90 @@
 
 import type { Vec, WorldView } from '../../client/src/net/protocol';
 
+// Movement is shared with client-side prediction
+export {
+  wrap,
+  moveWorm,
+  angleDelta,
+  calculateBodyLength,
+  TURN_SPEED,
+  BASE_SPEED,
+  BOOST_MULTIPLIER,
+  SPEED_POWERUP_MULTIPLIER,
+  BOOST_COST_PER_TICK,
+} from '../../client/src/engine/movement.js';
+
 // Physics helpers
-export function wrap(v: number, max: number): number {
-  if (v < 0) return v + max;
-  if (v >= max) return v - max;
-  return v;
-}
 
 export function dist2(a: Vec, b: Vec): number {
   const dx = a.x - b.x, dy = a.y - b.y;
   return dx*dx + dy*dy;
 }
 
+// Offset from a to b the short way round the wrapping world
+export function wrapOffset(a: Vec, b: Vec, world: WorldView): Vec {
+  let dx = b.x - a.x, dy = b.y - a.y;
+  if (dx > world.width / 2) dx -= world.width;
+  else if (dx < -world.width / 2) dx += world.width;
+  if (dy > world.height / 2) dy -= world.height;
+  else if (dy < -world.height / 2) dy += world.height;
+  return { x: dx, y: dy };
+}
+
+// Squared distance from p to the segment a-b (flat plane)
+function pointSegmentDist2(p: Vec, a: Vec, b: Vec): number {
+  const abx = b.x - a.x, aby = b.y - a.y;
+  const len2 = abx*abx + aby*aby;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x)*abx + (p.y - a.y)*aby) / len2));
+  return dist2(p, { x: a.x + t*abx, y: a.y + t*aby });
+}
+
+// Which side of the line a-b the point p is on
+function side(a: Vec, b: Vec, p: Vec): number {
+  return Math.sign((b.x - a.x)*(p.y - a.y) - (b.y - a.y)*(p.x - a.x));
+}
+
+/**
+ * Squared distance between the path a head took this tick (from → to) and the
+ * body segment a → b, all on the wrapping world. Treating both as capsules, the
+ * head hit the segment if this is under the head radius squared, however far
+ * it moved in the tick.
+ */
+export function sweptDist2(from: Vec, to: Vec, a: Vec, b: Vec, world: WorldView): number {
+  // Lay everything out around `from` so nothing straddles the wrap
+  const p0 = { x: 0, y: 0 };
+  const p1 = wrapOffset(from, to, world);
+  const q0 = wrapOffset(from, a, world);
+  const ab = wrapOffset(a, b, world);
+  const q1 = { x: q0.x + ab.x, y: q0.y + ab.y };
+
+  const s1 = side(p0, p1, q0), s2 = side(p0, p1, q1);
+  const s3 = side(q0, q1, p0), s4 = side(q0, q1, p1);
+  if (s1 * s2 < 0 && s3 * s4 < 0) return 0; // the path crosses the segment
+
+  return Math.min(
+    pointSegmentDist2(p0, q0, q1),
+    pointSegmentDist2(p1, q0, q1),
+    pointSegmentDist2(q0, p0, p1),
+    pointSegmentDist2(q1, p0, p1),
+  );
+}
+
+/**
+ * Squared distance at the closest approach of two heads that both moved this
+ * tick (a0 → a1 and b0 → b1), assuming each moved at a steady speed.
+ */
+export function closestApproach2(a0: Vec, a1: Vec, b0: Vec, b1: Vec, world: WorldView): number {
+  // Watch b from a: it starts at rel0 and ends at rel1
+  const rel0 = wrapOffset(a0, b0, world);
+  const da = wrapOffset(a0, a1, world), db = wrapOffset(b0, b1, world);
+  const rel1 = { x: rel0.x + db.x - da.x, y: rel0.y + db.y - da.y };
+  return pointSegmentDist2({ x: 0, y: 0 }, rel0, rel1);
+}
+
 // Constants
 export const FOOD_R2 = 18*18;
 export const HEAD_R2 = 14*14;
-export const TURN_SPEED = 0.12;
-export const BASE_SPEED = 4.0;
-export const BOOST_MULTIPLIER = 1.8;
-export const BOOST_COST_PER_TICK = 0.5;
-
-// Body length calculation
-export function calculateBodyLength(score: number): number {
-  const targetLen = Math.max(15, Math.floor(score * 0.8));
-  const maxLen = 300;
-  return Math.min(targetLen, maxLen);
-}
 
 // Thickness calculation
 export function calculateThickness(score: number): number {
@@ -1,7 +1,16 @@
 // server/src/game-logic.test.ts
 import { describe, it, expect, beforeEach } from 'vitest';
 import type { Vec, WorldView } from '../../client/src/net/protocol';
-import { wrap, dist2, FOOD_R2, HEAD_R2, calculateBodyLength, calculateThickness, calculateFoodBurst } from './game-engine';
+import {
+  wrap, dist2, moveWorm, FOOD_R2, HEAD_R2, BASE_SPEED, calculateBodyLength, calculateThickness, calculateFoodBurst
+} from './game-engine';
+import type { MovingWorm } from '../../client/src/engine/movement';
+
+const world: WorldView = { width: 2000, height: 1200 };
+
+function worm(overrides: Partial<MovingWorm> = {}): MovingWorm {
+  return { pos: { x: 100, y: 100 }, angle: 0, speed: BASE_SPEED, score: 100, turn: 0, boosting: false, ...overrides };
+}
 
 describe('Game Physics', () => {
   describe('wrap function (toroidal world)', () => {
@@ -44,27 +53,18 @@ describe('Game Physics', () => {
 
 describe('Player Movement', () => {
   it('should move player in correct direction', () => {
-    const angle = 0; // facing right
-    const speed = 4.0;
-    const pos: Vec = { x: 100, y: 100 };
-    const world: WorldView = { width: 2000, height: 1200 };
+    const p = worm(); // facing right
+    moveWorm(p, world);
 
-    const newX = wrap(pos.x + Math.cos(angle) * speed, world.width);
-    const newY = wrap(pos.y + Math.sin(angle) * speed, world.height);
-
-    expect(newX).toBeCloseTo(104, 1);
-    expect(newY).toBeCloseTo(100, 1);
+    expect(p.pos.x).toBeCloseTo(104, 1);
+    expect(p.pos.y).toBeCloseTo(100, 1);
   });
 
   it('should wrap around world boundaries', () => {
-    const angle = 0; // facing right
-    const speed = 10;
-    const pos: Vec = { x: 1998, y: 100 }; // near right edge
-    const world: WorldView = { width: 2000, height: 1200 };
-
-    const newX = wrap(pos.x + Math.cos(angle) * speed, world.width);
+    const p = worm({ pos: { x: 1998, y: 100 }, boosting: true }); // near right edge
+    moveWorm(p, world);
     
-    expect(newX).toBeLessThan(20); // wrapped to left side
+    expect(p.pos.x).toBeLessThan(20); // wrapped to left side
   });
 });
 
@@ -109,44 +109,33 @@ describe('Score and Body Growth', () => {
 
 describe('Boost Mechanics', () => {
   it('should increase speed when boosting', () => {
-    const BASE_SPEED = 4.0;
-    const BOOST_MULTIPLIER = 1.8;
+    const normal = worm();
+    const boosted = worm({ boosting: true });
+    moveWorm(normal, world);
+    moveWorm(boosted, world);
     
-    const normalSpeed = BASE_SPEED;
-    const boostSpeed = BASE_SPEED * BOOST_MULTIPLIER;
-    
-    expect(boostSpeed).toBe(7.2);
-    expect(boostSpeed).toBeGreaterThan(normalSpeed);
+    expect(boosted.speed).toBeCloseTo(7.2);
+    expect(boosted.speed).toBeGreaterThan(normal.speed);
   });
 
   it('should deplete score when boosting', () => {
-    const BOOST_COST_PER_TICK = 0.5;
-    let score = 100;
+    const p = worm({ boosting: true });
     
     // Boost for 10 ticks
     for (let i = 0; i < 10; i++) {
-      score -= BOOST_COST_PER_TICK;
+      moveWorm(p, world);
     }
     
-    expect(score).toBe(95);
+    expect(p.score).toBe(95);
   });
 
   it('should stop boosting when score too low', () => {
-    let score = 10.5;
-    let boosting = true;
-    const BOOST_COST_PER_TICK = 0.5;
-    
-    // Simulate boost logic (one tick that brings us to/below 10)
-    if (boosting && score > 10) {
-      score -= BOOST_COST_PER_TICK;
-      if (score <= 10) {
-        boosting = false;
-        score = 10;
-      }
-    }
+    // One tick that brings us to/below 10
+    const p = worm({ score: 10.5, boosting: true });
+    moveWorm(p, world);
     
-    expect(boosting).toBe(false);
-    expect(score).toBe(10);
+    expect(p.boosting).toBe(false);
+    expect(p.score).toBe(10);
   });
 });
 
@@ -0,0 +1,59 @@
+// server/src/handshake.test.ts
+import { describe, it, expect } from 'vitest';
+import { negotiate } from './handshake';
+import { PROTOCOL_VERSION, MIN_CLIENT_PROTOCOL, MIN_BINARY_PROTOCOL, CAPABILITIES } from '../../client/src/net/version';
+
+describe('Protocol Handshake', () => {
+  it('should accept a current client with all shared capabilities', () => {
+    const result = negotiate({ protocol: PROTOCOL_VERSION, capabilities: CAPABILITIES });
+
+    expect(result).toEqual({ ok: true, protocol: PROTOCOL_VERSION, capabilities: CAPABILITIES });
+  });
+
+  it('should only enable capabilities both sides support', () => {
+    const result = negotiate({ protocol: PROTOCOL_VERSION, capabilities: ['delta', 'teleport'] });
+
+    expect(result.ok && result.capabilities).toEqual(['delta']);
+  });
+
+  it('should downgrade legacy clients without a version to plain JSON', () => {
+    const result = negotiate({ capabilities: ['binary'] });
+
+    expect(result).toEqual({ ok: true, protocol: 1, capabilities: [] });
+  });
+
+  it('should ignore malformed capability lists', () => {
+    const result = negotiate({ protocol: PROTOCOL_VERSION, capabilities: 'binary' });
+
+    expect(result.ok && result.capabilities).toEqual([]);
+  });
+
+  it('should reject clients newer than the server', () => {
+    const result = negotiate({ protocol: PROTOCOL_VERSION + 1 });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('unsupported_protocol');
+      expect(result.error.message).toMatch(/refresh/i);
+    }
+  });
+
+  it('should ask clients with an older binary codec to refresh', () => {
+    const result = negotiate({ protocol: MIN_BINARY_PROTOCOL - 1, capabilities: ['binary', 'delta'] });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.code).toBe('outdated_client');
+    expect(negotiate({ protocol: MIN_BINARY_PROTOCOL - 1, capabilities: ['delta'] }).ok).toBe(true);
+  });
+
+  it('should reject clients older than the minimum supported protocol', () => {
+    const result = negotiate({ protocol: MIN_CLIENT_PROTOCOL - 1 });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('error');
+      expect(result.error.code).toBe('outdated_client');
+      expect(result.error.message).toMatch(/out of date/);
+    }
+  });
+});
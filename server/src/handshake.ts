@@ -0,0 +1,59 @@
+// server/src/handshake.ts
+// Protocol version check and capability negotiation for the hello message.
+
+import type { Capability, ErrorMsg } from "../../client/src/net/protocol";
+import {
+  PROTOCOL_VERSION,
+  LEGACY_PROTOCOL,
+  MIN_CLIENT_PROTOCOL,
+  MIN_BINARY_PROTOCOL,
+  CAPABILITIES,
+} from "../../client/src/net/version.js";
+
+export type Negotiated =
+  | { ok: true; protocol: number; capabilities: Capability[] }
+  | { ok: false; error: ErrorMsg };
+
+/** Decide whether to accept a client and which capabilities to enable */
+export function negotiate(hello: { protocol?: unknown; capabilities?: unknown }): Negotiated {
+  const protocol = typeof hello.protocol === "number" ? hello.protocol : LEGACY_PROTOCOL;
+
+  if (protocol < MIN_CLIENT_PROTOCOL) {
+    return {
+      ok: false,
+      error: {
+        type: "error",
+        code: "outdated_client",
+        message: `Your game client is out of date (protocol ${protocol}, server requires ${MIN_CLIENT_PROTOCOL} or newer). Please refresh the page.`,
+      },
+    };
+  }
+
+  if (protocol > PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      error: {
+        type: "error",
+        code: "unsupported_protocol",
+        message: `Your game client is newer than this server (protocol ${protocol}, server speaks ${PROTOCOL_VERSION}). Please refresh the page in a moment.`,
+      },
+    };
+  }
+
+  // Legacy clients never advertised capabilities and get plain JSON snapshots
+  const requested = protocol > LEGACY_PROTOCOL && Array.isArray(hello.capabilities) ? hello.capabilities : [];
+
+  if (requested.includes("binary") && protocol < MIN_BINARY_PROTOCOL) {
+    return {
+      ok: false,
+      error: {
+        type: "error",
+        code: "outdated_client",
+        message: `Your game client is out of date (protocol ${protocol}, binary snapshots need ${MIN_BINARY_PROTOCOL} or newer). Please refresh the page.`,
+      },
+    };
+  }
+  const capabilities = CAPABILITIES.filter(c => requested.includes(c));
+
+  return { ok: true, protocol, capabilities };
+}
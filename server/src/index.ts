@@ -1,192 +1,76 @@
 // server/src/index.ts
 import { createServer } from "http";
-import { WebSocketServer } from "ws";
-import { readFileSync, existsSync } from "fs";
-import { join, dirname } from "path";
+import { WebSocketServer, type WebSocket } from "ws";
+import { readFileSync, existsSync, watch } from "fs";
+import { join, dirname, basename } from "path";
 import { fileURLToPath } from "url";
 import type {
-  ClientHello, TurnMsg, BoostMsg, WorldView, Snapshot, PlayerView, Vec, StateMsg, Welcome, FoodItem
+  Welcome, WireEncoding, AdminMsg, ErrorMsg, PongMsg, RoomClosedMsg, RoomInfo, RoomStatusMsg,
+  ServerShutdownMsg, QueueMsg, RoomLeftMsg, PlayerMode, Capability
 } from "../../client/src/net/protocol";
-import { 
-  wrap, 
-  dist2, 
-  FOOD_R2, 
-  HEAD_R2, 
-  TURN_SPEED,
-  BASE_SPEED,
-  BOOST_MULTIPLIER,
-  BOOST_COST_PER_TICK,
-  calculateBodyLength,
-  calculateThickness
-} from "./game-engine.js";
-
-const TICK_HZ = 30;
-const STATE_HZ = 30; // Broadcast at 30 Hz (interpolation disabled due to high latency issues)
-const STATE_INTERVAL_MS = 1000 / STATE_HZ;
-const WORLD: WorldView = { width: 2000, height: 1200 };
+import { negotiate } from "./handshake.js";
+import {
+  PROTOCOL_VERSION, CLOSE_UNSUPPORTED_PROTOCOL, CLOSE_SESSION_TAKEN_OVER, CLOSE_ROOM_CLOSED, CLOSE_SERVER_RESTART,
+  CLOSE_ROOM_FULL
+} from "../../client/src/net/version.js";
+import { SessionStore, RESUME_GRACE_MS } from "./sessions.js";
+import { TICK_HZ, initialRoomState, type RoomStatus, type SavedRoom } from "./room-runtime.js";
+import type { JoinCommand, PoolEvent } from "./room-pool.js";
+import { localPool, spawnRoomWorker, type PoolClient } from "./pool-client.js";
+import {
+  ROOM_CONFIGS, DEFAULT_ROOM_ID, configFromCreate, checkDelete, loadRoomsFile, planReload, needsRestart,
+  type RoomConfig
+} from "./room-config.js";
+import { validateClientMessage, isAdminMsg } from "../../client/src/net/validate.js";
+import { DirectoryClient } from "./directory.js";
+import { JoinQueue } from "./join-queue.js";
+import { readStateFile, writeStateFile, planRestore, STATE_VERSION, type ServerState } from "./room-state.js";
+
 const PORT = Number(process.env.PORT) || 8080;
 const ADMIN_TOKEN = process.env.ADMIN_TOKEN || "josie";
+const MAX_MESSAGE_BYTES = 16 * 1024;  // larger frames are refused by ws before parsing
+const MAX_VIOLATIONS = 20;            // invalid messages tolerated before disconnecting
+const ROOMS_RELOAD_DEBOUNCE_MS = 250; // editors write a file in several steps
+const ROOM_WORKERS = Math.max(0, Math.floor(Number(process.env.ROOM_WORKERS) || 0)); // 0: rooms run on the main thread
+const STATE_SAVE_INTERVAL_MS = 10_000; // autosave, so a crash loses at most this much
+const SAVE_TIMEOUT_MS = 2000;          // a pool that doesn't answer a save in time is left out
+const SHUTDOWN_TIMEOUT_MS = 5000;      // exit anyway if saving hangs
+const RESTORED_GRACE_MS = 60_000;      // restored worms wait this long for their players to reconnect
+
+// Sharding: with DIRECTORY_URL set, this process hosts only SHARD_ROOMS (all rooms
+// if unset) and lists the other shards' rooms in its lobby (see directory.ts)
+const DIRECTORY_URL = process.env.DIRECTORY_URL;
+const SHARD_ID = process.env.SHARD_ID || `shard-${PORT}`;
+const SHARD_ROOMS = process.env.SHARD_ROOMS
+  ? new Set(process.env.SHARD_ROOMS.split(",").map(id => id.trim()).filter(Boolean))
+  : null;
+const PUBLIC_URL = process.env.PUBLIC_URL || `ws://localhost:${PORT}`; // where clients reach this shard
 
 // Admin session tracking
 const adminSockets = new Set<string>();
 
-// Room types and configuration
-type RoomType = "tournament" | "casual";
-type RoomState = "waiting" | "ready_check" | "countdown" | "active" | "finished" | "freeplay";
+// Worms held for players whose connection dropped
+const sessions = new SessionStore();
 
-type RoomConfig = {
-  id: string;
-  name: string;
-  world: WorldView;
-  maxPlayers: number;
-  description: string;
-  type: RoomType;
-};
+// Players waiting for a slot in a full room
+const joinQueue = new JoinQueue();
 
-const ROOM_CONFIGS: Record<string, RoomConfig> = {
-  arena1: {
-    id: "arena1",
-    name: "Arena 1",
-    world: { width: 2000, height: 1200 },
-    maxPlayers: 20,
-    description: "Tournament Qualifier - Top 4 advance",
-    type: "tournament"
-  },
-  arena2: {
-    id: "arena2",
-    name: "Arena 2",
-    world: { width: 2000, height: 1200 },
-    maxPlayers: 20,
-    description: "Tournament Qualifier - Top 4 advance",
-    type: "tournament"
-  },
-  arena3: {
-    id: "arena3",
-    name: "Arena 3",
-    world: { width: 2000, height: 1200 },
-    maxPlayers: 20,
-    description: "Tournament Qualifier - Top 4 advance",
-    type: "tournament"
-  },
-  deathmatch: {
-    id: "deathmatch",
-    name: "Deathmatch Finals 🏆",
-    world: { width: 1000, height: 600 },
-    maxPlayers: 12,
-    description: "Tournament Finals - Last worm standing wins",
-    type: "tournament"
-  },
-  chill: {
-    id: "chill",
-    name: "Chill Zone 🌴",
-    world: { width: 2500, height: 1500 },
-    maxPlayers: 30,
-    description: "Casual play - Join anytime, no timers!",
-    type: "casual"
-  }
-};
-
-// Spatial partitioning for optimized collision detection
-class SpatialGrid {
-  cellSize: number;
-  cols: number;
-  rows: number;
-  worldWidth: number;
-  worldHeight: number;
-  grid: Map<string, Array<{ segment: Vec; ownerId: string; segmentIndex: number }>>;
-
-  constructor(worldWidth: number, worldHeight: number, cellSize = 100) {
-    this.cellSize = cellSize;
-    this.worldWidth = worldWidth;
-    this.worldHeight = worldHeight;
-    this.cols = Math.ceil(worldWidth / cellSize);
-    this.rows = Math.ceil(worldHeight / cellSize);
-    this.grid = new Map();
-  }
-
-  // Convert world position to grid cell (handles toroidal wrapping)
-  cellKey(x: number, y: number): string {
-    const cx = Math.floor(x / this.cellSize) % this.cols;
-    const cy = Math.floor(y / this.cellSize) % this.rows;
-    return `${cx},${cy}`;
-  }
-
-  // Add a segment to the grid
-  insert(segment: Vec, ownerId: string, segmentIndex: number) {
-    const key = this.cellKey(segment.x, segment.y);
-    if (!this.grid.has(key)) this.grid.set(key, []);
-    this.grid.get(key)!.push({ segment, ownerId, segmentIndex });
-  }
-
-  // Get all segments near a position (checks 3×3 cells around it)
-  queryNearby(pos: Vec): Array<{ segment: Vec; ownerId: string; segmentIndex: number }> {
-    const cx = Math.floor(pos.x / this.cellSize);
-    const cy = Math.floor(pos.y / this.cellSize);
-    const nearby: Array<{ segment: Vec; ownerId: string; segmentIndex: number }> = [];
-
-    // Check 9 cells: center + 8 neighbors (handles wrapping)
-    for (let dx = -1; dx <= 1; dx++) {
-      for (let dy = -1; dy <= 1; dy++) {
-        const checkX = (cx + dx + this.cols) % this.cols;
-        const checkY = (cy + dy + this.rows) % this.rows;
-        const key = `${checkX},${checkY}`;
-        const cell = this.grid.get(key);
-        if (cell) nearby.push(...cell);
-      }
-    }
-    return nearby;
-  }
-
-  clear() {
-    this.grid.clear();
-  }
-}
-
-type PlayerMode = "playing" | "spectating";
-
-type PlayerState = {
-  id: string;
+// What a connection told us in its hello
+type ClientProfile = {
   name: string;
   color: string;
   avatar?: string;
-  pos: Vec;
-  angle: number;          // radians
-  speed: number;          // units / tick
-  body: Vec[];
-  score: number;
-  alive: boolean;
-  turn: -1 | 0 | 1;
-  boosting: boolean;      // true when player is boosting
-  thickness: number;      // body thickness (14 default, grows after max length)
-};
-
-type RoomPlayer = {
-  socketId: string;
-  mode: PlayerMode;
-  playerState?: PlayerState;
+  protocol: number;
+  capabilities: Capability[];
+  encoding: WireEncoding;
 };
 
 type Room = {
   id: string;
   config: RoomConfig;
-  state: RoomState;
-  players: Map<string, RoomPlayer>;
-  readyPlayers: Set<string>;
-  gameState: {
-    foods: Vec[];
-    bonusFood: FoodItem[];
-    activePlayers: Map<string, PlayerState>;
-  };
-  timing?: {
-    roundStartTime: number;
-    roundDuration: number;
-    countdownStartTime?: number;
-  };
-  lastBroadcastTime: number;
-  tournament?: {
-    topPlayers: Array<{ id: string; name: string; score: number }>;
-    advancedPlayers: Set<string>;
-  };
+  pool: PoolClient;           // where the room's simulation runs
+  status: RoomStatus;         // as last reported by its pool
+  pendingConfig?: RoomConfig; // new world size or type, applied once the room is empty
 };
 
 // Create HTTP server to serve static files
@@ -202,6 +86,21 @@ if (!existsSync(clientDistPath)) {
 }
 console.log('[server] Client dist path:', clientDistPath);
 
+// Rooms file: ROOMS_FILE, or server/rooms.json (works in dev and production)
+let roomsFilePath: string | null = process.env.ROOMS_FILE || join(__dirname, '../rooms.json');
+if (!process.env.ROOMS_FILE && !existsSync(roomsFilePath)) {
+  roomsFilePath = join(__dirname, '../../../rooms.json'); // Production: dist/server/src -> server/rooms.json
+}
+if (!process.env.ROOMS_FILE && !existsSync(roomsFilePath)) {
+  roomsFilePath = null;
+}
+
+// State file: STATE_FILE, or next to the rooms file (one per shard when sharding)
+const stateFilePath = process.env.STATE_FILE || join(
+  roomsFilePath ? dirname(roomsFilePath) : join(__dirname, '..'),
+  DIRECTORY_URL ? `room-state.${SHARD_ID}.json` : 'room-state.json'
+);
+
 const server = createServer((req, res) => {
   // Enable CORS
   res.setHeader('Access-Control-Allow-Origin', '*');
@@ -237,7 +136,7 @@ const server = createServer((req, res) => {
 });
 
 // Create WebSocket server attached to HTTP server
-const wss = new WebSocketServer({ server });
+const wss = new WebSocketServer({ server, maxPayload: MAX_MESSAGE_BYTES });
 
 // Start the server
 server.listen(PORT, () => {
@@ -247,219 +146,308 @@ server.listen(PORT, () => {
 // Room registry - replaces global players/foods
 const rooms = new Map<string, Room>();
 
-// Socket ID to room ID mapping
-const socketToRoom = new Map<string, string>();
+// Where rooms run: one pool on the main thread, or one per worker thread
+const pools: PoolClient[] = [];
 
-// Keep legacy global state for backward compatibility during migration
-const players = new Map<string, PlayerState>();
-let foods: Vec[] = [];
-let bonusFood: FoodItem[] = [];
+// Open connections by id, for frames coming back from the pools
+const connections = new Map<string, WebSocket>();
 
-// Food type definitions
-const FOOD_TYPES = {
-  bug: { value: 5, rarity: 0.70, asset: "/foodAssets/rdc-bug.svg" },
-  jira: { value: 10, rarity: 0.25, asset: "/foodAssets/rdc-jira.svg" },
-  zillow: { value: 30, rarity: 0.05, asset: "/foodAssets/rdc-zillow.svg" }
-} as const;
+// What the rest of the server needs to know about each open socket
+type ConnectionState = {
+  id: string;
+  roomId?: string;              // the room it's in; none while in the lobby
+  capabilities: Capability[];   // negotiated in the hello
+};
+const connectionStates = new Map<WebSocket, ConnectionState>();
 
-// Seed foods for a specific room
-function seedFoodsForRoom(room: Room, n = 250) {
-  const world = room.config.world;
-  
-  // Regular yellow dot food
-  room.gameState.foods = Array.from({ length: n }, () => ({
-    x: Math.random() * world.width,
-    y: Math.random() * world.height,
-  }));
-  
-  // Bonus asset-based food (20% of total food count)
-  const bonusCount = Math.floor(n * 0.2);
-  room.gameState.bonusFood = Array.from({ length: bonusCount }, () => generateBonusFoodForRoom(world));
-  
-  console.log(`[food] ${room.config.name}: Seeded ${n} regular + ${bonusCount} bonus food`);
+// Rooms as last loaded from the rooms file; admin-created rooms aren't in here
+let fileRooms: RoomConfig[] = [];
+
+// Registers our rooms with the directory and learns the other shards' rooms
+const directory = DIRECTORY_URL
+  ? new DirectoryClient({ directoryUrl: DIRECTORY_URL, shardId: SHARD_ID, publicUrl: PUBLIC_URL, listRooms: roomList })
+  : null;
+
+// The rooms file entries this shard hosts
+function hostedRooms(configs: RoomConfig[]): RoomConfig[] {
+  return SHARD_ROOMS ? configs.filter(config => SHARD_ROOMS.has(config.id)) : configs;
 }
 
 // Room initialization
 function initializeRooms() {
-  for (const config of Object.values(ROOM_CONFIGS)) {
-    const room: Room = {
-      id: config.id,
-      config,
-      state: config.type === "casual" ? "freeplay" : "waiting",
-      players: new Map(),
-      readyPlayers: new Set(),
-      gameState: {
-        foods: [],
-        bonusFood: [],
-        activePlayers: new Map()
-      },
-      lastBroadcastTime: 0
-    };
-    
-    // Add timing for tournament rooms
-    if (config.type === "tournament") {
-      room.timing = {
-        roundStartTime: 0,
-        roundDuration: 10 * 60 * 1000,  // 10 minutes
-      };
-      room.tournament = {
-        topPlayers: [],
-        advancedPlayers: new Set()
-      };
+  if (roomsFilePath) {
+    const loaded = loadRoomsFile(roomsFilePath);
+    if (!loaded.ok) {
+      console.error(`[rooms] Invalid rooms file ${roomsFilePath}:`);
+      for (const error of loaded.errors) console.error(`[rooms]   ${error}`);
+      process.exit(1);
     }
-    
-    // Seed food for this room
-    seedFoodsForRoom(room, config.type === "casual" ? 300 : 250);
-    
-    rooms.set(config.id, room);
-    
-    // Start game loop for this room
-    startRoomGameLoop(room);
-    
-    console.log(`[rooms] Initialized ${config.name} (${config.type})`);
+    fileRooms = hostedRooms(loaded.rooms);
+    console.log(`[rooms] Loaded ${fileRooms.length} rooms from ${roomsFilePath}`);
+    watchRoomsFile(roomsFilePath);
+  } else {
+    fileRooms = hostedRooms(Object.values(ROOM_CONFIGS));
+    console.log(`[rooms] No rooms file, using built-in rooms`);
+  }
+  
+  if (SHARD_ROOMS) {
+    const missing = [...SHARD_ROOMS].filter(id => !fileRooms.some(config => config.id === id));
+    if (missing.length > 0) console.warn(`[directory] SHARD_ROOMS lists unknown rooms: ${missing.join(", ")}`);
+    // The lobby connects to the chill room of the server it was loaded from
+    if (!SHARD_ROOMS.has(DEFAULT_ROOM_ID)) console.log(`[directory] ${SHARD_ID} doesn't host ${DEFAULT_ROOM_ID}, so don't serve the lobby from it`);
   }
   
-  console.log(`[rooms] Total rooms: ${rooms.size}`);
+  startPools();
+  const restored = loadSavedState(fileRooms);
+  for (const config of [...fileRooms, ...restored.adminRooms]) {
+    createRoom(config, choosePool(), restored.rooms.get(config.id));
+  }
+  
+  const where = ROOM_WORKERS > 0 ? `${ROOM_WORKERS} worker threads` : "the main thread";
+  console.log(`[rooms] Total rooms: ${rooms.size}, ticking at ${TICK_HZ} Hz on ${where}`);
   console.log(`[admin] Admin token configured. Use ?admin=${ADMIN_TOKEN} in URL`);
+  
+  if (directory) {
+    console.log(`[directory] Shard ${SHARD_ID} (${PUBLIC_URL}) registering with ${DIRECTORY_URL}`);
+    directory.start();
+  }
 }
 
-// Start game loop for a specific room
-function startRoomGameLoop(room: Room) {
-  setInterval(() => {
-    // For now, run all rooms (tournament logic will be added later)
-    // if (room.config.type === "tournament" && room.state !== "active") {
-    //   return;
-    // }
-    
-    const now = Date.now();
-    const dead = stepRoom(room);
-    
-    // Throttle broadcasts to 20 Hz
-    const shouldBroadcast = dead.length > 0 || (now - room.lastBroadcastTime) >= STATE_INTERVAL_MS;
-    if (!shouldBroadcast) return;
-    
-    room.lastBroadcastTime = now;
-    
-    // Create snapshot for this room
-    const snap: Snapshot = {
-      t: now,
-      world: room.config.world,
-      players: Array.from(room.gameState.activePlayers.values()).map(toView),
-      foods: room.gameState.foods,
-      bonusFood: room.gameState.bonusFood.length > 0 ? room.gameState.bonusFood : undefined,
-    };
-    
-    if (dead.length) snap.dead = dead;
-    
-    // Add tournament timer info if active
-    if (room.config.type === "tournament" && room.state === "active" && room.timing) {
-      const elapsed = now - room.timing.roundStartTime;
-      const remaining = Math.max(0, room.timing.roundDuration - elapsed);
-      (snap as any).tournamentTimer = {
-        state: room.state,
-        remaining: Math.floor(remaining / 1000), // seconds
-        duration: Math.floor(room.timing.roundDuration / 1000)
-      };
-      
-      // Auto-end round when timer expires
-      if (remaining <= 0 && room.state === "active") {
-        room.state = "finished";
-        
-        // Find winner (top score) and store it
-        const players = Array.from(room.gameState.activePlayers.values());
-        if (players.length > 0) {
-          const winner = players.reduce((top, p) => p.score > top.score ? p : top);
-          room.tournament = {
-            topPlayers: [{ id: winner.id, name: winner.name, score: winner.score }],
-            advancedPlayers: new Set()
-          };
-          console.log(`[tournament] ${room.config.name} round ended - Winner: ${winner.name} (${winner.score})`);
-        } else {
-          console.log(`[tournament] ${room.config.name} round ended (timer expired)`);
-        }
-      }
+// Read the state saved by the last run and hold its worms for their players;
+// returns the admin-created rooms to create again and the rooms to restore
+function loadSavedState(configs: RoomConfig[]): { adminRooms: RoomConfig[]; rooms: Map<string, SavedRoom> } {
+  const nothing = { adminRooms: [], rooms: new Map<string, SavedRoom>() };
+  const loaded = readStateFile(stateFilePath);
+  if (!loaded) return nothing;
+  if (!loaded.ok) {
+    console.error(`[state] Ignoring ${stateFilePath}: ${loaded.error}`);
+    return nothing;
+  }
+  
+  const plan = planRestore(loaded.state, configs, Date.now());
+  for (const reason of plan.skipped) console.log(`[state] Not restoring ${reason}`);
+  for (const saved of plan.sessions) {
+    sessions.hold(saved, RESTORED_GRACE_MS, (session) => {
+      rooms.get(session.roomId)?.pool.post({ type: "removePlayer", roomId: session.roomId, playerId: session.playerId });
+      console.log(`[state] Removed restored worm ${session.playerId} from ${session.roomId} (not resumed)`);
+      admitQueued(session.roomId);
+    });
+  }
+  for (const config of plan.adminRooms) console.log(`[state] Recreating admin-created room ${config.name} (${config.id})`);
+  if (plan.rooms.size > 0) {
+    console.log(`[state] Restoring ${plan.rooms.size} rooms and ${plan.sessions.length} worms from ${stateFilePath}`);
+  }
+  return { adminRooms: plan.adminRooms, rooms: plan.rooms };
+}
+
+// Start the room pools: the main thread's, or ROOM_WORKERS worker threads
+function startPools() {
+  if (ROOM_WORKERS === 0) {
+    const pool: PoolClient = localPool((event) => onPoolEvent(pool, event));
+    pools.push(pool);
+    return;
+  }
+  for (let i = 0; i < ROOM_WORKERS; i++) {
+    pools.push(startWorkerPool(i));
+  }
+}
+
+function startWorkerPool(index: number): PoolClient {
+  const pool: PoolClient = spawnRoomWorker(index, (event) => onPoolEvent(pool, event), (code) => {
+    console.error(`[workers] ${pool.name} exited with code ${code}, restarting its rooms`);
+    restartPool(index, pool);
+  });
+  return pool;
+}
+
+// A worker died with its rooms: start them over on a fresh one and let their clients reconnect
+function restartPool(index: number, dead: PoolClient) {
+  const pool = startWorkerPool(index);
+  pools[index] = pool;
+  
+  for (const room of rooms.values()) {
+    if (room.pool !== dead) continue;
+    sessions.dropRoom(room.id); // the held worms died with the worker
+    room.config = room.pendingConfig ?? room.config;
+    room.pendingConfig = undefined;
+    room.pool = pool;
+    room.status = { id: room.id, state: initialRoomState(room.config), playerCount: 0, spectatorCount: 0 };
+    pool.post({ type: "addRoom", config: room.config });
+    
+    for (const [client, state] of connectionStates) {
+      if (state.roomId === room.id) client.close(1011, "room restarted");
     }
-    
-    // Show winner overlay if round is finished
-    if (room.state === "finished" && room.tournament && room.tournament.topPlayers.length > 0) {
-      const winner = room.tournament.topPlayers[0];
-      (snap as any).tournamentWinner = {
-        name: winner.name,
-        score: winner.score
-      };
+  }
+}
+
+// Frames, room status and saved rooms coming back from a pool
+function onPoolEvent(pool: PoolClient, event: PoolEvent) {
+  if (event.type === "send") {
+    for (const conn of event.to) {
+      const ws = connections.get(conn);
+      // A frame still on its way from a room the connection has since left is dropped
+      if (ws && ws.readyState === 1 && connectionStates.get(ws)?.roomId === event.roomId) ws.send(event.data);
     }
-    
-    const payload: StateMsg = { type: "state", snapshot: snap };
-    
-    // Broadcast only to clients in this room
-    for (const client of wss.clients) {
-      if (client.readyState === 1 && (client as any).roomId === room.id) {
-        client.send(JSON.stringify(payload));
-      }
+    return;
+  }
+  if (event.type === "saved") {
+    pendingSaves.get(event.id)?.(event.rooms);
+    return;
+  }
+  
+  for (const status of event.rooms) {
+    const room = rooms.get(status.id);
+    if (room && room.pool === pool) room.status = status;
+  }
+}
+
+// New rooms go to the pool running the fewest
+function choosePool(): PoolClient {
+  const load = new Map(pools.map(p => [p, 0]));
+  for (const room of rooms.values()) load.set(room.pool, (load.get(room.pool) ?? 0) + 1);
+  return pools.reduce((best, p) => (load.get(p)! < load.get(best)! ? p : best));
+}
+
+// Set up a room and start ticking it in a pool, optionally from saved state
+function createRoom(config: RoomConfig, pool = choosePool(), restore?: SavedRoom): Room {
+  const room: Room = {
+    id: config.id,
+    config,
+    pool,
+    status: {
+      id: config.id,
+      state: restore?.state ?? initialRoomState(config),
+      playerCount: restore?.engine.players.length ?? 0,
+      spectatorCount: 0,
+    },
+  };
+  rooms.set(config.id, room);
+  pool.post({ type: "addRoom", config, restore });
+  if (ROOM_WORKERS > 0) console.log(`[workers] ${config.name} runs on ${pool.name}`);
+  return room;
+}
+
+// Stop a room and send everyone in it to `moveTo`, or back to the lobby (admin command or rooms file)
+function deleteRoom(room: Room, moveTo?: string) {
+  room.pool.post({ type: "removeRoom", roomId: room.id });
+  rooms.delete(room.id);
+  sessions.dropRoom(room.id); // held worms have nowhere to come back to
+  joinQueue.clear(room.id);   // queued players are in the room as spectators and get moved below
+  
+  const closed: RoomClosedMsg = {
+    type: "roomClosed",
+    roomId: room.id,
+    message: `${room.config.name} was closed`,
+    moveTo,
+  };
+  const payload = JSON.stringify(closed);
+  let moved = 0;
+  for (const [client, state] of connectionStates) {
+    if (state.roomId !== room.id) continue;
+    state.roomId = undefined;
+    if (client.readyState === 1) {
+      client.send(payload);
+      // Clients that switch rooms keep their connection and join moveTo themselves
+      if (!state.capabilities.includes("rooms")) client.close(CLOSE_ROOM_CLOSED, "room closed");
+      moved++;
     }
-  }, 1000 / TICK_HZ);
+  }
+  
+  console.log(`[rooms] Deleted ${room.config.name} (${room.id}), ${moved} connections sent to ${moveTo ?? "the lobby"}`);
 }
 
-function generateBonusFoodForRoom(world: WorldView): FoodItem {
-  const rand = Math.random();
-  let type: keyof typeof FOOD_TYPES;
+// Re-read the rooms file and apply it to the running rooms; returns a summary or the file's errors
+function reloadRooms(): { ok: true; summary: string } | { ok: false; errors: string[] } {
+  if (!roomsFilePath) return { ok: false, errors: ["No rooms file configured (set ROOMS_FILE)"] };
   
-  if (rand < 0.05) type = "zillow";      // 5% - rare (30 points)
-  else if (rand < 0.30) type = "jira";   // 25% - uncommon (10 points)
-  else type = "bug";                     // 70% - common (5 points)
+  const loaded = loadRoomsFile(roomsFilePath);
+  if (!loaded.ok) {
+    console.error(`[rooms] Not reloading, ${roomsFilePath} is invalid:`);
+    for (const error of loaded.errors) console.error(`[rooms]   ${error}`);
+    return loaded;
+  }
   
-  return {
-    x: Math.random() * world.width,
-    y: Math.random() * world.height,
-    type,
-    value: FOOD_TYPES[type].value
-  };
+  const hosted = hostedRooms(loaded.rooms);
+  const plan = planReload(fileRooms, hosted);
+  for (const id of plan.remove) {
+    const room = rooms.get(id);
+    if (room && id !== DEFAULT_ROOM_ID) deleteRoom(room, DEFAULT_ROOM_ID);
+  }
+  for (const config of [...plan.add, ...plan.update]) {
+    const room = rooms.get(config.id); // an added room may already exist if an admin created it
+    if (room) updateRoom(room, config);
+    else createRoom(config);
+  }
+  fileRooms = hosted;
+  broadcastRoomStatus();
+  
+  const summary = `${plan.add.length} added, ${plan.remove.length} removed, ${plan.update.length} updated`;
+  console.log(`[rooms] Reloaded ${roomsFilePath}: ${summary}`);
+  return { ok: true, summary };
 }
 
-// Legacy function for backward compatibility
-function generateBonusFood(): FoodItem {
-  return generateBonusFoodForRoom(WORLD);
+// Apply a changed config to a running room without disconnecting anyone
+function updateRoom(room: Room, config: RoomConfig) {
+  const previous = room.config;
+  
+  // World size and type need a fresh room; everything else applies now
+  room.config = { ...config, type: previous.type, world: previous.world };
+  room.pool.post({ type: "configure", config });
+  room.pendingConfig = needsRestart(previous, config) ? config : undefined;
+  console.log(`[rooms] Updated ${config.name} (${room.id})`);
+  admitQueued(room.id); // maxPlayers may have gone up
+  
+  if (room.pendingConfig) {
+    console.log(`[rooms] ${config.name}: world size/type change waits until the room is empty`);
+    restartIfEmpty(room);
+  }
 }
 
-function seedFoods(n = 250) {
-  // Regular yellow dot food (unchanged)
-  foods = Array.from({ length: n }, () => ({
-    x: Math.random() * WORLD.width,
-    y: Math.random() * WORLD.height,
-  }));
-  
-  // Bonus asset-based food (20% of total food count)
-  const bonusCount = Math.floor(n * 0.2); // ~50 bonus food items
-  bonusFood = Array.from({ length: bonusCount }, () => generateBonusFood());
+// Swap in a room's pending config once nobody is in it (held worms count)
+function restartIfEmpty(room: Room) {
+  if (!room.pendingConfig || room.status.playerCount > 0) return;
+  for (const state of connectionStates.values()) {
+    if (state.roomId === room.id) return;
+  }
   
-  console.log(`[food] Seeded ${n} regular food + ${bonusCount} bonus food items`);
+  const config = room.pendingConfig;
+  room.pool.post({ type: "removeRoom", roomId: room.id });
+  rooms.delete(room.id);
+  createRoom(config, room.pool);
+  console.log(`[rooms] Restarted ${config.name} as ${config.type}, ${config.world.width}x${config.world.height}`);
+}
+
+// Reload when the rooms file changes (watching the directory survives editors replacing the file)
+function watchRoomsFile(path: string) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  watch(dirname(path), (_event, filename) => {
+    if (filename !== basename(path)) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      console.log(`[rooms] ${basename(path)} changed, reloading`);
+      reloadRooms();
+    }, ROOMS_RELOAD_DEBOUNCE_MS);
+  });
 }
 
 // Admin command handlers
-function handleAdminCommand(ws: any, msg: any, isAdmin: boolean) {
+function handleAdminCommand(ws: WebSocket, msg: AdminMsg, isAdmin: boolean) {
   if (!isAdmin) {
-    ws.send(JSON.stringify({ type: "error", message: "Unauthorized: Admin access required" }));
+    const error: ErrorMsg = { type: "error", code: "unauthorized", message: "Unauthorized: Admin access required" };
+    ws.send(JSON.stringify(error));
     return;
   }
   
   if (msg.type === "admin:startTournament") {
-    const roomIds = msg.roomIds as string[] || ["arena1", "arena2", "arena3"];
+    const roomIds = msg.roomIds || ["arena1", "arena2", "arena3"];
     console.log(`[admin] Starting tournament for rooms: ${roomIds.join(", ")}`);
     
     for (const roomId of roomIds) {
       const room = rooms.get(roomId);
       if (!room || room.config.type !== "tournament") continue;
       
-      room.state = "active";
-      if (room.timing) {
-        room.timing.roundStartTime = Date.now();
-      }
-      
-      // Clear previous winner overlay
-      if (room.tournament) {
-        room.tournament.topPlayers = [];
-        room.tournament.advancedPlayers.clear();
-      }
+      // Starts the round timer and clears the previous winner overlay
+      room.pool.post({ type: "startRound", roomId, at: Date.now() });
       
       console.log(`[admin] ${room.config.name} tournament started`);
     }
@@ -468,15 +456,15 @@ function handleAdminCommand(ws: any, msg: any, isAdmin: boolean) {
   }
   
   if (msg.type === "admin:endRound") {
-    const roomId = msg.roomId as string;
-    const room = rooms.get(roomId);
+    const room = rooms.get(msg.roomId);
     
     if (!room || room.config.type !== "tournament") {
-      ws.send(JSON.stringify({ type: "error", message: "Invalid room" }));
+      const error: ErrorMsg = { type: "error", code: "invalid_room", message: "Invalid room" };
+      ws.send(JSON.stringify(error));
       return;
     }
     
-    room.state = "finished";
+    room.pool.post({ type: "endRound", roomId: room.id });
     console.log(`[admin] Ended round for ${room.config.name}`);
     
     ws.send(JSON.stringify({ type: "adminSuccess", message: `Round ended for ${room.config.name}` }));
@@ -487,16 +475,7 @@ function handleAdminCommand(ws: any, msg: any, isAdmin: boolean) {
     
     for (const room of rooms.values()) {
       if (room.config.type !== "tournament") continue;
-      
-      room.state = "waiting";
-      room.readyPlayers.clear();
-      if (room.timing) {
-        room.timing.roundStartTime = 0;
-      }
-      if (room.tournament) {
-        room.tournament.topPlayers = [];
-        room.tournament.advancedPlayers.clear();
-      }
+      room.pool.post({ type: "resetRound", roomId: room.id });
     }
     
     ws.send(JSON.stringify({ type: "adminSuccess", message: "Tournament reset" }));
@@ -507,29 +486,110 @@ function handleAdminCommand(ws: any, msg: any, isAdmin: boolean) {
       id: room.id,
       name: room.config.name,
       type: room.config.type,
-      state: room.state,
-      playerCount: room.gameState.activePlayers.size,
+      state: room.status.state,
+      playerCount: room.status.playerCount,
       maxPlayers: room.config.maxPlayers
     }));
     
     ws.send(JSON.stringify({ type: "roomStatus", rooms: roomStatuses }));
   }
+  
+  if (msg.type === "admin:createRoom") {
+    const checked = configFromCreate(msg, knownRoomIds());
+    if (!checked.ok) {
+      ws.send(JSON.stringify(checked.error));
+      return;
+    }
+    
+    const room = createRoom(checked.config);
+    console.log(`[admin] Created ${room.config.name} (${room.id}, ${room.config.world.width}x${room.config.world.height}, max ${room.config.maxPlayers})`);
+    
+    ws.send(JSON.stringify({ type: "adminSuccess", message: `Created ${room.config.name}` }));
+    broadcastRoomStatus();
+  }
+  
+  if (msg.type === "admin:reloadRooms") {
+    const result = reloadRooms();
+    if (!result.ok) {
+      const error: ErrorMsg = { type: "error", code: "invalid_config", message: `Rooms file not reloaded: ${result.errors.join("; ")}` };
+      ws.send(JSON.stringify(error));
+      return;
+    }
+    
+    ws.send(JSON.stringify({ type: "adminSuccess", message: `Rooms reloaded: ${result.summary}` }));
+  }
+  
+  if (msg.type === "admin:deleteRoom") {
+    const checked = checkDelete(msg, knownRoomIds()); // occupants may move to another shard's room
+    if (!checked.ok) {
+      ws.send(JSON.stringify(checked.error));
+      return;
+    }
+    
+    const room = rooms.get(msg.roomId);
+    if (!room) {
+      const error: ErrorMsg = { type: "error", code: "invalid_room", message: `Room "${msg.roomId}" runs on another server` };
+      ws.send(JSON.stringify(error));
+      return;
+    }
+    deleteRoom(room, checked.moveTo);
+    
+    ws.send(JSON.stringify({ type: "adminSuccess", message: `Deleted ${room.config.name}` }));
+    broadcastRoomStatus();
+  }
 }
 
-// Broadcast room status to all clients periodically
-function broadcastRoomStatus() {
-  const roomStatuses = Array.from(rooms.values()).map(room => ({
+// Worms count against maxPlayers, including ones held for a dropped connection
+function roomHasSlot(room: Room): boolean {
+  return sessions.count(room.id) < room.config.maxPlayers;
+}
+
+// Let queued players into a room that may have a free slot now
+function admitQueued(roomId: string) {
+  const room = rooms.get(roomId);
+  if (!room || joinQueue.length(roomId) === 0) return;
+  if (joinQueue.admitNext(roomId, () => roomHasSlot(room)).length > 0) sendQueuePositions(roomId);
+}
+
+// Tell everyone waiting for a room where they are in line
+function sendQueuePositions(roomId: string) {
+  const waiting = joinQueue.waiting(roomId);
+  waiting.forEach((conn, i) => {
+    const update: QueueMsg = { type: "queue", roomId, position: i + 1, length: waiting.length };
+    const ws = connections.get(conn);
+    if (ws && ws.readyState === 1) ws.send(JSON.stringify(update));
+  });
+}
+
+// Room ids in use here or on another shard
+function knownRoomIds(): Set<string> {
+  const ids = new Set(rooms.keys());
+  for (const room of directory?.remoteRooms ?? []) ids.add(room.id);
+  return ids;
+}
+
+// This server's rooms as the lobby lists them
+function roomList(): RoomInfo[] {
+  return Array.from(rooms.values()).map(room => ({
     id: room.id,
     name: room.config.name,
+    description: room.config.description,
     type: room.config.type,
-    state: room.state,
-    playerCount: room.gameState.activePlayers.size,
-    spectatorCount: 0, // TODO: implement spectator tracking
+    state: room.status.state,
+    playerCount: room.status.playerCount,
+    spectatorCount: Math.max(0, room.status.spectatorCount - joinQueue.length(room.id)), // queued players watch too, but are listed as queued
     maxPlayers: room.config.maxPlayers,
-    locked: room.state === "finished" || (room.id === "deathmatch" && room.state === "waiting")
+    queued: joinQueue.length(room.id),
+    locked: room.status.state === "finished" || (room.id === "deathmatch" && room.status.state === "waiting")
   }));
-  
-  const payload = JSON.stringify({ type: "roomStatus", rooms: roomStatuses });
+}
+
+// Broadcast room status to all clients periodically, including other shards' rooms
+function broadcastRoomStatus() {
+  const local = roomList();
+  const remote = (directory?.remoteRooms ?? []).filter(room => !rooms.has(room.id));
+  const status: RoomStatusMsg = { type: "roomStatus", rooms: [...local, ...remote] };
+  const payload = JSON.stringify(status);
   
   for (const client of wss.clients) {
     if (client.readyState === 1) {
@@ -541,351 +601,294 @@ function broadcastRoomStatus() {
 // Broadcast room status every 2 seconds
 setInterval(broadcastRoomStatus, 2000);
 
-// Initialize rooms on startup (replaces seedFoods)
-initializeRooms();
-
-// Legacy: seed foods for backward compatibility
-seedFoods();
-
-// Spawn player in a specific room
-function spawnPlayerInRoom(room: Room, id: string, name: string, color: string, avatar?: string): PlayerState {
-  const world = room.config.world;
-  const p: PlayerState = {
-    id, name, color, avatar,
-    pos: { x: Math.random() * world.width, y: Math.random() * world.height },
-    angle: Math.random() * Math.PI * 2,
-    speed: 4.0,
-    body: [],
-    score: 10,
-    alive: true,
-    turn: 0,
-    boosting: false,
-    thickness: 14,
-  };
-  room.gameState.activePlayers.set(id, p);
-  return p;
-}
-
-// Legacy function for backward compatibility
-function spawnPlayer(id: string, name: string, color: string, avatar?: string): PlayerState {
-  const p: PlayerState = {
-    id, name, color, avatar,
-    pos: { x: Math.random() * WORLD.width, y: Math.random() * WORLD.height },
-    angle: Math.random() * Math.PI * 2,
-    speed: 4.0,
-    body: [],
-    score: 10,
-    alive: true,
-    turn: 0,
-    boosting: false,
-    thickness: 14,
+// Rooms waiting on a world size/type change restart once they empty out
+setInterval(() => {
+  for (const room of rooms.values()) restartIfEmpty(room);
+}, 2000);
+
+// --- Saving and shutdown ---
+
+// Save requests waiting for their pool's answer, by request id
+const pendingSaves = new Map<number, (rooms: SavedRoom[]) => void>();
+let lastSaveId = 0;
+let saving = false;
+let shuttingDown = false;
+
+// Gather every room from the pools and write the state file
+async function saveState(): Promise<number> {
+  const parts = await Promise.all(pools.map(pool => new Promise<SavedRoom[]>((resolve) => {
+    const id = ++lastSaveId;
+    const finish = (saved: SavedRoom[]) => {
+      clearTimeout(timer);
+      pendingSaves.delete(id);
+      resolve(saved);
+    };
+    const timer = setTimeout(() => {
+      console.warn(`[state] ${pool.name} didn't answer, its rooms aren't saved`);
+      finish([]);
+    }, SAVE_TIMEOUT_MS);
+    pendingSaves.set(id, finish);
+    pool.post({ type: "save", id });
+  })));
+  
+  const state: ServerState = {
+    version: STATE_VERSION,
+    savedAt: Date.now(),
+    rooms: parts.flat().filter(saved => rooms.has(saved.config.id)), // not ones deleted meanwhile
+    sessions: sessions.list(),
+    // Rooms only an admin command knows about; the rooms file brings back the rest
+    adminRooms: [...rooms.values()].map(room => room.config).filter(config => !fileRooms.some(f => f.id === config.id)),
   };
-  players.set(id, p);
-  return p;
+  writeStateFile(stateFilePath, state);
+  return state.rooms.length;
 }
 
-// Physics helpers imported from game-engine.ts
-
-// Create food burst when worm dies (room-aware)
-function createFoodBurstInRoom(player: PlayerState, world: WorldView): Vec[] {
-  const burstFood: Vec[] = [];
-  
-  // Scale burst with worm size (bigger worms = bigger bursts)
-  const bodySegments = Math.min(player.body.length, 150);
-  const segmentFood = Math.floor(bodySegments / 3);
-  
-  // Scale bonus with score (high scorers = more bonus food)
-  const bonusFoodCount = Math.min(Math.floor(player.score / 8), 25);
-  
-  console.log(`[food-burst] ${player.name} (score: ${player.score}, body: ${bodySegments}) creating ${segmentFood + bonusFoodCount} food items`);
-  
-  // Create food from body segments
-  for (let i = 0; i < segmentFood; i++) {
-    const segmentIndex = i * 3;
-    if (segmentIndex < player.body.length) {
-      const segment = player.body[segmentIndex];
-      const offsetX = (Math.random() - 0.5) * 40;
-      const offsetY = (Math.random() - 0.5) * 40;
-      
-      burstFood.push({
-        x: wrap(segment.x + offsetX, world.width),
-        y: wrap(segment.y + offsetY, world.height)
-      });
-    }
+const autosave = setInterval(() => {
+  if (saving || shuttingDown) return;
+  saving = true;
+  saveState()
+    .catch(err => console.error(`[state] Autosave to ${stateFilePath} failed:`, err))
+    .finally(() => { saving = false; });
+}, STATE_SAVE_INTERVAL_MS);
+
+// Stop taking players, save every room, then tell clients we're restarting
+async function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`[server] ${signal} received, shutting down`);
+  clearInterval(autosave);
+  setTimeout(() => {
+    console.error(`[server] Shutdown took over ${SHUTDOWN_TIMEOUT_MS / 1000}s, exiting`);
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+  
+  server.close(); // no new connections; open ones are closed below
+  
+  try {
+    const count = await saveState();
+    console.log(`[state] Saved ${count} rooms to ${stateFilePath}`);
+  } catch (err) {
+    console.error(`[state] Saving to ${stateFilePath} failed:`, err);
   }
   
-  // Create bonus food in circle pattern
-  for (let i = 0; i < bonusFoodCount; i++) {
-    const angle = (Math.PI * 2 * i) / bonusFoodCount;
-    const radius = 60 + Math.random() * 40;
-    burstFood.push({
-      x: wrap(player.pos.x + Math.cos(angle) * radius, world.width),
-      y: wrap(player.pos.y + Math.sin(angle) * radius, world.height)
-    });
+  const notice: ServerShutdownMsg = { type: "shutdown", message: "Server restarting, you'll be reconnected shortly" };
+  const payload = JSON.stringify(notice);
+  for (const client of wss.clients) {
+    if (client.readyState !== 1) continue;
+    client.send(payload);
+    client.close(CLOSE_SERVER_RESTART, "server restarting");
   }
   
-  return burstFood;
+  await directory?.stop();
+  for (const pool of pools) pool.stop();
+  console.log(`[server] Shutdown complete`);
+  process.exit(0);
 }
 
-// Legacy function
-function createFoodBurst(player: PlayerState): Vec[] {
-  return createFoodBurstInRoom(player, WORLD);
-}
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
 
-// Clean up food that's far from all players (only when over cap)
-function cleanupDistantFood() {
-  const MAX_FOOD = 400; // Cap for 20 players
-  
-  if (foods.length <= MAX_FOOD) return; // Only cleanup when needed
-  
-  const playerPositions = Array.from(players.values())
-    .filter(p => p.alive)
-    .map(p => p.pos);
-  
-  if (playerPositions.length === 0) return; // No players, no cleanup
-  
-  // Calculate distance to nearest player for each food
-  const foodWithDistance = foods.map(food => {
-    const nearestPlayerDist = Math.min(...playerPositions.map(playerPos => 
-      dist2(playerPos, food)
-    ));
-    return { food, nearestPlayerDist };
-  });
-  
-  // Sort by distance (furthest from players first)
-  foodWithDistance.sort((a, b) => b.nearestPlayerDist - a.nearestPlayerDist);
-  
-  // Keep only the closest foods to players
-  const toKeep = MAX_FOOD - 50; // Keep buffer below max
-  foods = foodWithDistance.slice(-toKeep).map(item => item.food);
-  
-  const removed = foodWithDistance.length - toKeep;
-  console.log(`[food-cleanup] Removed ${removed} distant food items. Total food: ${foods.length}`);
+// Initialize rooms on startup
+initializeRooms();
+
+// Close a connection whose worm was resumed by another one
+function takeOverConnection(connectionId: string) {
+  const client = connections.get(connectionId);
+  if (client && client.readyState === 1) {
+    client.close(CLOSE_SESSION_TAKEN_OVER, "resumed elsewhere");
+  }
 }
 
-// Room-scoped game step
-function stepRoom(room: Room): string[] {
-  const world = room.config.world;
-  const players = room.gameState.activePlayers;
-  const foods = room.gameState.foods;
-  const bonusFood = room.gameState.bonusFood;
-  
-  // move players
-  for (const p of players.values()) {
-    if (!p.alive) continue;
-    // steering
-    p.angle += p.turn * TURN_SPEED;
-    
-    if (p.boosting && p.score > 10) {
-      p.speed = BASE_SPEED * BOOST_MULTIPLIER;
-      p.score -= BOOST_COST_PER_TICK;
-      // Auto-stop boosting when score gets too low
-      if (p.score <= 10) {
-        p.boosting = false;
-        p.score = 10; // Prevent going below minimum
-      }
-    } else {
-      p.speed = BASE_SPEED;
-      p.boosting = false; // Stop boosting if score too low
+// --- Connections ---
+wss.on("connection", (ws) => {
+  console.log("[server] socket connected");
+  const id = crypto.randomUUID();
+  let profile: ClientProfile | null = null; // from the hello
+  let me: { id: string; name: string } | null = null; // our worm, if playing
+  let currentRoomId: string | null = null;
+  let isAdmin = false;
+  let violations = 0;
+  let resumeToken: string | null = null;
+  const connection: ConnectionState = { id, capabilities: [] };
+  connections.set(id, ws);
+  connectionStates.set(ws, connection);
+
+  // Tell the client what was wrong, and drop clients that keep sending garbage
+  const reject = (reason: string) => {
+    violations++;
+    console.log(`[server] Invalid message from ${me?.name || id} (${violations}/${MAX_VIOLATIONS}): ${reason}`);
+    if (violations >= MAX_VIOLATIONS) {
+      ws.close(1008, "too many invalid messages");
+      return;
     }
+    const error: ErrorMsg = { type: "error", code: "invalid_message", message: reason };
+    ws.send(JSON.stringify(error));
+  };
 
-    // move
-    p.pos.x = wrap(p.pos.x + Math.cos(p.angle) * p.speed, world.width);
-    p.pos.y = wrap(p.pos.y + Math.sin(p.angle) * p.speed, world.height);
-
-    // grow body: push a copy of head every N ticks
-    p.body.unshift({ x: p.pos.x, y: p.pos.y });
-    const finalLen = calculateBodyLength(p.score);
-    if (p.body.length > finalLen) p.body.length = finalLen;
-
-    // Thickness progression: after max length, continue growing thicker
-    p.thickness = calculateThickness(p.score);
-  }
-
-  // eat food
-  for (let i = foods.length - 1; i >= 0; i--) {
-    const f = foods[i];
-    let eaten = false;
-    for (const p of players.values()) {
-      if (!p.alive) continue;
-      if (dist2(p.pos, f) <= FOOD_R2) {
-        p.score += 1;
-        eaten = true;
-        break;
-      }
-    }
-    if (eaten) {
-      foods.splice(i, 1);
-      // respawn somewhere else
-      foods.push({ x: Math.random() * world.width, y: Math.random() * world.height });
-    }
-  }
+  const sendWelcome = (room: Room | undefined, resumed = false) => {
+    const welcome: Welcome = {
+      type: "welcome",
+      selfId: me ? me.id : "",
+      roomId: room?.id,
+      world: room?.config.world,
+      protocol: PROTOCOL_VERSION,
+      capabilities: profile?.capabilities,
+      resumeToken: resumeToken ?? undefined,
+      resumed,
+    };
+    ws.send(JSON.stringify(welcome));
+  };
 
-  // eat bonus food
-  for (let i = bonusFood.length - 1; i >= 0; i--) {
-    const f = bonusFood[i];
-    let eaten = false;
-    for (const p of players.values()) {
-      if (!p.alive) continue;
-      if (dist2(p.pos, f) <= FOOD_R2) {
-        p.score += f.value; // Use food's point value
-        eaten = true;
-        console.log(`[bonus-food] ${p.name} ate ${f.type} (+${f.value} points, total: ${p.score})`);
-        break;
+  /**
+   * Put this connection in a room, spawning a worm if playing. With a resume
+   * token the worm held for it is reclaimed instead. Returns false if the
+   * room and its queue are full.
+   */
+  const enterRoom = (room: Room, mode: PlayerMode, heldToken?: string): boolean => {
+    const client = profile!;
+    // The room's pool keeps the per-connection snapshot state; delta sync is fresh per join
+    const join: JoinCommand = {
+      type: "join",
+      roomId: room.id,
+      conn: id,
+      encoding: client.encoding,
+      delta: client.capabilities.includes("delta"),
+      aoi: client.capabilities.includes("aoi"),
+      predict: client.capabilities.includes("predict"),
+      events: client.capabilities.includes("events"),
+    };
+    const { name } = client;
+    const player = (playerId: string) => ({ id: playerId, name, color: client.color, avatar: client.avatar });
+    
+    // Reclaim a worm held since a dropped connection, if it's still in this room
+    const held = mode === "playing" && heldToken ? sessions.get(heldToken) : undefined;
+    const resuming = !!held && held.roomId === room.id;
+    
+    // A full room queues new players (they watch while they wait), or turns them away if the queue is full too
+    let queued: number | null = null;
+    if (mode === "playing" && !resuming && (!roomHasSlot(room) || joinQueue.length(room.id) > 0)) {
+      queued = joinQueue.add(room.id, {
+        conn: id,
+        admit: () => {
+          me = { id, name };
+          resumeToken = sessions.issue(id, room.id, id);
+          room.pool.post({ ...join, player: player(id) });
+          sendWelcome(room);
+          console.log(`[server] ${name} admitted to ${room.config.name} from the queue`);
+        },
+      });
+      if (queued === null) {
+        console.log(`[server] Turned ${name} away from ${room.config.name} (room and queue full)`);
+        return false;
       }
     }
-    if (eaten) {
-      bonusFood.splice(i, 1);
-      // respawn new bonus food
-      bonusFood.push(generateBonusFoodForRoom(world));
-    }
-  }
-
-  // collisions (head-to-body, optimized with spatial partitioning)
-  const dead: string[] = [];
-  
-  // Build spatial grid from all body segments
-  const grid = new SpatialGrid(world.width, world.height, 100);
-  for (const p of players.values()) {
-    if (!p.alive) continue;
-    for (let i = 0; i < p.body.length; i++) {
-      grid.insert(p.body[i], p.id, i);
-    }
-  }
-
-  // Check each player head against nearby segments only
-  for (const p of players.values()) {
-    if (!p.alive) continue;
-    
-    const nearbySegments = grid.queryNearby(p.pos);
     
-    for (const { segment, ownerId, segmentIndex } of nearbySegments) {
-      // allow touching your first few segments (hinge)
-      if (ownerId === p.id && segmentIndex < 6) continue;
-      
-      if (dist2(p.pos, segment) < HEAD_R2) {
-        p.alive = false;
-        dead.push(p.id);
-        
-        // Create food burst from dead worm
-        const burstFood = createFoodBurstInRoom(p, world);
-        foods.push(...burstFood);
-        
-        break;
-      }
+    currentRoomId = room.id;
+    connection.roomId = room.id;
+    
+    // Only spawn a worm if playing (and not queued), not spectating
+    if (held && resuming) {
+      const previousOwner = held.owner;
+      sessions.resume(held.token, id);
+      takeOverConnection(previousOwner);
+      me = { id: held.playerId, name };
+      resumeToken = held.token;
+      join.player = player(me.id);
+      join.resume = true;
+      console.log(`[server] ${me.name} resumed in ${room.config.name} (${room.id}) => id ${me.id} (protocol ${client.protocol})`);
+    } else if (queued !== null) {
+      console.log(`[server] ${name} queued for ${room.config.name} (${room.id}) at #${queued}, spectating meanwhile`);
+    } else if (mode === "playing") {
+      me = { id, name };
+      resumeToken = sessions.issue(me.id, room.id, id);
+      join.player = player(me.id);
+      console.log(`[server] ${me.name} joined ${room.config.name} (${room.id}) => id ${id} (protocol ${client.protocol})`);
+    } else {
+      console.log(`[server] ${name} spectating ${room.config.name} (${room.id})`);
     }
-    if (!p.alive) break;
-  }
+    room.pool.post(join);
+    sendWelcome(room, resuming);
+    if (queued !== null) sendQueuePositions(room.id);
+    return true;
+  };
 
-  // Check head-to-head collisions (simple version)
-  const alivePlayers = Array.from(players.values()).filter(p => p.alive);
-  for (let i = 0; i < alivePlayers.length; i++) {
-    for (let j = i + 1; j < alivePlayers.length; j++) {
-      const playerA = alivePlayers[i];
-      const playerB = alivePlayers[j];
-      
-      if (dist2(playerA.pos, playerB.pos) < HEAD_R2) {
-        // Both worms die in head-to-head collision
-        playerA.alive = false;
-        playerB.alive = false;
-        dead.push(playerA.id, playerB.id);
-        
-        // Create food bursts from both dead worms
-        const burstFoodA = createFoodBurstInRoom(playerA, world);
-        const burstFoodB = createFoodBurstInRoom(playerB, world);
-        foods.push(...burstFoodA, ...burstFoodB);
-        
-        console.log(`[collision] Head-to-head: ${playerA.name} and ${playerB.name} both died`);
+  /**
+   * Take this connection out of its room. When the socket dropped, the worm is
+   * held for a while so the player can resume; when they left on purpose it's
+   * removed and the next queued player gets the slot.
+   */
+  const leaveRoom = (reason: "closed" | "left") => {
+    const room = currentRoomId ? rooms.get(currentRoomId) : undefined;
+    if (room) {
+      let worm: "hold" | "keep" | "remove" = "remove";
+      let freedSlot = false;
+      if (me && resumeToken && reason === "closed") {
+        const { id: playerId, name } = me;
+        const roomId = room.id;
+        const held = sessions.detach(resumeToken, id, () => {
+          const current = rooms.get(roomId);
+          current?.pool.post({ type: "removePlayer", roomId, playerId });
+          console.log(`[server] Removed ${name} from ${current?.config.name ?? roomId} (not resumed)`);
+          admitQueued(roomId);
+        });
+        // Held worms keep going straight until the player is back; if another
+        // connection took the worm over, it's theirs now
+        worm = held ? "hold" : "keep";
+        if (held) console.log(`[server] Holding ${name} in ${room.config.name} for ${RESUME_GRACE_MS / 1000}s`);
+      } else if (me && resumeToken && sessions.get(resumeToken)?.owner !== id) {
+        worm = "keep"; // resumed by another connection meanwhile
+      } else if (me) {
+        if (resumeToken) sessions.drop(resumeToken);
+        freedSlot = true;
+        console.log(`[server] Removed ${me.name} from ${room.config.name}`);
       }
+      room.pool.post({ type: "leave", roomId: room.id, conn: id, worm });
+      if (freedSlot) admitQueued(room.id);
     }
-  }
-
-  // Clean up distant food if over cap (room-scoped version would go here)
-  // For now, skip cleanup in stepRoom to keep it simple
-
-  return dead;
-}
-
-// Legacy step function for backward compatibility
-// Routes to chill room for now until we fully migrate
-function step(): string[] {
-  const chillRoom = rooms.get("chill");
-  if (chillRoom) {
-    return stepRoom(chillRoom);
-  }
-  return [];
-}
-
-function toView(p: PlayerState): PlayerView {
-  return {
-    id: p.id,
-    name: p.name,
-    color: p.color,
-    avatar: p.avatar,
-    head: { pos: { x: p.pos.x, y: p.pos.y }, angle: p.angle },
-    body: p.body.slice(), // copy for safety
-    score: p.score,
-    alive: p.alive,
-    boosting: p.boosting ? true : undefined, // Only include if boosting
-    thickness: p.thickness !== 14 ? p.thickness : undefined, // Only include if different from default
+    
+    // Give up our place in line
+    const queuedFor = joinQueue.remove(id);
+    if (queuedFor) sendQueuePositions(queuedFor);
+    
+    currentRoomId = null;
+    connection.roomId = undefined;
+    me = null;
+    resumeToken = null;
   };
-}
 
-function snapshot(now: number): Snapshot {
-  // Get data from chill room for legacy compatibility
-  const chillRoom = rooms.get("chill");
-  if (chillRoom) {
-    return {
-      t: now,
-      world: chillRoom.config.world,
-      players: Array.from(chillRoom.gameState.activePlayers.values()).map(toView),
-      foods: chillRoom.gameState.foods,
-      bonusFood: chillRoom.gameState.bonusFood.length > 0 ? chillRoom.gameState.bonusFood : undefined,
-    };
-  }
-  
-  // Fallback to legacy global state
-  return {
-    t: now,
-    world: WORLD,
-    players: Array.from(players.values()).map(toView),
-    foods,
-    bonusFood: bonusFood.length > 0 ? bonusFood : undefined,
-  };
-}
+  ws.on("message", (buf, isBinary) => {
+    if (isBinary) return reject("binary frames are not accepted");
 
-function broadcastState() {
-  const now = Date.now();
-  const dead = step();
-  const snap = snapshot(now);
-  if (dead.length) snap.dead = dead;
-  const payload: StateMsg = { type: "state", snapshot: snap };
+    let raw: unknown;
+    try { raw = JSON.parse(buf.toString("utf-8")); } catch { return reject("malformed JSON"); }
 
-  for (const client of wss.clients) {
-    if (client.readyState === 1) {
-      client.send(JSON.stringify(payload));
-    }
-  }
-}
+    const validated = validateClientMessage(raw);
+    if (!validated.ok) return reject(validated.error);
+    const msg = validated.msg;
 
-// Legacy global game loop - DISABLED (using per-room loops now)
-// setInterval(broadcastState, 1000 / TICK_HZ);
-
-// --- Connections ---
-wss.on("connection", (ws) => {
-  console.log("[server] socket connected");
-  const id = crypto.randomUUID();
-  let me: PlayerState | null = null;
-  let currentRoomId: string | null = null;
-  let isAdmin = false;
-
-  ws.on("message", (buf) => {
-    let msg: any;
-    try { msg = JSON.parse(buf.toString("utf-8")); } catch { return; }
+    if ((msg.type === "hello" || msg.type === "joinRoom") && shuttingDown) {
+      ws.close(CLOSE_SERVER_RESTART, "server restarting");
+      return;
+    }
 
     if (msg.type === "hello") {
-      const hello = msg as ClientHello & { roomId?: string; mode?: string; adminToken?: string };
-      const requestedRoomId = hello.roomId || "chill";
+      if (profile) return reject("hello was already sent; use joinRoom to change rooms");
+      const hello = msg;
+      
+      // Reject clients whose protocol we can't serve, downgrade legacy ones
+      const negotiated = negotiate(hello);
+      if (!negotiated.ok) {
+        console.log(`[server] Rejected ${hello.name || "client"}: ${negotiated.error.message}`);
+        ws.send(JSON.stringify(negotiated.error));
+        ws.close(CLOSE_UNSUPPORTED_PROTOCOL, negotiated.error.code);
+        return;
+      }
+      const { protocol, capabilities } = negotiated;
+      
+      // State encoding: binary if negotiated, JSON otherwise
+      const encoding: WireEncoding = capabilities.includes("binary") ? "binary" : "json";
+      profile = { name: hello.name || "Player", color: hello.color || "#22cc88", avatar: hello.avatar, protocol, capabilities, encoding };
+      connection.capabilities = capabilities;
       
       // Check admin token
       if (hello.adminToken && hello.adminToken === ADMIN_TOKEN) {
@@ -895,65 +898,87 @@ wss.on("connection", (ws) => {
         ws.send(JSON.stringify({ type: "adminGranted", message: "Admin privileges granted" }));
       }
       
+      // Clients that switch rooms over this connection start in the lobby unless they name a room
+      if (!hello.roomId && capabilities.includes("rooms")) {
+        console.log(`[server] ${profile.name} in the lobby (protocol ${protocol})`);
+        sendWelcome(undefined);
+        return;
+      }
+      
       // Get the requested room
+      const requestedRoomId = hello.roomId || DEFAULT_ROOM_ID;
       const room = rooms.get(requestedRoomId);
-      const mode = hello.mode || "playing";
       
       if (room) {
-        currentRoomId = requestedRoomId;
-        socketToRoom.set(id, requestedRoomId);
-        (ws as any).roomId = requestedRoomId;
-        
-        // Only spawn a worm if playing, not spectating
-        if (mode === "playing") {
-          me = spawnPlayerInRoom(room, id, hello.name || "Player", hello.color || "#22cc88", hello.avatar);
-          console.log(`[server] ${me.name} joined ${room.config.name} (${requestedRoomId}) => id ${id}`);
-        } else {
-          console.log(`[server] ${hello.name || "Spectator"} spectating ${room.config.name} (${requestedRoomId})`);
+        if (!enterRoom(room, hello.mode || "playing", hello.resumeToken)) {
+          const error: ErrorMsg = { type: "error", code: "room_full", message: `${room.config.name} is full and its queue is too` };
+          ws.send(JSON.stringify(error));
+          ws.close(CLOSE_ROOM_FULL, "room full");
         }
-        
-        const welcome: Welcome = { type: "welcome", selfId: mode === "playing" ? id : "", world: room.config.world };
-        ws.send(JSON.stringify(welcome));
       } else {
-        // Fallback to legacy if room not found
-        me = spawnPlayer(id, hello.name || "Player", hello.color || "#22cc88", hello.avatar);
-        console.log(`[server] hello from ${me.name} => id ${id} (room ${requestedRoomId} not found, using legacy)`);
-        
-        const welcome: Welcome = { type: "welcome", selfId: id, world: WORLD };
-        ws.send(JSON.stringify(welcome));
+        // No such room here: clients that switch rooms wait in the lobby, the rest are let go
+        const remote = directory?.remoteRooms.some(r => r.id === requestedRoomId);
+        const message = remote ? `Room "${requestedRoomId}" runs on another server` : `Room "${requestedRoomId}" not found`;
+        const error: ErrorMsg = { type: "error", code: "invalid_room", message };
+        console.log(`[server] ${profile.name} asked for ${requestedRoomId}: ${message}`);
+        ws.send(JSON.stringify(error));
+        if (capabilities.includes("rooms")) sendWelcome(undefined);
+        else ws.close(CLOSE_ROOM_CLOSED, "no such room");
       }
     }
 
-    if (msg.type === "turn" && me) {
-      const t = msg as TurnMsg;
-      if (t.dir === -1 || t.dir === 0 || t.dir === 1) me.turn = t.dir;
+    if (msg.type === "joinRoom" || msg.type === "leaveRoom") {
+      if (!profile) return reject(`${msg.type} before hello`);
     }
 
-    if (msg.type === "boost" && me) {
-      const b = msg as BoostMsg;
-      me.boosting = b.boosting;
+    if (msg.type === "joinRoom") {
+      const mode = msg.mode || "playing";
+      const room = rooms.get(msg.roomId);
+      let refused: ErrorMsg | null = null;
+      if (!room) {
+        const remote = directory?.remoteRooms.some(r => r.id === msg.roomId);
+        const message = remote ? `Room "${msg.roomId}" runs on another server` : `Room "${msg.roomId}" not found`;
+        refused = { type: "error", code: "invalid_room", message };
+      } else if (mode === "playing" && joinQueue.isFull(room.id)) {
+        refused = { type: "error", code: "room_full", message: `${room.config.name} is full and its queue is too` };
+      }
+      // Refused players stay where they were
+      if (refused) {
+        ws.send(JSON.stringify(refused));
+        return;
+      }
+      
+      leaveRoom("left");
+      enterRoom(room!, mode);
     }
 
-    if (msg.type === "respawn" && me && !me.alive) {
-      // Get world from chill room
-      const chillRoom = rooms.get("chill");
-      const world = chillRoom ? chillRoom.config.world : WORLD;
-      
-      // Reset to baby worm state
-      me.pos = { x: Math.random() * world.width, y: Math.random() * world.height };
-      me.angle = Math.random() * Math.PI * 2;
-      me.body = [];        // Baby worm - no body segments
-      me.score = 10;       // Reset to starting score
-      me.alive = true;     // Back to life
-      me.turn = 0;         // Reset turn state
-      me.boosting = false; // Reset boost state
-      me.thickness = 14;   // Reset thickness to default
-      
-      console.log(`[respawn] ${me.name} respawned as baby worm at (${Math.round(me.pos.x)}, ${Math.round(me.pos.y)})`);
+    if (msg.type === "leaveRoom") {
+      const roomId = currentRoomId;
+      leaveRoom("left");
+      if (roomId) {
+        const left: RoomLeftMsg = { type: "roomLeft", roomId };
+        ws.send(JSON.stringify(left));
+        console.log(`[server] ${profile?.name} back in the lobby`);
+      }
+    }
+
+    if (msg.type === "ping") {
+      const pong: PongMsg = { type: "pong", id: msg.id, clientTime: msg.clientTime, serverTime: Date.now() };
+      ws.send(JSON.stringify(pong));
+    }
+
+    // Inputs, acks and view updates go to the room's simulation
+    const room = currentRoomId ? rooms.get(currentRoomId) : undefined;
+    if (
+      room &&
+      (msg.type === "turn" || msg.type === "steer" || msg.type === "boost" ||
+       msg.type === "respawn" || msg.type === "ack" || msg.type === "view")
+    ) {
+      room.pool.post({ type: "client", roomId: room.id, conn: id, msg });
     }
     
     // Handle admin commands
-    if (msg.type && msg.type.startsWith("admin:")) {
+    if (isAdminMsg(msg)) {
       handleAdminCommand(ws, msg, isAdmin);
     }
   });
@@ -961,26 +986,14 @@ wss.on("connection", (ws) => {
   ws.on("close", () => {
     console.log("[server] socket closed");
     
-    // Clean up from legacy global state
-    if (me) players.delete(me.id);
-    
-    // Clean up from room state
-    if (currentRoomId && me) {
-      const room = rooms.get(currentRoomId);
-      if (room) {
-        room.gameState.activePlayers.delete(me.id);
-        console.log(`[server] Removed ${me.name} from ${room.config.name}`);
-      }
-    }
+    // Leave the room; a worm is held for a while so the player can resume
+    leaveRoom("closed");
     
     // Clean up tracking
-    if (currentRoomId) {
-      socketToRoom.delete(id);
-    }
+    connections.delete(id);
+    connectionStates.delete(ws);
     if (isAdmin) {
       adminSockets.delete(id);
     }
-    
-    me = null;
   });
 });
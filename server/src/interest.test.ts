@@ -0,0 +1,99 @@
+// server/src/interest.test.ts
+import { describe, it, expect } from 'vitest';
+import type { Snapshot, PlayerView, Vec } from '../../client/src/net/protocol';
+import { cullSnapshot, cameraCenter, clampView, DEFAULT_VIEW, VIEW_MARGIN } from './interest';
+
+const world = { width: 2500, height: 1500 };
+const view = { width: 800, height: 600 };
+
+function worm(id: string, head: Vec, body: Vec[] = [head]): PlayerView {
+  return { id, name: id, color: '#fff', head: { pos: head, angle: 0 }, body, score: 10, alive: true };
+}
+
+function snapshot(players: PlayerView[], foods: Vec[] = []): Snapshot {
+  return { t: 0, world, players, foods };
+}
+
+describe('Area of Interest', () => {
+  describe('cameraCenter', () => {
+    it('should center on the head away from the edges', () => {
+      expect(cameraCenter({ x: 1200, y: 700 }, view, world)).toEqual({ x: 1200, y: 700 });
+    });
+
+    it('should clamp like the client camera near the edges', () => {
+      expect(cameraCenter({ x: 10, y: 1490 }, view, world)).toEqual({ x: 400, y: 1200 });
+    });
+
+    it('should center on the world when the view is larger than it', () => {
+      expect(cameraCenter({ x: 10, y: 10 }, { width: 4000, height: 2400 }, world)).toEqual({ x: 1250, y: 750 });
+    });
+  });
+
+  describe('cullSnapshot', () => {
+    it('should keep food inside the view and drop food outside it', () => {
+      const me = worm('me', { x: 1200, y: 700 });
+      const near = { x: 1300, y: 750 };
+      const far = { x: 100, y: 100 };
+      const culled = cullSnapshot(snapshot([me], [near, far]), 'me', view);
+
+      expect(culled.foods).toEqual([near]);
+    });
+
+    it('should include the margin around the view', () => {
+      const me = worm('me', { x: 1200, y: 700 });
+      const edge = { x: 1200 + view.width / 2 + VIEW_MARGIN - 1, y: 700 };
+      const culled = cullSnapshot(snapshot([me], [edge]), 'me', view);
+
+      expect(culled.foods).toEqual([edge]);
+    });
+
+    it('should summarize players outside the view', () => {
+      const me = worm('me', { x: 1200, y: 700 });
+      const other = { ...worm('other', { x: 100, y: 100 }), score: 55 };
+      const culled = cullSnapshot(snapshot([me, other]), 'me', view);
+
+      expect(culled.players.map(p => p.id)).toEqual(['me']);
+      expect(culled.offscreen).toEqual([{ id: 'other', name: 'other', score: 55, alive: true }]);
+    });
+
+    it('should keep players whose body crosses the view', () => {
+      const me = worm('me', { x: 1200, y: 700 });
+      const body = Array.from({ length: 200 }, (_, i) => ({ x: 100 + i * 5, y: 700 }));
+      const longWorm = worm('long', body[0], body);
+      const culled = cullSnapshot(snapshot([me, longWorm]), 'me', view);
+
+      expect(culled.players.map(p => p.id)).toEqual(['me', 'long']);
+      expect(culled.offscreen).toBeUndefined();
+    });
+
+    it('should be wrap-aware', () => {
+      // Camera clamps to x = 400, so the view spans x -200..1000 with margin
+      const me = worm('me', { x: 50, y: 700 });
+      const acrossEdge = { x: 2450, y: 700 };
+      const culled = cullSnapshot(snapshot([me], [acrossEdge]), 'me', view);
+
+      expect(culled.foods).toEqual([acrossEdge]);
+    });
+
+    it('should filter bonus food and drop the field when none is visible', () => {
+      const me = worm('me', { x: 1200, y: 700 });
+      const snap = snapshot([me]);
+      snap.bonusFood = [{ x: 100, y: 100, type: 'bug', value: 5 }];
+
+      expect(cullSnapshot(snap, 'me', view).bonusFood).toBeUndefined();
+    });
+
+    it('should return the full snapshot when the viewer is not playing', () => {
+      const snap = snapshot([worm('a', { x: 1, y: 1 })], [{ x: 2000, y: 1000 }]);
+      expect(cullSnapshot(snap, 'spectator', view)).toBe(snap);
+    });
+  });
+
+  describe('clampView', () => {
+    it('should bound client-reported views', () => {
+      expect(clampView(100000, 100000)).toEqual({ width: 4000, height: 2400 });
+      expect(clampView(1, 1)).toEqual({ width: 320, height: 240 });
+      expect(clampView(NaN, 500)).toEqual(DEFAULT_VIEW);
+    });
+  });
+});
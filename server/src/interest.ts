@@ -0,0 +1,72 @@
+// server/src/interest.ts
+// Area-of-interest culling: trims a room snapshot down to what one player can see.
+
+import type { Snapshot, PlayerView, PlayerSummary, Vec, WorldView } from "../../client/src/net/protocol";
+import { torusDelta } from "../../shared/engine/math.js";
+
+export type ViewExtent = { width: number; height: number };
+
+// Used until the client reports its own view (zoom 1.0 on a typical laptop screen)
+export const DEFAULT_VIEW: ViewExtent = { width: 1600, height: 1000 };
+const MIN_VIEW: ViewExtent = { width: 320, height: 240 };
+const MAX_VIEW: ViewExtent = { width: 4000, height: 2400 };
+
+// Extra world units around the view so things don't pop in at the screen edge
+export const VIEW_MARGIN = 200;
+
+/** Sanitize a client-reported view extent */
+export function clampView(width: number, height: number): ViewExtent {
+  if (!Number.isFinite(width) || !Number.isFinite(height)) return DEFAULT_VIEW;
+  return {
+    width: Math.max(MIN_VIEW.width, Math.min(MAX_VIEW.width, width)),
+    height: Math.max(MIN_VIEW.height, Math.min(MAX_VIEW.height, height)),
+  };
+}
+
+// Camera center along one axis; the client camera is clamped to the world edges
+function cameraAxis(head: number, half: number, size: number): number {
+  if (half * 2 >= size) return size / 2;
+  return Math.max(half, Math.min(head, size - half));
+}
+
+/** Center of the recipient's camera, matching the camera in Game.tsx */
+export function cameraCenter(head: Vec, view: ViewExtent, world: WorldView): Vec {
+  return {
+    x: cameraAxis(head.x, view.width / 2, world.width),
+    y: cameraAxis(head.y, view.height / 2, world.height),
+  };
+}
+
+function summarize(p: PlayerView): PlayerSummary {
+  return { id: p.id, name: p.name, score: p.score, alive: p.alive };
+}
+
+/** Snapshot as seen by `selfId`: nearby players and food, the rest summarized */
+export function cullSnapshot(snap: Snapshot, selfId: string, view: ViewExtent): Snapshot {
+  const self = snap.players.find(p => p.id === selfId);
+  if (!self) return snap;
+
+  const world = snap.world;
+  const center = cameraCenter(self.head.pos, view, world);
+  const halfW = view.width / 2 + VIEW_MARGIN;
+  const halfH = view.height / 2 + VIEW_MARGIN;
+
+  // Wrap-aware containment test
+  const inView = (p: Vec) =>
+    Math.abs(torusDelta(center.x, p.x, world.width)) <= halfW &&
+    Math.abs(torusDelta(center.y, p.y, world.height)) <= halfH;
+
+  const players: PlayerView[] = [];
+  const offscreen: PlayerSummary[] = [];
+  for (const p of snap.players) {
+    if (p.id === selfId || inView(p.head.pos) || p.body.some(inView)) players.push(p);
+    else offscreen.push(summarize(p));
+  }
+
+  const culled: Snapshot = { ...snap, players, foods: snap.foods.filter(inView) };
+  const bonusFood = snap.bonusFood?.filter(inView);
+  if (bonusFood && bonusFood.length > 0) culled.bonusFood = bonusFood;
+  else delete culled.bonusFood;
+  if (offscreen.length > 0) culled.offscreen = offscreen;
+  return culled;
+}
@@ -0,0 +1,122 @@
+// server/src/interpolation.test.ts
+import { describe, it, expect } from 'vitest';
+import type { Snapshot, PlayerView, Vec } from '../../client/src/net/protocol';
+import { SnapshotBuffer, interpolate, extrapolate } from '../../client/src/engine/interpolation';
+
+const world = { width: 2000, height: 1200 };
+const TICK = 1000 / 30;
+
+function worm(head: Vec, angle = 0, body: Vec[] = [head]): PlayerView {
+  return { id: 'w', name: 'w', color: '#fff', head: { pos: head, angle }, body, score: 10, alive: true };
+}
+
+function snapshot(t: number, players: PlayerView[]): Snapshot {
+  return { t, world, players, foods: [] };
+}
+
+// A worm moving 4 units per tick along x, with server time `tick * TICK`
+function movingSnapshot(tick: number): Snapshot {
+  const x = 100 + tick * 4;
+  return snapshot(tick * TICK, [worm({ x, y: 100 }, 0, [{ x, y: 100 }, { x: x - 4, y: 100 }])]);
+}
+
+describe('Snapshot Interpolation', () => {
+  describe('interpolate', () => {
+    it('should blend heads, angles and body points', () => {
+      const a = snapshot(0, [worm({ x: 100, y: 100 }, 0, [{ x: 100, y: 100 }, { x: 90, y: 100 }])]);
+      const b = snapshot(TICK, [worm({ x: 110, y: 120 }, 1, [{ x: 110, y: 120 }, { x: 100, y: 100 }])]);
+      const p = interpolate(a, b, 0.5).players[0];
+
+      expect(p.head.pos).toEqual({ x: 105, y: 110 });
+      expect(p.head.angle).toBeCloseTo(0.5);
+      expect(p.body).toEqual([{ x: 105, y: 110 }, { x: 95, y: 100 }]);
+    });
+
+    it('should take the short way across the world edge', () => {
+      const a = snapshot(0, [worm({ x: 1996, y: 1198 })]);
+      const b = snapshot(TICK, [worm({ x: 4, y: 2 })]);
+      const p = interpolate(a, b, 0.25).players[0];
+
+      expect(p.head.pos.x).toBeCloseTo(1998);
+      expect(p.head.pos.y).toBeCloseTo(1199);
+    });
+
+    it('should turn the short way round', () => {
+      const a = snapshot(0, [worm({ x: 0, y: 0 }, 3 * Math.PI / 2 + 0.1)]);
+      const b = snapshot(TICK, [worm({ x: 0, y: 0 }, 0.1 + 4 * Math.PI)]);
+      const p = interpolate(a, b, 0.5).players[0];
+
+      expect(Math.cos(p.head.angle)).toBeCloseTo(Math.cos(7 * Math.PI / 4 + 0.1));
+      expect(Math.sin(p.head.angle)).toBeCloseTo(Math.sin(7 * Math.PI / 4 + 0.1));
+    });
+
+    it('should not interpolate respawns or new players', () => {
+      const a = snapshot(0, [worm({ x: 100, y: 100 })]);
+      const b = snapshot(TICK, [worm({ x: 1500, y: 900 }), { ...worm({ x: 5, y: 5 }), id: 'new' }]);
+      const players = interpolate(a, b, 0.5).players;
+
+      expect(players[0].head.pos).toEqual({ x: 1500, y: 900 });
+      expect(players[1].head.pos).toEqual({ x: 5, y: 5 });
+    });
+  });
+
+  describe('extrapolate', () => {
+    it('should keep worms moving at their last velocity', () => {
+      const p = extrapolate(movingSnapshot(0), movingSnapshot(1), TICK / 2).players[0];
+
+      expect(p.head.pos.x).toBeCloseTo(106);
+      expect(p.body[1].x).toBeCloseTo(102);
+    });
+  });
+
+  describe('SnapshotBuffer', () => {
+    it('should return nothing before the first snapshot', () => {
+      expect(new SnapshotBuffer().sample(0)).toBeNull();
+    });
+
+    it('should render between snapshots with a steady delay', () => {
+      const buffer = new SnapshotBuffer();
+      // Perfectly regular arrivals 50 ms after the server time
+      for (let tick = 0; tick <= 60; tick++) buffer.push(movingSnapshot(tick), tick * TICK + 50);
+
+      const now = 60 * TICK + 50;
+      const renderT = now - 50 - buffer.delayMs;
+      const x = buffer.sample(now)!.players[0].head.pos.x;
+
+      expect(buffer.delayMs).toBeGreaterThan(TICK * 0.9);
+      expect(buffer.delayMs).toBeLessThan(100);
+      expect(x).toBeCloseTo(100 + (renderT / TICK) * 4, 3);
+    });
+
+    it('should raise the delay when arrivals are jittery', () => {
+      const steady = new SnapshotBuffer();
+      const jittery = new SnapshotBuffer();
+      for (let tick = 0; tick <= 120; tick++) {
+        steady.push(movingSnapshot(tick), tick * TICK + 50);
+        jittery.push(movingSnapshot(tick), tick * TICK + 50 + (tick % 3) * 40);
+      }
+
+      expect(jittery.delayMs).toBeGreaterThan(steady.delayMs + 40);
+    });
+
+    it('should extrapolate briefly when snapshots stop arriving', () => {
+      const buffer = new SnapshotBuffer();
+      for (let tick = 0; tick <= 60; tick++) buffer.push(movingSnapshot(tick), tick * TICK + 50);
+
+      const newestX = 100 + 60 * 4;
+      const soon = buffer.sample(60 * TICK + 50 + buffer.delayMs + 50)!.players[0].head.pos.x;
+      const later = buffer.sample(60 * TICK + 50 + buffer.delayMs + 1000)!.players[0].head.pos.x;
+
+      expect(soon).toBeCloseTo(newestX + 6, 1);
+      expect(later).toBeCloseTo(newestX + 12, 1); // capped at 100 ms
+    });
+
+    it('should ignore out-of-order snapshots', () => {
+      const buffer = new SnapshotBuffer();
+      buffer.push(movingSnapshot(2), 2 * TICK);
+      buffer.push(movingSnapshot(1), 2 * TICK + 1);
+
+      expect(buffer.sample(0)!.t).toBe(2 * TICK);
+    });
+  });
+});
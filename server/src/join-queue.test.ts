@@ -0,0 +1,68 @@
+// server/src/join-queue.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { JoinQueue, MAX_QUEUE_LENGTH } from './join-queue';
+
+function entry(conn: string, admitted: string[] = []) {
+  return { conn, admit: () => { admitted.push(conn); } };
+}
+
+describe('Join Queue', () => {
+  it('should hand out positions in arrival order, per room', () => {
+    const queue = new JoinQueue();
+
+    expect(queue.add('deathmatch', entry('a'))).toBe(1);
+    expect(queue.add('deathmatch', entry('b'))).toBe(2);
+    expect(queue.add('arena1', entry('c'))).toBe(1);
+    expect(queue.waiting('deathmatch')).toEqual(['a', 'b']);
+    expect(queue.length('arena1')).toBe(1);
+  });
+
+  it('should admit from the front while there are slots', () => {
+    const queue = new JoinQueue();
+    const admitted: string[] = [];
+    for (const conn of ['a', 'b', 'c']) queue.add('deathmatch', entry(conn, admitted));
+
+    let slots = 2;
+    expect(queue.admitNext('deathmatch', () => slots-- > 0)).toEqual(['a', 'b']);
+    expect(admitted).toEqual(['a', 'b']);
+    expect(queue.waiting('deathmatch')).toEqual(['c']);
+  });
+
+  it('should admit nobody while the room is full', () => {
+    const queue = new JoinQueue();
+    const admit = vi.fn();
+    queue.add('deathmatch', { conn: 'a', admit });
+
+    expect(queue.admitNext('deathmatch', () => false)).toEqual([]);
+    expect(queue.admitNext('nowhere', () => true)).toEqual([]);
+    expect(admit).not.toHaveBeenCalled();
+  });
+
+  it('should move everyone behind a leaving player up', () => {
+    const queue = new JoinQueue();
+    for (const conn of ['a', 'b', 'c']) queue.add('deathmatch', entry(conn));
+
+    expect(queue.remove('b')).toBe('deathmatch');
+    expect(queue.remove('b')).toBeNull();
+    expect(queue.waiting('deathmatch')).toEqual(['a', 'c']);
+  });
+
+  it('should turn players away once the queue is full', () => {
+    const queue = new JoinQueue();
+    for (let i = 0; i < MAX_QUEUE_LENGTH; i++) queue.add('deathmatch', entry(`p${i}`));
+
+    expect(queue.isFull('deathmatch')).toBe(true);
+    expect(queue.add('deathmatch', entry('late'))).toBeNull();
+    expect(queue.isFull('arena1')).toBe(false);
+    expect(queue.add('arena1', entry('late'))).toBe(1);
+  });
+
+  it('should forget a deleted room\'s queue', () => {
+    const queue = new JoinQueue();
+    queue.add('deathmatch', entry('a'));
+    queue.add('deathmatch', entry('b'));
+
+    expect(queue.clear('deathmatch')).toEqual(['a', 'b']);
+    expect(queue.length('deathmatch')).toBe(0);
+  });
+});
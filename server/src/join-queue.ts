@@ -0,0 +1,72 @@
+// server/src/join-queue.ts
+// Players waiting for a slot in a full room, first come first served.
+//
+// Queued connections spectate the room while they wait. Whenever a slot may
+// have opened (a worm left, or maxPlayers went up) the server calls
+// admitNext(), which runs the front entries' admit callbacks.
+
+export const MAX_QUEUE_LENGTH = 50; // per room; players beyond this are turned away
+
+export type QueueEntry = {
+  conn: string;
+  admit: () => void;      // spawn the worm and tell the client it's in
+};
+
+export class JoinQueue {
+  private queues = new Map<string, QueueEntry[]>();
+
+  /** Queue a connection for a room; returns its 1-based position, or null if the queue is full */
+  add(roomId: string, entry: QueueEntry): number | null {
+    const queue = this.queues.get(roomId) ?? [];
+    if (queue.length >= MAX_QUEUE_LENGTH) return null;
+    queue.push(entry);
+    this.queues.set(roomId, queue);
+    return queue.length;
+  }
+
+  /** Take a connection out of whatever queue it's in; returns the room it was waiting for */
+  remove(conn: string): string | null {
+    for (const [roomId, queue] of this.queues) {
+      const index = queue.findIndex(e => e.conn === conn);
+      if (index === -1) continue;
+      queue.splice(index, 1);
+      if (queue.length === 0) this.queues.delete(roomId);
+      return roomId;
+    }
+    return null;
+  }
+
+  /** Admit queued players while `hasSlot` says there's room; returns the connections admitted */
+  admitNext(roomId: string, hasSlot: () => boolean): string[] {
+    const queue = this.queues.get(roomId);
+    const admitted: string[] = [];
+    while (queue && queue.length > 0 && hasSlot()) {
+      const entry = queue.shift()!;
+      entry.admit();
+      admitted.push(entry.conn);
+    }
+    if (queue?.length === 0) this.queues.delete(roomId);
+    return admitted;
+  }
+
+  /** Queued connections in order, e.g. to send them their positions */
+  waiting(roomId: string): string[] {
+    return (this.queues.get(roomId) ?? []).map(e => e.conn);
+  }
+
+  length(roomId: string): number {
+    return this.queues.get(roomId)?.length ?? 0;
+  }
+
+  /** True if new players for the room would be turned away */
+  isFull(roomId: string): boolean {
+    return this.length(roomId) >= MAX_QUEUE_LENGTH;
+  }
+
+  /** Forget a room's queue (the room is gone); returns the connections that were waiting */
+  clear(roomId: string): string[] {
+    const conns = this.waiting(roomId);
+    this.queues.delete(roomId);
+    return conns;
+  }
+}
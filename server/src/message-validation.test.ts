@@ -0,0 +1,108 @@
+// server/src/message-validation.test.ts
+import { describe, it, expect } from 'vitest';
+import { validateClientMessage, isAdminMsg, MAX_NAME_LENGTH } from '../../client/src/net/validate';
+
+describe('Client Message Validation', () => {
+  it('should accept a well-formed hello', () => {
+    const hello = {
+      type: 'hello', name: 'Josie', color: '#22cc88', avatar: '/avatars/rdc-bloop.svg',
+      roomId: 'chill', mode: 'playing', protocol: 2, capabilities: ['binary', 'delta'],
+    };
+
+    expect(validateClientMessage(hello)).toEqual({ ok: true, msg: hello });
+  });
+
+  it('should strip fields that are not in the schema', () => {
+    const result = validateClientMessage({ type: 'turn', dir: 1, speed: 99, admin: true });
+
+    expect(result).toEqual({ ok: true, msg: { type: 'turn', dir: 1 } });
+  });
+
+  it('should treat null optional fields as absent', () => {
+    const result = validateClientMessage({ type: 'hello', name: 'a', color: '#fff', avatar: null });
+
+    expect(result).toEqual({ ok: true, msg: { type: 'hello', name: 'a', color: '#fff' } });
+  });
+
+  it('should reject non-objects and unknown types', () => {
+    expect(validateClientMessage('hello').ok).toBe(false);
+    expect(validateClientMessage(null).ok).toBe(false);
+    expect(validateClientMessage([{ type: 'turn' }]).ok).toBe(false);
+    expect(validateClientMessage({ type: 'teleport' }).ok).toBe(false);
+    expect(validateClientMessage({ type: 'toString' }).ok).toBe(false);
+    expect(validateClientMessage({ dir: 1 }).ok).toBe(false);
+  });
+
+  it('should reject missing required fields', () => {
+    const result = validateClientMessage({ type: 'boost' });
+
+    expect(result).toEqual({ ok: false, error: 'boost.boosting is required' });
+  });
+
+  it('should reject wrong field types', () => {
+    expect(validateClientMessage({ type: 'boost', boosting: 'yes' }).ok).toBe(false);
+    expect(validateClientMessage({ type: 'hello', name: 42, color: '#fff' }).ok).toBe(false);
+    expect(validateClientMessage({ type: 'admin:endRound', roomId: ['arena1'] }).ok).toBe(false);
+  });
+
+  it('should only accept turn directions of -1, 0 and 1', () => {
+    expect(validateClientMessage({ type: 'turn', dir: -1 }).ok).toBe(true);
+    expect(validateClientMessage({ type: 'turn', dir: 2 }).ok).toBe(false);
+    expect(validateClientMessage({ type: 'turn', dir: '1' }).ok).toBe(false);
+  });
+
+  it('should only accept steering headings between -PI and PI', () => {
+    expect(validateClientMessage({ type: 'steer', angle: -Math.PI, seq: 3 }).ok).toBe(true);
+    expect(validateClientMessage({ type: 'steer', angle: 7 }).ok).toBe(false);
+    expect(validateClientMessage({ type: 'steer', angle: NaN }).ok).toBe(false);
+  });
+
+  it('should reject non-finite, fractional and out-of-range numbers', () => {
+    expect(validateClientMessage({ type: 'view', width: Infinity, height: 600 }).ok).toBe(false);
+    expect(validateClientMessage({ type: 'view', width: -1, height: 600 }).ok).toBe(false);
+    expect(validateClientMessage({ type: 'ack', seq: 1.5 }).ok).toBe(false);
+    expect(validateClientMessage({ type: 'hello', name: 'a', color: '#fff', protocol: 1e9 }).ok).toBe(false);
+  });
+
+  it('should bound string lengths', () => {
+    const ok = validateClientMessage({ type: 'hello', name: 'x'.repeat(MAX_NAME_LENGTH), color: '#fff' });
+    const tooLong = validateClientMessage({ type: 'hello', name: 'x'.repeat(MAX_NAME_LENGTH + 1), color: '#fff' });
+
+    expect(ok.ok).toBe(true);
+    expect(tooLong.ok).toBe(false);
+    if (!tooLong.ok) expect(tooLong.error).toMatch(/hello\.name/);
+  });
+
+  it('should bound string lists', () => {
+    const many = Array.from({ length: 100 }, (_, i) => `arena${i}`);
+
+    expect(validateClientMessage({ type: 'admin:startTournament', roomIds: many }).ok).toBe(false);
+    expect(validateClientMessage({ type: 'admin:startTournament', roomIds: ['arena1', 7] }).ok).toBe(false);
+    expect(validateClientMessage({ type: 'admin:startTournament' }).ok).toBe(true);
+  });
+
+  it('should validate room ids and world sizes for admin:createRoom', () => {
+    const create = { type: 'admin:createRoom', id: 'arena-4', name: 'Arena 4', roomType: 'casual', width: 2000, height: 1200, maxPlayers: 20 };
+
+    expect(validateClientMessage(create).ok).toBe(true);
+    expect(validateClientMessage({ ...create, id: 'Arena 4' }).ok).toBe(false);
+    expect(validateClientMessage({ ...create, roomType: 'ranked' }).ok).toBe(false);
+    expect(validateClientMessage({ ...create, width: 100000 }).ok).toBe(false);
+    expect(validateClientMessage({ ...create, maxPlayers: 0 }).ok).toBe(false);
+  });
+
+  it('should validate room switches', () => {
+    expect(validateClientMessage({ type: 'joinRoom', roomId: 'arena1', mode: 'spectating' }).ok).toBe(true);
+    expect(validateClientMessage({ type: 'joinRoom', roomId: 'arena1', mode: 'watching' }).ok).toBe(false);
+    expect(validateClientMessage({ type: 'joinRoom' })).toEqual({ ok: false, error: 'joinRoom.roomId is required' });
+    expect(validateClientMessage({ type: 'leaveRoom', roomId: 'arena1' })).toEqual({ ok: true, msg: { type: 'leaveRoom' } });
+  });
+
+  it('should identify admin commands', () => {
+    const admin = validateClientMessage({ type: 'admin:getRoomStatus' });
+    const turn = validateClientMessage({ type: 'turn', dir: 0 });
+
+    expect(admin.ok && isAdminMsg(admin.msg)).toBe(true);
+    expect(turn.ok && isAdminMsg(turn.msg)).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+// server/src/net-stats.test.ts
+import { describe, it, expect } from 'vitest';
+import { NetStats } from '../../client/src/net/stats';
+import type { PongMsg } from '../../client/src/net/protocol';
+
+const ORIGIN = 1_700_000_000_000; // wall-clock time of performance.now() == 0
+
+const pong = (id: number, clientTime: number, serverTime: number): PongMsg =>
+  ({ type: 'pong', id, clientTime, serverTime });
+
+describe('Net Stats', () => {
+  it('should report nothing before the first pong', () => {
+    const stats = new NetStats(ORIGIN);
+    const s = stats.summary(0);
+
+    expect(s.rtt).toBeNull();
+    expect(s.jitter).toBeNull();
+    expect(s.clockOffset).toBeNull();
+    expect(s.snapshotsPerSecond).toBe(0);
+    expect(s.snapshotBytes).toBe(0);
+  });
+
+  it('should measure RTT from the echoed client time', () => {
+    const stats = new NetStats(ORIGIN);
+    stats.pong(pong(1, 1000, ORIGIN + 1040), 1080);
+
+    expect(stats.summary(1080).rtt).toBe(80);
+  });
+
+  it('should ignore pongs that claim to arrive before they were sent', () => {
+    const stats = new NetStats(ORIGIN);
+    stats.pong(pong(1, 2000, ORIGIN + 2000), 1500);
+
+    expect(stats.summary(1500).rtt).toBeNull();
+  });
+
+  it('should smooth jitter across RTT changes', () => {
+    const stats = new NetStats(ORIGIN);
+    stats.pong(pong(1, 0, ORIGIN), 50);
+    expect(stats.summary(50).jitter).toBeNull(); // needs two samples
+
+    stats.pong(pong(2, 1000, ORIGIN + 1000), 1082); // RTT 50 -> 82
+    expect(stats.summary(1082).jitter).toBe(32);
+
+    stats.pong(pong(3, 2000, ORIGIN + 2000), 2050); // RTT 82 -> 50, change 32
+    stats.pong(pong(4, 3000, ORIGIN + 3000), 3050); // no change
+    const jitter = stats.summary(3050).jitter!;
+    expect(jitter).toBeLessThan(32);
+    expect(jitter).toBeCloseTo(32 * (15 / 16), 5);
+  });
+
+  it('should estimate clock offset from the fastest round trip', () => {
+    const SERVER_AHEAD = 250;
+    const stats = new NetStats(ORIGIN);
+
+    // Symmetric 20ms round trip: server stamps at the midpoint
+    stats.pong(pong(1, 1000, ORIGIN + 1010 + SERVER_AHEAD), 1020);
+    // Slow, lopsided round trip (stuck on the way back) would skew the estimate
+    stats.pong(pong(2, 2000, ORIGIN + 2010 + SERVER_AHEAD), 2300);
+
+    expect(stats.summary(2300).clockOffset).toBeCloseTo(SERVER_AHEAD, 5);
+    expect(stats.summary(2300).rtt).toBe(300);
+  });
+
+  it('should forget round trips outside the window', () => {
+    const stats = new NetStats(ORIGIN);
+    stats.pong(pong(0, 0, ORIGIN + 5 + 100), 10); // fast sample, offset 100
+
+    for (let i = 1; i <= 10; i++) {
+      const sent = i * 1000;
+      stats.pong(pong(i, sent, ORIGIN + sent + 20 - 40), sent + 40); // offset -40
+    }
+
+    expect(stats.summary(10_040).clockOffset).toBeCloseTo(-40, 5);
+  });
+
+  it('should report snapshot rate and average size over the last second', () => {
+    const stats = new NetStats(ORIGIN);
+    for (let i = 0; i < 20; i++) stats.snapshot(i % 2 === 0 ? 100 : 300, i * 50);
+
+    const s = stats.summary(999);
+    expect(s.snapshotsPerSecond).toBe(20);
+    expect(s.snapshotBytes).toBe(200);
+
+    // Snapshots stop: everything ages out of the window
+    expect(stats.summary(2000).snapshotsPerSecond).toBe(0);
+    expect(stats.summary(2000).snapshotBytes).toBe(0);
+  });
+});
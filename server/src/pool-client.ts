@@ -0,0 +1,59 @@
+// server/src/pool-client.ts
+// How the server reaches a RoomPool: directly on the main thread, or through
+// postMessage to a worker thread running room-worker.ts.
+
+import { Worker } from "worker_threads";
+import { RoomPool, type PoolCommand, type PoolEvent } from "./room-pool.js";
+
+export interface PoolClient {
+  readonly name: string;   // for logs
+  post(cmd: PoolCommand): void;
+  stop(): void;
+}
+
+/** A pool on the main thread; events are delivered synchronously */
+export function localPool(onEvent: (event: PoolEvent) => void): PoolClient {
+  const pool = new RoomPool(onEvent);
+  pool.start();
+  return {
+    name: "main",
+    post: (cmd) => pool.handle(cmd),
+    stop: () => pool.stop(),
+  };
+}
+
+/**
+ * A pool in its own worker thread. `onExit` runs if the worker dies (an
+ * uncaught error or crash), not after stop().
+ */
+export function spawnRoomWorker(
+  index: number, onEvent: (event: PoolEvent) => void, onExit: (code: number) => void
+): PoolClient {
+  const worker = startWorker();
+  let stopping = false;
+
+  worker.on("message", onEvent);
+  worker.on("error", (err) => console.error(`[workers] worker ${index} failed:`, err));
+  worker.on("exit", (code) => {
+    if (!stopping) onExit(code);
+  });
+
+  return {
+    name: `worker ${index}`,
+    post: (cmd) => worker.postMessage(cmd),
+    stop: () => {
+      stopping = true;
+      void worker.terminate();
+    },
+  };
+}
+
+function startWorker(): Worker {
+  // Under tsx (development) the worker is TypeScript and needs tsx's loader registered first
+  if (import.meta.url.endsWith(".ts")) {
+    const entry = new URL("./room-worker.ts", import.meta.url).href;
+    const bootstrap = `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(entry)}); })`;
+    return new Worker(bootstrap, { eval: true });
+  }
+  return new Worker(new URL("./room-worker.js", import.meta.url));
+}
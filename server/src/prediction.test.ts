@@ -0,0 +1,184 @@
+// server/src/prediction.test.ts
+import { describe, it, expect } from 'vitest';
+import type { Snapshot, Vec } from '../../client/src/net/protocol';
+import { Predictor, TICK_MS, type InputChange } from '../../client/src/engine/prediction';
+import { moveWorm, calculateBodyLength, type MovingWorm } from '../../client/src/engine/movement';
+import { TURN_SPEED, BASE_SPEED } from './game-engine';
+
+const world = { width: 2000, height: 1200 };
+const START = 1000;
+
+// Frame times half a tick past each tick boundary, so rounding never drops a tick
+const at = (ticks: number) => START + (ticks + 0.5) * TICK_MS;
+
+type ServerWorm = MovingWorm & { body: Vec[]; inputSeq: number; inputTicks: number; alive: boolean };
+
+function serverWorm(pos: Vec = { x: 500, y: 500 }): ServerWorm {
+  return { pos: { ...pos }, angle: 0, speed: BASE_SPEED, score: 50, turn: 0, boosting: false, body: [], inputSeq: 0, inputTicks: 0, alive: true };
+}
+
+// The movement part of stepRoom plus the input echo bookkeeping
+function stepServer(w: ServerWorm) {
+  moveWorm(w, world);
+  w.body.unshift({ ...w.pos });
+  w.body.length = Math.min(w.body.length, calculateBodyLength(w.score));
+  w.inputTicks++;
+}
+
+function snapshotOf(w: ServerWorm): Snapshot {
+  return {
+    t: 0, world, foods: [],
+    players: [{
+      id: 'me', name: 'me', color: '#fff',
+      head: { pos: { ...w.pos }, angle: w.angle },
+      body: w.body.map(p => ({ ...p })),
+      score: w.score, alive: w.alive, boosting: w.boosting,
+    }],
+    inputSeq: w.inputSeq,
+    inputTicks: w.inputTicks,
+  };
+}
+
+function startPredicting(w: ServerWorm) {
+  const predictor = new Predictor('me');
+  predictor.reconcile(snapshotOf(w));
+  predictor.predict(START);
+  return predictor;
+}
+
+describe('Client-Side Prediction', () => {
+  it('should not predict without an input echo from the server', () => {
+    const predictor = new Predictor('me');
+    const snap = snapshotOf(serverWorm());
+    delete snap.inputSeq;
+    predictor.reconcile(snap);
+
+    expect(predictor.predict(START)).toBeNull();
+  });
+
+  it('should advance at the server tick rate', () => {
+    const predictor = startPredicting(serverWorm());
+    const view = predictor.predict(at(3))!;
+
+    expect(view.head.pos.x).toBeCloseTo(500 + 3 * BASE_SPEED);
+    expect(view.body).toHaveLength(3);
+  });
+
+  it('should apply inputs immediately and number them', () => {
+    const predictor = startPredicting(serverWorm());
+
+    expect(predictor.input({ turn: 1 })).toBe(1);
+    expect(predictor.input({ boosting: true })).toBe(2);
+    const view = predictor.predict(at(1))!;
+
+    expect(view.head.angle).toBeCloseTo(TURN_SPEED);
+    expect(view.boosting).toBe(true);
+  });
+
+  it('should replay only the ticks the server has not simulated', () => {
+    const server = serverWorm();
+    const predictor = startPredicting(server);
+    predictor.predict(at(3));
+
+    stepServer(server);
+    predictor.reconcile(snapshotOf(server));
+
+    expect(predictor.predict(at(3))!.head.pos.x).toBeCloseTo(500 + 3 * BASE_SPEED);
+  });
+
+  it('should blend small corrections in over a few ticks', () => {
+    const server = serverWorm();
+    const predictor = startPredicting(server);
+    predictor.predict(at(3));
+
+    // Server moved us 10 units sideways (something the client could not predict)
+    stepServer(server);
+    server.pos.y += 10;
+    server.body[0].y += 10;
+    predictor.reconcile(snapshotOf(server));
+
+    expect(predictor.predict(at(3))!.head.pos.y).toBeCloseTo(500);
+    for (let tick = 4; tick < 30; tick++) predictor.predict(at(tick));
+    expect(predictor.predict(at(30))!.head.pos.y).toBeCloseTo(510);
+  });
+
+  it('should snap large corrections', () => {
+    const server = serverWorm();
+    const predictor = startPredicting(server);
+    predictor.predict(at(3));
+
+    stepServer(server);
+    server.pos = { x: 1500, y: 900 };
+    predictor.reconcile(snapshotOf(server));
+
+    expect(predictor.predict(at(3))!.head.pos).toEqual({ x: 1500 + 2 * BASE_SPEED, y: 900 });
+  });
+
+  it('should steer toward a heading and let a turn cancel it', () => {
+    const predictor = startPredicting(serverWorm());
+    predictor.input({ targetAngle: Math.PI / 2 });
+    expect(predictor.predict(at(1))!.head.angle).toBeCloseTo(TURN_SPEED);
+
+    predictor.input({ turn: 0 });
+    const angle = predictor.predict(at(1))!.head.angle;
+    expect(predictor.predict(at(5))!.head.angle).toBeCloseTo(angle);
+  });
+
+  it('should stop predicting while dead', () => {
+    const server = serverWorm();
+    const predictor = startPredicting(server);
+
+    server.alive = false;
+    predictor.reconcile(snapshotOf(server));
+
+    expect(predictor.predict(at(1))).toBeNull();
+  });
+
+  it('should match the server path exactly under constant latency', () => {
+    const LATENCY = 4; // ticks each way
+    const server = serverWorm();
+    const predictor = startPredicting(server);
+
+    const inputs: Record<number, InputChange> = {
+      1: { turn: 1 }, 12: { boosting: true }, 20: { turn: -1 }, 31: { turn: 0 }, 40: { boosting: false }, 47: { turn: 1 },
+      52: { targetAngle: -2 }, 58: { targetAngle: 2.5 }, 66: { turn: -1 }, 70: { targetAngle: 0 },
+    };
+    const toServer: { arrives: number; seq: number; change: InputChange }[] = [];
+    const toClient: { arrives: number; snap: Snapshot }[] = [];
+    const serverPath: Vec[] = [];
+    const predicted: Vec[] = [];
+
+    for (let tick = 1; tick <= 80; tick++) {
+      // Server: apply inputs that have arrived, step, broadcast
+      for (const msg of toServer.filter(m => m.arrives === tick)) {
+        if (msg.change.turn !== undefined) {
+          server.turn = msg.change.turn;
+          server.targetAngle = undefined;
+        }
+        if (msg.change.targetAngle !== undefined) {
+          server.targetAngle = msg.change.targetAngle;
+          server.turn = 0;
+        }
+        if (msg.change.boosting !== undefined) server.boosting = msg.change.boosting;
+        server.inputSeq = msg.seq;
+        server.inputTicks = 0;
+      }
+      stepServer(server);
+      serverPath[tick] = { ...server.pos };
+      toClient.push({ arrives: tick + LATENCY, snap: snapshotOf(server) });
+
+      // Client: reconcile arrived snapshots, send input, render a frame
+      for (const msg of toClient.filter(m => m.arrives === tick)) predictor.reconcile(msg.snap);
+      const change = inputs[tick];
+      if (change) toServer.push({ arrives: tick + LATENCY, seq: predictor.input(change), change });
+      predicted[tick] = predictor.predict(at(tick))!.head.pos;
+    }
+
+    // After the startup correction has blended in, the client shows where the
+    // server will be once its latest input arrives: exactly LATENCY ticks ahead
+    for (let tick = 30; tick + LATENCY <= 80; tick++) {
+      expect(predicted[tick].x).toBeCloseTo(serverPath[tick + LATENCY].x, 6);
+      expect(predicted[tick].y).toBeCloseTo(serverPath[tick + LATENCY].y, 6);
+    }
+  });
+});
@@ -0,0 +1,139 @@
+// server/src/room-config.test.ts
+import { describe, it, expect } from 'vitest';
+import { fileURLToPath } from 'url';
+import {
+  ROOM_CONFIGS, DEFAULT_ROOM_ID, configFromCreate, checkDelete, parseRoomsFile, loadRoomsFile, planReload, needsRestart
+} from './room-config';
+import type { AdminCreateRoomMsg } from '../../client/src/net/protocol';
+
+const existing = new Set(Object.keys(ROOM_CONFIGS));
+
+const create = (overrides: Partial<AdminCreateRoomMsg> = {}): AdminCreateRoomMsg => ({
+  type: 'admin:createRoom',
+  id: 'arena4',
+  name: 'Arena 4',
+  roomType: 'tournament',
+  width: 1600,
+  height: 900,
+  maxPlayers: 16,
+  ...overrides,
+});
+
+describe('Room Config', () => {
+  it('should include the default room in the startup rooms', () => {
+    expect(ROOM_CONFIGS[DEFAULT_ROOM_ID]).toBeDefined();
+    for (const [id, config] of Object.entries(ROOM_CONFIGS)) {
+      expect(config.id).toBe(id);
+    }
+  });
+
+  it('should build a room config from admin:createRoom', () => {
+    const result = configFromCreate(create({ description: ' Extra qualifier ' }), existing);
+
+    expect(result).toEqual({
+      ok: true,
+      config: {
+        id: 'arena4',
+        name: 'Arena 4',
+        world: { width: 1600, height: 900 },
+        maxPlayers: 16,
+        description: 'Extra qualifier',
+        type: 'tournament',
+        foodCount: 250,
+        roundDuration: 600_000,
+        boostTrail: 0.5,
+      },
+    });
+  });
+
+  it('should fall back to a description for the room type', () => {
+    const result = configFromCreate(create({ roomType: 'casual' }), existing);
+
+    expect(result.ok && result.config.description).toMatch(/casual/i);
+  });
+
+  it('should refuse ids that are already in use', () => {
+    const result = configFromCreate(create({ id: 'arena1' }), existing);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error.code).toBe('room_exists');
+  });
+
+  it('should allow deleting a room, optionally moving its players', () => {
+    expect(checkDelete({ type: 'admin:deleteRoom', roomId: 'arena2' }, existing)).toEqual({ ok: true });
+    expect(checkDelete({ type: 'admin:deleteRoom', roomId: 'arena2', moveTo: 'chill' }, existing))
+      .toEqual({ ok: true, moveTo: 'chill' });
+  });
+
+  it('should refuse to delete missing rooms or the default room', () => {
+    expect(checkDelete({ type: 'admin:deleteRoom', roomId: 'arena9' }, existing).ok).toBe(false);
+    expect(checkDelete({ type: 'admin:deleteRoom', roomId: DEFAULT_ROOM_ID }, existing).ok).toBe(false);
+  });
+
+  it('should refuse to move players into a missing or the deleted room', () => {
+    expect(checkDelete({ type: 'admin:deleteRoom', roomId: 'arena2', moveTo: 'arena9' }, existing).ok).toBe(false);
+    expect(checkDelete({ type: 'admin:deleteRoom', roomId: 'arena2', moveTo: 'arena2' }, existing).ok).toBe(false);
+  });
+
+  it('should ship a rooms file matching the built-in rooms', () => {
+    const loaded = loadRoomsFile(fileURLToPath(new URL('../rooms.json', import.meta.url)));
+
+    expect(loaded).toEqual({ ok: true, rooms: Object.values(ROOM_CONFIGS) });
+  });
+
+  it('should fill in defaults for optional room fields', () => {
+    const result = parseRoomsFile(JSON.stringify({
+      rooms: [{ id: 'chill', name: 'Chill', type: 'casual', world: { width: 800, height: 600 }, maxPlayers: 5 }],
+    }));
+
+    expect(result.ok && result.rooms[0]).toMatchObject({ foodCount: 300, roundDuration: 600_000, boostTrail: 0.5 });
+    expect(result.ok && result.rooms[0].description).toMatch(/casual/i);
+  });
+
+  it('should report every problem in an invalid rooms file with its path', () => {
+    const result = parseRoomsFile(JSON.stringify({
+      rooms: [
+        { id: 'Arena!', name: 'A', type: 'ranked', world: { width: 50, height: 600 }, maxPlayers: 5 },
+        { id: 'b', name: '', type: 'casual', world: { width: 800 }, maxPlayers: 1.5, foodCount: -1 },
+        { id: 'b', name: 'B2', type: 'casual', world: { width: 800, height: 600 }, maxPlayers: 5, boostTrailPercent: 150 },
+      ],
+    }));
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual([
+      'rooms[0].id must match /^[a-z0-9][a-z0-9-]{0,31}$/',
+      'rooms[0].type must be one of tournament, casual',
+      'rooms[0].world.width must be an integer between 400 and 10000',
+      'rooms[1].world.height is required',
+      'rooms[1].name must be a non-empty string',
+      'rooms[1].maxPlayers must be an integer between 1 and 100',
+      'rooms[1].foodCount must be an integer between 0 and 5000',
+      'rooms[2].boostTrailPercent must be an integer between 0 and 100',
+      'rooms[2].id "b" is used by another room',
+      'a room with id "chill" is required',
+    ]);
+  });
+
+  it('should reject rooms files that are not JSON or have no rooms', () => {
+    expect(parseRoomsFile('{ rooms: [').ok).toBe(false);
+    expect(parseRoomsFile('[]')).toEqual({ ok: false, errors: ['must be an object with a "rooms" array'] });
+    expect(parseRoomsFile('{"rooms": []}')).toEqual({ ok: false, errors: ['rooms must not be empty'] });
+  });
+
+  it('should plan a reload as added, removed and changed rooms', () => {
+    const previous = [ROOM_CONFIGS.chill, ROOM_CONFIGS.arena1, ROOM_CONFIGS.arena2];
+    const arena4 = { ...ROOM_CONFIGS.arena1, id: 'arena4', name: 'Arena 4' };
+    const bigger = { ...ROOM_CONFIGS.arena1, maxPlayers: 40 };
+    const plan = planReload(previous, [ROOM_CONFIGS.chill, bigger, arena4]);
+
+    expect(plan).toEqual({ add: [arena4], remove: ['arena2'], update: [bigger] });
+  });
+
+  it('should only restart rooms whose world size or type changes', () => {
+    const arena = ROOM_CONFIGS.arena1;
+
+    expect(needsRestart(arena, { ...arena, maxPlayers: 5, foodCount: 10, description: 'x' })).toBe(false);
+    expect(needsRestart(arena, { ...arena, world: { width: 3000, height: 1200 } })).toBe(true);
+    expect(needsRestart(arena, { ...arena, type: 'casual' })).toBe(true);
+  });
+});
@@ -0,0 +1,333 @@
+// server/src/room-config.ts
+// Room definitions: the rooms file the server starts from, and checks for the
+// admin commands that create, delete and reload rooms while it runs.
+//
+// The rooms file (server/rooms.json) looks like
+//
+//   { "rooms": [ { "id": "chill", "name": "Chill Zone", "type": "casual",
+//                  "world": { "width": 2500, "height": 1500 }, "maxPlayers": 30,
+//                  "description": "...", "foodCount": 300, "roundDurationSec": 600,
+//                  "boostTrailPercent": 50 } ] }
+//
+// foodCount, roundDurationSec and boostTrailPercent (how much of the boost cost
+// drops as food) are optional and have defaults. The built-in ROOM_CONFIGS are
+// used when there's no file.
+
+import { readFileSync } from "fs";
+import type {
+  WorldView, RoomType, AdminCreateRoomMsg, AdminDeleteRoomMsg, ErrorMsg
+} from "../../client/src/net/protocol";
+import {
+  ROOM_ID_PATTERN, MAX_NAME_LENGTH, MIN_WORLD_SIZE, MAX_WORLD_SIZE, MAX_ROOM_PLAYERS
+} from "../../client/src/net/validate.js";
+
+export type RoomConfig = {
+  id: string;
+  name: string;
+  world: WorldView;
+  maxPlayers: number;
+  description: string;
+  type: RoomType;
+  foodCount: number;       // regular food dots seeded (plus 20% as many bonus items)
+  roundDuration: number;   // ms, tournament rounds
+  boostTrail: number;      // share of the boost cost a boosting worm drops as food, 0 to 1
+};
+
+// Always there: new connections land here and the lobby watches it
+export const DEFAULT_ROOM_ID = "chill";
+
+const DEFAULT_FOOD: Record<RoomType, number> = { tournament: 250, casual: 300 };
+const DEFAULT_ROUND_MS = 10 * 60 * 1000;  // 10 minutes
+const DEFAULT_BOOST_TRAIL = 0.5;          // a pellet every 4 ticks of boosting
+const MAX_FOOD = 5000;
+const MIN_ROUND_SEC = 10;
+const MAX_ROUND_SEC = 2 * 60 * 60;
+const MAX_DESCRIPTION_LENGTH = 120;
+
+export const ROOM_CONFIGS: Record<string, RoomConfig> = {
+  arena1: {
+    id: "arena1",
+    name: "Arena 1",
+    world: { width: 2000, height: 1200 },
+    maxPlayers: 20,
+    description: "Tournament Qualifier - Top 4 advance",
+    type: "tournament",
+    foodCount: DEFAULT_FOOD.tournament,
+    roundDuration: DEFAULT_ROUND_MS,
+    boostTrail: DEFAULT_BOOST_TRAIL,
+  },
+  arena2: {
+    id: "arena2",
+    name: "Arena 2",
+    world: { width: 2000, height: 1200 },
+    maxPlayers: 20,
+    description: "Tournament Qualifier - Top 4 advance",
+    type: "tournament",
+    foodCount: DEFAULT_FOOD.tournament,
+    roundDuration: DEFAULT_ROUND_MS,
+    boostTrail: DEFAULT_BOOST_TRAIL,
+  },
+  arena3: {
+    id: "arena3",
+    name: "Arena 3",
+    world: { width: 2000, height: 1200 },
+    maxPlayers: 20,
+    description: "Tournament Qualifier - Top 4 advance",
+    type: "tournament",
+    foodCount: DEFAULT_FOOD.tournament,
+    roundDuration: DEFAULT_ROUND_MS,
+    boostTrail: DEFAULT_BOOST_TRAIL,
+  },
+  deathmatch: {
+    id: "deathmatch",
+    name: "Deathmatch Finals 🏆",
+    world: { width: 1000, height: 600 },
+    maxPlayers: 12,
+    description: "Tournament Finals - Last worm standing wins",
+    type: "tournament",
+    foodCount: DEFAULT_FOOD.tournament,
+    roundDuration: DEFAULT_ROUND_MS,
+    boostTrail: DEFAULT_BOOST_TRAIL,
+  },
+  chill: {
+    id: DEFAULT_ROOM_ID,
+    name: "Chill Zone 🌴",
+    world: { width: 2500, height: 1500 },
+    maxPlayers: 30,
+    description: "Casual play - Join anytime, no timers!",
+    type: "casual",
+    foodCount: DEFAULT_FOOD.casual,
+    roundDuration: DEFAULT_ROUND_MS,
+    boostTrail: DEFAULT_BOOST_TRAIL,
+  }
+};
+
+const DEFAULT_DESCRIPTIONS: Record<RoomType, string> = {
+  tournament: "Tournament room",
+  casual: "Casual play - Join anytime",
+};
+
+export type RoomCheck<T> =
+  | ({ ok: true } & T)
+  | { ok: false; error: ErrorMsg };
+
+function invalidRoom(message: string): { ok: false; error: ErrorMsg } {
+  return { ok: false, error: { type: "error", code: "invalid_room", message } };
+}
+
+/** Build the config for admin:createRoom, refusing ids that are already taken */
+export function configFromCreate(
+  msg: AdminCreateRoomMsg, existing: ReadonlySet<string>
+): RoomCheck<{ config: RoomConfig }> {
+  if (existing.has(msg.id)) {
+    return { ok: false, error: { type: "error", code: "room_exists", message: `Room ${msg.id} already exists` } };
+  }
+  return {
+    ok: true,
+    config: {
+      id: msg.id,
+      name: msg.name.trim() || msg.id,
+      world: { width: msg.width, height: msg.height },
+      maxPlayers: msg.maxPlayers,
+      description: msg.description?.trim() || DEFAULT_DESCRIPTIONS[msg.roomType],
+      type: msg.roomType,
+      foodCount: DEFAULT_FOOD[msg.roomType],
+      roundDuration: DEFAULT_ROUND_MS,
+      boostTrail: DEFAULT_BOOST_TRAIL,
+    },
+  };
+}
+
+/**
+ * Check admin:deleteRoom. Occupants go to `moveTo`, which must be another room
+ * that still exists; without it they go back to the lobby.
+ */
+export function checkDelete(
+  msg: AdminDeleteRoomMsg, existing: ReadonlySet<string>
+): RoomCheck<{ moveTo?: string }> {
+  if (!existing.has(msg.roomId)) return invalidRoom(`Room ${msg.roomId} doesn't exist`);
+  if (msg.roomId === DEFAULT_ROOM_ID) return invalidRoom(`Room ${DEFAULT_ROOM_ID} can't be deleted`);
+  if (msg.moveTo === undefined) return { ok: true };
+  if (msg.moveTo === msg.roomId) return invalidRoom("Can't move players into the room being deleted");
+  if (!existing.has(msg.moveTo)) return invalidRoom(`Room ${msg.moveTo} doesn't exist`);
+  return { ok: true, moveTo: msg.moveTo };
+}
+
+// --- Rooms file ---
+
+export type ParsedRooms =
+  | { ok: true; rooms: RoomConfig[] }
+  | { ok: false; errors: string[] };   // one line per problem, e.g. "rooms[2].world.width must be ..."
+
+/** Validate the contents of a rooms file; every problem is reported, not just the first */
+export function parseRoomsFile(text: string): ParsedRooms {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    return { ok: false, errors: [`not valid JSON: ${(err as Error).message}`] };
+  }
+
+  const list = isObject(raw) ? raw.rooms : undefined;
+  if (!Array.isArray(list)) return { ok: false, errors: ['must be an object with a "rooms" array'] };
+
+  const errors: string[] = [];
+  const rooms: RoomConfig[] = [];
+  const seen = new Set<string>();
+
+  list.forEach((entry, i) => {
+    const fields = new FieldReader(entry, `rooms[${i}]`, errors);
+    if (!fields.ok) return;
+
+    const id = fields.string("id", 32, ROOM_ID_PATTERN);
+    const type = fields.oneOf("type", ["tournament", "casual"] as const);
+    const world = fields.object("world");
+    const width = world?.integer("width", MIN_WORLD_SIZE, MAX_WORLD_SIZE);
+    const height = world?.integer("height", MIN_WORLD_SIZE, MAX_WORLD_SIZE);
+    const config = {
+      name: fields.string("name", MAX_NAME_LENGTH),
+      maxPlayers: fields.integer("maxPlayers", 1, MAX_ROOM_PLAYERS),
+      description: fields.string("description", MAX_DESCRIPTION_LENGTH, undefined, true),
+      foodCount: fields.integer("foodCount", 0, MAX_FOOD, true),
+      roundDurationSec: fields.integer("roundDurationSec", MIN_ROUND_SEC, MAX_ROUND_SEC, true),
+      boostTrailPercent: fields.integer("boostTrailPercent", 0, 100, true),
+    };
+
+    if (id !== undefined) {
+      if (seen.has(id)) errors.push(`rooms[${i}].id "${id}" is used by another room`);
+      seen.add(id);
+    }
+
+    if (
+      id === undefined || type === undefined || width === undefined || height === undefined ||
+      config.name === undefined || config.maxPlayers === undefined
+    ) return;
+
+    rooms.push({
+      id,
+      name: config.name,
+      world: { width, height },
+      maxPlayers: config.maxPlayers,
+      description: config.description ?? DEFAULT_DESCRIPTIONS[type],
+      type,
+      foodCount: config.foodCount ?? DEFAULT_FOOD[type],
+      roundDuration: config.roundDurationSec !== undefined ? config.roundDurationSec * 1000 : DEFAULT_ROUND_MS,
+      boostTrail: config.boostTrailPercent !== undefined ? config.boostTrailPercent / 100 : DEFAULT_BOOST_TRAIL,
+    });
+  });
+
+  if (list.length === 0) {
+    errors.push("rooms must not be empty");
+  } else if (!seen.has(DEFAULT_ROOM_ID)) {
+    errors.push(`a room with id "${DEFAULT_ROOM_ID}" is required`);
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, rooms };
+}
+
+/** Read and validate a rooms file; unreadable files are reported like invalid ones */
+export function loadRoomsFile(path: string): ParsedRooms {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf-8");
+  } catch (err) {
+    return { ok: false, errors: [`can't read ${path}: ${(err as Error).message}`] };
+  }
+  return parseRoomsFile(text);
+}
+
+export type ReloadPlan = {
+  add: RoomConfig[];
+  remove: string[];
+  update: RoomConfig[];   // same id, something changed
+};
+
+/**
+ * What to do to go from the rooms loaded from the file last time to the rooms
+ * in it now. Rooms that aren't in `previous` (created by an admin) are left alone.
+ */
+export function planReload(previous: readonly RoomConfig[], next: readonly RoomConfig[]): ReloadPlan {
+  const before = new Map(previous.map(c => [c.id, c]));
+  const after = new Set(next.map(c => c.id));
+
+  return {
+    add: next.filter(c => !before.has(c.id)),
+    remove: previous.filter(c => !after.has(c.id)).map(c => c.id),
+    update: next.filter(c => {
+      const old = before.get(c.id);
+      return old !== undefined && JSON.stringify(old) !== JSON.stringify(c);
+    }),
+  };
+}
+
+/**
+ * Changes a running room can't take without reconnecting its players: clients
+ * learn the world size from their welcome, and tournament and casual rooms run
+ * different state machines.
+ */
+export function needsRestart(current: RoomConfig, next: RoomConfig): boolean {
+  return (
+    current.type !== next.type ||
+    current.world.width !== next.world.width ||
+    current.world.height !== next.world.height
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Reads typed fields out of one JSON object, collecting errors under `path`
+class FieldReader {
+  private readonly obj: Record<string, unknown>;
+  readonly ok: boolean;
+
+  constructor(value: unknown, private readonly path: string, private readonly errors: string[]) {
+    this.ok = isObject(value);
+    this.obj = this.ok ? (value as Record<string, unknown>) : {};
+    if (!this.ok) errors.push(`${path} must be an object`);
+  }
+
+  string(key: string, maxLength: number, pattern?: RegExp, optional = false): string | undefined {
+    const value = this.get(key, optional);
+    if (value === undefined) return undefined;
+    if (typeof value !== "string" || value.trim() === "") return this.fail(key, "must be a non-empty string");
+    if (value.length > maxLength) return this.fail(key, `must be at most ${maxLength} characters`);
+    if (pattern && !pattern.test(value)) return this.fail(key, `must match ${pattern}`);
+    return value;
+  }
+
+  integer(key: string, min: number, max: number, optional = false): number | undefined {
+    const value = this.get(key, optional);
+    if (value === undefined) return undefined;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      return this.fail(key, `must be an integer between ${min} and ${max}`);
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(key: string, values: readonly T[]): T | undefined {
+    const value = this.get(key, false);
+    if (value === undefined) return undefined;
+    if (!values.includes(value as T)) return this.fail(key, `must be one of ${values.join(", ")}`);
+    return value as T;
+  }
+
+  object(key: string): FieldReader | undefined {
+    const value = this.get(key, false);
+    if (value === undefined) return undefined;
+    const reader = new FieldReader(value, `${this.path}.${key}`, this.errors);
+    return reader.ok ? reader : undefined;
+  }
+
+  private get(key: string, optional: boolean): unknown {
+    const value = this.obj[key];
+    if ((value === undefined || value === null) && !optional) this.errors.push(`${this.path}.${key} is required`);
+    return value ?? undefined;
+  }
+
+  private fail(key: string, problem: string): undefined {
+    this.errors.push(`${this.path}.${key} ${problem}`);
+    return undefined;
+  }
+}
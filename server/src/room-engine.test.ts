@@ -0,0 +1,335 @@
+// server/src/room-engine.test.ts
+import { describe, it, expect } from 'vitest';
+import { RoomEngine, seededRandom, FOOD_TYPES, MAX_TRAIL_FOOD, POWER_UPS, isPowerUp } from './room-engine';
+import { BASE_SPEED, TURN_SPEED, BOOST_COST_PER_TICK, SPEED_POWERUP_MULTIPLIER } from './game-engine';
+
+const world = { width: 2000, height: 1200 };
+const quiet = () => {};
+
+function engine(seed = 1, now = () => 12345) {
+  return new RoomEngine({ world, rng: seededRandom(seed), now, log: quiet });
+}
+
+// Kill events from the last step
+function kills(room: RoomEngine) {
+  return room.events.filter(e => e.type === 'kill');
+}
+
+// Put a worm at a known spot, facing right
+function place(room: RoomEngine, id: string, x: number, y: number, angle = 0) {
+  const p = room.addPlayer(id, id, '#fff');
+  p.pos = { x, y };
+  p.angle = angle;
+  return p;
+}
+
+describe('Room Engine', () => {
+  it('should replay identically from the same seed', () => {
+    const run = () => {
+      const room = engine(42);
+      room.seedFood(100);
+      room.addPlayer('a', 'A', '#f00');
+      room.addPlayer('b', 'B', '#0f0');
+      room.applyInput('a', { type: 'turn', dir: 1 });
+      room.applyInput('b', { type: 'steer', angle: -1 });
+      for (let i = 0; i < 200; i++) room.step();
+      return room.snapshot();
+    };
+
+    expect(run()).toEqual(run());
+  });
+
+  it('should seed regular and bonus food', () => {
+    const room = engine();
+    room.seedFood(50);
+
+    expect(room.foods).toHaveLength(50);
+    expect(room.bonusFood).toHaveLength(10);
+    for (const f of room.bonusFood) expect(f.value).toBe(FOOD_TYPES[f.type as keyof typeof FOOD_TYPES].value);
+
+    room.seedFood(300);
+    expect(room.bonusFood.filter(f => isPowerUp(f.type))).toHaveLength(5);
+  });
+
+  it('should move, grow and echo ticks for each live worm', () => {
+    const room = engine();
+    const p = place(room, 'a', 500, 500);
+    for (let i = 0; i < 3; i++) room.step();
+
+    expect(p.pos.x).toBeCloseTo(500 + 3 * BASE_SPEED);
+    expect(p.body).toHaveLength(3);
+    expect(p.inputTicks).toBe(3);
+  });
+
+  it('should apply inputs and ignore stale input seqs', () => {
+    const room = engine();
+    const p = place(room, 'a', 500, 500);
+
+    room.applyInput('a', { type: 'turn', dir: 1, seq: 5 });
+    room.step();
+    room.applyInput('a', { type: 'boost', boosting: true, seq: 4 });
+
+    expect(p.angle).toBeCloseTo(TURN_SPEED);
+    expect(p.boosting).toBe(true);
+    expect(p.inputSeq).toBe(5);
+    expect(p.inputTicks).toBe(1);
+  });
+
+  it('should eat food and respawn it elsewhere', () => {
+    const room = engine();
+    const p = place(room, 'a', 500, 500);
+    room.foods = [{ x: 500 + BASE_SPEED, y: 500 }];
+    room.step();
+
+    expect(p.score).toBe(11);
+    expect(room.foods).toHaveLength(1);
+    expect(room.foods[0]).not.toEqual({ x: 500 + BASE_SPEED, y: 500 });
+  });
+
+  it('should kill a worm that runs into another body and drop food', () => {
+    const room = engine();
+    const victim = place(room, 'victim', 496, 600);
+    victim.score = 80;
+    const wall = place(room, 'wall', 800, 800);
+    wall.body = Array.from({ length: 20 }, (_, i) => ({ x: 500 + BASE_SPEED, y: 590 + i }));
+
+    const dead = room.step();
+
+    expect(dead).toEqual(['victim']);
+    expect(victim.alive).toBe(false);
+    expect(wall.alive).toBe(true);
+    expect(room.foods.length).toBeGreaterThan(0);
+  });
+
+  it('should let a worm touch its own neck', () => {
+    const room = engine();
+    const p = place(room, 'a', 500, 500);
+    p.body = Array.from({ length: 5 }, (_, i) => ({ x: 500 - i * BASE_SPEED, y: 500 }));
+
+    expect(room.step()).toEqual([]);
+  });
+
+  it('should end a head-on meeting in the same tick', () => {
+    const room = engine();
+    place(room, 'a', 500, 500, 0);
+    place(room, 'b', 500 + 2 * BASE_SPEED + 5, 500, Math.PI);
+
+    // Heads are also the newest body segment, so the body check usually catches it first
+    expect(room.step()).toContain('a');
+  });
+
+  it('should record who killed whom and how', () => {
+    const room = engine();
+    place(room, 'victim', 496, 600);
+    const wall = place(room, 'wall', 800, 800);
+    wall.body = Array.from({ length: 20 }, (_, i) => ({ x: 500 + BASE_SPEED, y: 590 + i }));
+    room.step();
+    expect(kills(room)).toEqual([{ type: 'kill', victimId: 'victim', victimName: 'victim', killerId: 'wall', killerName: 'wall', cause: 'body' }]);
+
+    const loop = engine();
+    const p = place(loop, 'a', 500, 500);
+    p.body = Array.from({ length: 20 }, (_, i) => ({ x: 500 - i, y: 560 }));
+    p.body[10] = { x: 500 + BASE_SPEED, y: 500 };
+    loop.step();
+    expect(kills(loop)).toEqual([{ type: 'kill', victimId: 'a', victimName: 'a', cause: 'self' }]);
+
+    const headOn = engine();
+    place(headOn, 'a', 500, 500, 0);
+    place(headOn, 'b', 500 + 2 * BASE_SPEED + 5, 500, Math.PI);
+    headOn.step();
+    expect(kills(headOn)[0]).toMatchObject({ victimId: 'a', killerId: 'b', cause: 'head' });
+
+    headOn.step();
+    expect(headOn.events).toEqual([]);
+  });
+
+  it('should report bonus food, food bursts and boosts as events in order', () => {
+    const room = engine();
+    const p = place(room, 'a', 500, 500);
+    p.score = 11;
+    room.bonusFood = [{ x: 500 + BASE_SPEED, y: 500, type: 'jira', value: 10 }];
+    room.applyInput('a', { type: 'boost', boosting: true });
+
+    room.step();
+    expect(room.events).toEqual([
+      { type: 'boost', playerId: 'a', boosting: true },
+      { type: 'bonusFood', playerId: 'a', playerName: 'a', food: 'jira', value: 10, score: 20.5 },
+    ]);
+
+    p.score = 10.2;
+    room.step();
+    expect(room.events).toEqual([{ type: 'boost', playerId: 'a', boosting: false }]);
+
+    const victim = place(room, 'v', 800, 800);
+    victim.body = [{ x: 900, y: 900 }];
+    victim.pos = { x: 1000 - BASE_SPEED, y: 1000 };
+    const wall = place(room, 'w', 1500, 1000);
+    wall.body = Array.from({ length: 20 }, (_, i) => ({ x: 1000, y: 990 + i }));
+    room.step();
+    expect(room.events.map(e => e.type)).toEqual(['kill', 'foodBurst']);
+    expect(room.events[1]).toMatchObject({ type: 'foodBurst', playerId: 'v', pos: { x: 1000, y: 1000 } });
+  });
+
+  it('should drop part of the boost cost as food behind the tail', () => {
+    const room = new RoomEngine({ world, rng: seededRandom(1), now: () => 0, log: quiet, boostTrail: 0.5 });
+    room.foods = [];
+    room.bonusFood = [];
+    const p = place(room, 'a', 500, 500);
+    p.score = 100;
+    p.boosting = true;
+
+    for (let i = 0; i < 8; i++) room.step();
+
+    expect(p.score).toBe(100 - 8 * BOOST_COST_PER_TICK);
+    expect(room.trailFood).toHaveLength(2); // 8 ticks * 0.5 cost * 50% = 2 points
+    const tail = p.body[p.body.length - 1];
+    for (const f of room.trailFood) expect(Math.hypot(f.x - tail.x, f.y - tail.y)).toBeLessThan(40);
+    expect(room.snapshot().foods).toHaveLength(2);
+
+    p.boosting = false;
+    room.step();
+    expect(room.trailFood).toHaveLength(2);
+  });
+
+  it('should not replace eaten trail food, and cap how much lies around', () => {
+    const room = engine();
+    room.foods = [];
+    room.bonusFood = [];
+    const p = place(room, 'a', 500, 500);
+    room.trailFood = [{ x: 500 + BASE_SPEED, y: 500 }];
+    room.step();
+    expect(p.score).toBe(11);
+    expect(room.trailFood).toEqual([]);
+
+    const flood = new RoomEngine({ world: { width: 10_000, height: 10_000 }, rng: seededRandom(1), now: () => 0, log: quiet, boostTrail: 1 });
+    const q = place(flood, 'b', 500, 500);
+    q.score = 10_000;
+    q.boosting = true;
+    for (let i = 0; i < 2 * MAX_TRAIL_FOOD; i++) flood.step();
+    expect(flood.trailFood).toHaveLength(MAX_TRAIL_FOOD);
+  });
+
+  it('should start a power-up on pickup and let it run out', () => {
+    const room = engine();
+    const p = place(room, 'a', 500, 500);
+    room.bonusFood = [{ x: 500 + BASE_SPEED, y: 500, type: 'shield', value: 0 }];
+
+    room.step();
+    expect(p.score).toBe(10);
+    expect(p.effects).toEqual({ shield: POWER_UPS.shield.ticks });
+    expect(room.events).toEqual([{ type: 'powerUp', playerId: 'a', playerName: 'a', powerUp: 'shield', ticks: POWER_UPS.shield.ticks }]);
+    expect(room.bonusFood).toHaveLength(1);
+    expect(isPowerUp(room.bonusFood[0].type)).toBe(true);
+    expect(room.snapshot().players[0].effects).toEqual({ shield: POWER_UPS.shield.ticks });
+
+    room.bonusFood = [];
+    for (let i = 0; i < POWER_UPS.shield.ticks - 1; i++) room.step();
+    expect(p.effects).toEqual({ shield: 1 });
+    room.step();
+    expect(p.effects).toBeUndefined();
+    expect(room.snapshot().players[0].effects).toBeUndefined();
+  });
+
+  it('should move faster with speed and eat from further away with a magnet', () => {
+    const room = engine();
+    const fast = place(room, 'fast', 500, 300);
+    fast.effects = { speed: 10 };
+    room.step();
+    expect(fast.pos.x).toBeCloseTo(500 + BASE_SPEED * SPEED_POWERUP_MULTIPLIER);
+
+    const magnet = place(room, 'magnet', 500, 800);
+    magnet.effects = { magnet: 10 };
+    room.foods = [{ x: 500 + BASE_SPEED, y: 850 }];
+    room.step();
+    expect(magnet.score).toBe(11);
+  });
+
+  it('should keep shielded worms alive and let ghosts pass through', () => {
+    const wallAt = (room: RoomEngine) => {
+      const wall = place(room, 'wall', 800, 800);
+      wall.body = Array.from({ length: 20 }, (_, i) => ({ x: 500 + BASE_SPEED, y: 590 + i }));
+      return wall;
+    };
+
+    const shielded = engine();
+    place(shielded, 'a', 496, 600).effects = { shield: 10 };
+    wallAt(shielded);
+    expect(shielded.step()).toEqual([]);
+
+    const ghost = engine();
+    place(ghost, 'a', 496, 600);
+    wallAt(ghost).effects = { ghost: 10 };
+    expect(ghost.step()).toEqual([]);
+
+    // A shield doesn't save you from your own tail
+    const loop = engine();
+    const p = place(loop, 'a', 500, 500);
+    p.effects = { shield: 10 };
+    p.body = Array.from({ length: 20 }, (_, i) => ({ x: 500 - i, y: 560 }));
+    p.body[10] = { x: 500 + BASE_SPEED, y: 500 };
+    expect(loop.step()).toEqual(['a']);
+
+    const headOn = engine();
+    place(headOn, 'a', 500, 500, 0).effects = { shield: 10 };
+    place(headOn, 'b', 500 + 2 * BASE_SPEED + 5, 500, Math.PI);
+    expect(headOn.step()).toEqual(['b']);
+    expect(kills(headOn)).toEqual([expect.objectContaining({ victimId: 'b', killerId: 'a', cause: 'head' })]);
+  });
+
+  it('should respawn only dead worms, as babies', () => {
+    const room = engine();
+    const p = place(room, 'a', 500, 500);
+    expect(room.respawn('a')).toBeNull();
+
+    p.alive = false;
+    p.score = 200;
+    p.turn = 1;
+    room.respawn('a');
+
+    expect(p).toMatchObject({ alive: true, score: 10, body: [], turn: 0, boosting: false, thickness: 14 });
+  });
+
+  it('should only remove the expected worm', () => {
+    const room = engine();
+    const old = room.addPlayer('a', 'A', '#fff');
+    room.addPlayer('a', 'A again', '#fff');
+
+    expect(room.removePlayer('a', old)).toBe(false);
+    expect(room.removePlayer('a')).toBe(true);
+    expect(room.players.size).toBe(0);
+  });
+
+  it('should restore saved worms and food, waiting for their players', () => {
+    const room = engine();
+    room.seedFood(10);
+    const a = place(room, 'a', 500, 500);
+    room.applyInput('a', { type: 'turn', dir: 1, seq: 7 });
+    room.applyInput('a', { type: 'boost', boosting: true });
+    a.score = 42;
+    const saved = JSON.parse(JSON.stringify(room.exportState()));
+
+    const restored = engine(2);
+    restored.seedFood(3);
+    restored.restoreState(saved);
+    const p = restored.players.get('a')!;
+
+    expect(p).toMatchObject({ pos: { x: 500, y: 500 }, score: 42, turn: 0, boosting: false, inputSeq: 0 });
+    expect(restored.foods).toEqual(room.foods);
+    expect(restored.bonusFood).toEqual(room.bonusFood);
+    expect(p).not.toBe(a);
+  });
+
+  it('should stamp snapshots with the injected clock', () => {
+    let t = 1000;
+    const room = engine(1, () => t);
+    room.addPlayer('a', 'A', '#fff');
+    room.seedFood(5);
+    t = 2500;
+    const snap = room.snapshot();
+
+    expect(snap.t).toBe(2500);
+    expect(snap.world).toEqual(world);
+    expect(snap.players.map(p => p.id)).toEqual(['a']);
+    expect(snap.bonusFood).toHaveLength(1);
+  });
+});
@@ -0,0 +1,575 @@
+// server/src/room-engine.ts
+// The simulation of one room: its worms, food and the per-tick step.
+//
+// No sockets or timers in here. Randomness and time come in through `rng` and
+// `now`, so a test or tool can drive a room tick by tick and get the same
+// result every run; the server wires in Math.random and Date.now.
+
+import type {
+  Vec, WorldView, FoodItem, PlayerView, Snapshot, TurnMsg, SteerMsg, BoostMsg, KillCause, KillEvent, GameEvent,
+  PowerUpType, ActiveEffects
+} from "../../client/src/net/protocol";
+import {
+  wrap,
+  dist2,
+  sweptDist2,
+  closestApproach2,
+  FOOD_R2,
+  HEAD_R2,
+  moveWorm,
+  calculateBodyLength,
+  calculateThickness,
+  calculateFoodBurst,
+} from "./game-engine.js";
+import { SpatialGrid } from "./spatial-grid.js";
+
+export type Rng = () => number;   // uniform in [0, 1), like Math.random
+export type Clock = () => number; // ms, like Date.now
+
+export type PlayerState = {
+  id: string;
+  name: string;
+  color: string;
+  avatar?: string;
+  pos: Vec;
+  angle: number;          // radians
+  speed: number;          // units / tick
+  body: Vec[];
+  score: number;
+  alive: boolean;
+  turn: -1 | 0 | 1;
+  targetAngle?: number;   // set while steering toward a heading (steer message)
+  boosting: boolean;      // true when player is boosting
+  thickness: number;      // body thickness (14 default, grows after max length)
+  inputSeq: number;       // last input sequence number applied (0 before any)
+  inputTicks: number;     // ticks simulated since that input, echoed for prediction
+  shed?: number;          // boost cost not yet dropped as trail food
+  effects?: ActiveEffects; // running power-ups, ticks left on each
+};
+
+// Player inputs, as they arrive from the client
+export type PlayerInput = TurnMsg | SteerMsg | BoostMsg;
+
+// The world's contents, to save before a restart and load after it
+export type EngineState = {
+  players: PlayerState[];
+  foods: Vec[];
+  bonusFood: FoodItem[];
+  trailFood?: Vec[];      // missing from states saved before boost trails
+};
+
+export type RoomEngineOptions = {
+  world: WorldView;
+  rng?: Rng;
+  now?: Clock;
+  log?: (line: string) => void;
+  boostTrail?: number;    // share of the boost cost dropped as food behind the tail, 0 to 1 (default 0)
+};
+
+export const MAX_TRAIL_FOOD = 400; // boost pellets lying around per room; the oldest go first
+const TRAIL_GAP = 20;              // how far past the tail boost pellets drop
+
+// Food type definitions
+export const FOOD_TYPES = {
+  bug: { value: 5, rarity: 0.70, asset: "/foodAssets/rdc-bug.svg" },
+  jira: { value: 10, rarity: 0.25, asset: "/foodAssets/rdc-jira.svg" },
+  zillow: { value: 30, rarity: 0.05, asset: "/foodAssets/rdc-zillow.svg" }
+} as const;
+
+// Power-ups and how many ticks each lasts (30 ticks a second)
+export const POWER_UPS: Record<PowerUpType, { ticks: number }> = {
+  shield: { ticks: 8 * 30 },
+  magnet: { ticks: 10 * 30 },
+  speed: { ticks: 6 * 30 },
+  ghost: { ticks: 5 * 30 },
+};
+const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[];
+const FOOD_PER_POWER_UP = 60;     // one power-up lies around for every this many food dots
+const MAGNET_R2 = 70 * 70;        // how close food has to be for a worm with a magnet
+
+const START_SCORE = 10;
+const START_THICKNESS = 14;
+const SELF_HINGE = 6; // a head may touch its own first few segments
+
+/** Small deterministic RNG (mulberry32) for tests and tools */
+export function seededRandom(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A fresh baby worm somewhere random in the world */
+export function createPlayer(
+  id: string, name: string, color: string, avatar: string | undefined, world: WorldView, rng: Rng = Math.random
+): PlayerState {
+  return {
+    id, name, color, avatar,
+    pos: { x: rng() * world.width, y: rng() * world.height },
+    angle: rng() * Math.PI * 2,
+    speed: 4.0,
+    body: [],
+    score: START_SCORE,
+    alive: true,
+    turn: 0,
+    boosting: false,
+    thickness: START_THICKNESS,
+    inputSeq: 0,
+    inputTicks: 0,
+  };
+}
+
+export function generateBonusFood(world: WorldView, rng: Rng = Math.random): FoodItem {
+  const rand = rng();
+  let type: keyof typeof FOOD_TYPES;
+
+  if (rand < 0.05) type = "zillow";      // 5% - rare (30 points)
+  else if (rand < 0.30) type = "jira";   // 25% - uncommon (10 points)
+  else type = "bug";                     // 70% - common (5 points)
+
+  return {
+    x: rng() * world.width,
+    y: rng() * world.height,
+    type,
+    value: FOOD_TYPES[type].value
+  };
+}
+
+export function generatePowerUp(world: WorldView, rng: Rng = Math.random): FoodItem {
+  return {
+    x: rng() * world.width,
+    y: rng() * world.height,
+    type: POWER_UP_TYPES[Math.floor(rng() * POWER_UP_TYPES.length)],
+    value: 0,
+  };
+}
+
+export function isPowerUp(type: FoodItem["type"]): type is PowerUpType {
+  return Object.prototype.hasOwnProperty.call(POWER_UPS, type);
+}
+
+// Count running power-ups down by a tick, dropping the ones that ran out
+function wearOff(p: PlayerState) {
+  const effects: ActiveEffects = {};
+  for (const type of POWER_UP_TYPES) {
+    const left = (p.effects?.[type] ?? 0) - 1;
+    if (left > 0) effects[type] = left;
+  }
+  p.effects = Object.keys(effects).length > 0 ? effects : undefined;
+}
+
+// How close food has to be to the head to be eaten
+function reach(p: PlayerState): number {
+  return p.effects?.magnet ? MAGNET_R2 : FOOD_R2;
+}
+
+// True if two worms pass through each other (one of them is a ghost)
+function passThrough(a: PlayerState, b: PlayerState | undefined): boolean {
+  return !!a.effects?.ghost || !!b?.effects?.ghost;
+}
+
+export function toView(p: PlayerState): PlayerView {
+  return {
+    id: p.id,
+    name: p.name,
+    color: p.color,
+    avatar: p.avatar,
+    head: { pos: { x: p.pos.x, y: p.pos.y }, angle: p.angle },
+    body: p.body.slice(), // copy for safety
+    score: p.score,
+    alive: p.alive,
+    boosting: p.boosting ? true : undefined, // Only include if boosting
+    thickness: p.thickness !== START_THICKNESS ? p.thickness : undefined, // Only include if different from default
+    effects: p.alive && p.effects ? { ...p.effects } : undefined,
+  };
+}
+
+function killOf(victim: PlayerState, killer: PlayerState | undefined, cause: KillCause): KillEvent {
+  return {
+    type: "kill",
+    victimId: victim.id,
+    victimName: victim.name,
+    killerId: killer?.id,
+    killerName: killer?.name,
+    cause,
+  };
+}
+
+export class RoomEngine {
+  readonly world: WorldView;
+  readonly players = new Map<string, PlayerState>();
+  foods: Vec[] = [];
+  bonusFood: FoodItem[] = [];
+  trailFood: Vec[] = [];    // pellets shed by boosting worms; eaten ones aren't replaced
+  boostTrail: number;
+  events: GameEvent[] = []; // what happened in the last step, in order
+
+  private readonly rng: Rng;
+  private readonly now: Clock;
+  private readonly log: (line: string) => void;
+  private readonly boosting = new Set<string>(); // worms boosting as of the last step
+
+  constructor({ world, rng = Math.random, now = Date.now, log = console.log, boostTrail = 0 }: RoomEngineOptions) {
+    this.world = world;
+    this.boostTrail = boostTrail;
+    this.rng = rng;
+    this.now = now;
+    this.log = log;
+  }
+
+  /** Replace all food with `n` regular dots plus 20% as many bonus items and a few power-ups */
+  seedFood(n = 250) {
+    this.foods = Array.from({ length: n }, () => this.randomPoint());
+    const bonusCount = Math.floor(n * 0.2);
+    this.bonusFood = Array.from({ length: bonusCount }, () => generateBonusFood(this.world, this.rng));
+    for (let i = 0; i < Math.floor(n / FOOD_PER_POWER_UP); i++) this.bonusFood.push(generatePowerUp(this.world, this.rng));
+    this.trailFood = [];
+  }
+
+  /** Spawn a new worm for `id` and return it */
+  addPlayer(id: string, name: string, color: string, avatar?: string): PlayerState {
+    const p = createPlayer(id, name, color, avatar, this.world, this.rng);
+    this.players.set(id, p);
+    return p;
+  }
+
+  /** Remove a worm; `only` guards against removing a newer worm under the same id */
+  removePlayer(id: string, only?: PlayerState): boolean {
+    if (only && this.players.get(id) !== only) return false;
+    this.boosting.delete(id);
+    return this.players.delete(id);
+  }
+
+  /** Bring a dead worm back as a baby worm somewhere random */
+  respawn(id: string): PlayerState | null {
+    const p = this.players.get(id);
+    if (!p || p.alive) return null;
+
+    p.pos = this.randomPoint();
+    p.angle = this.rng() * Math.PI * 2;
+    p.body = [];
+    p.score = START_SCORE;
+    p.alive = true;
+    p.turn = 0;
+    p.targetAngle = undefined;
+    p.boosting = false;
+    p.thickness = START_THICKNESS;
+    p.shed = 0;
+    p.effects = undefined;
+    return p;
+  }
+
+  /** Apply a turn, steer or boost input; numbered inputs are echoed for prediction */
+  applyInput(id: string, input: PlayerInput) {
+    const p = this.players.get(id);
+    if (!p) return;
+
+    if (input.type === "turn") {
+      p.turn = input.dir;
+      p.targetAngle = undefined; // keyboard takes over from analog steering
+    } else if (input.type === "steer") {
+      p.targetAngle = input.angle;
+      p.turn = 0;
+    } else {
+      p.boosting = input.boosting;
+    }
+
+    // Remember the newest input for the snapshot echo that drives client reconciliation
+    if (input.seq !== undefined && input.seq > p.inputSeq) {
+      p.inputSeq = input.seq;
+      p.inputTicks = 0;
+    }
+  }
+
+  /** Advance one tick; returns the ids of worms that died (`events` says how) */
+  step(): string[] {
+    const world = this.world;
+    const players = this.players;
+    const foods = this.foods;
+    const bonusFood = this.bonusFood;
+    const trailFood = this.trailFood;
+    const events: GameEvent[] = [];
+    this.events = events;
+    const from = new Map<string, Vec>(); // where each head started the tick
+
+    // move players
+    for (const p of players.values()) {
+      if (!p.alive) {
+        this.boosting.delete(p.id); // a respawned worm starts without a boost event
+        continue;
+      }
+      // steer, boost and move (same step the client predicts with)
+      const scoreBefore = p.score;
+      from.set(p.id, { x: p.pos.x, y: p.pos.y });
+      moveWorm(p, world);
+      p.inputTicks++;
+
+      // moveWorm stops the boost once the worm can't pay for it
+      if (p.boosting !== this.boosting.has(p.id)) {
+        if (p.boosting) this.boosting.add(p.id);
+        else this.boosting.delete(p.id);
+        events.push({ type: "boost", playerId: p.id, boosting: p.boosting });
+      }
+
+      // grow body: push a copy of head every N ticks
+      p.body.unshift({ x: p.pos.x, y: p.pos.y });
+      const finalLen = calculateBodyLength(p.score);
+      if (p.body.length > finalLen) p.body.length = finalLen;
+
+      // Thickness progression: after max length, continue growing thicker
+      p.thickness = calculateThickness(p.score);
+
+      // Part of what boosting cost drops behind the tail for others to pick up
+      if (p.score < scoreBefore && this.boostTrail > 0) this.shedTrail(p, (scoreBefore - p.score) * this.boostTrail);
+
+      if (p.effects) wearOff(p);
+    }
+
+    // eat food
+    for (let i = foods.length - 1; i >= 0; i--) {
+      const f = foods[i];
+      let eaten = false;
+      for (const p of players.values()) {
+        if (!p.alive) continue;
+        if (dist2(p.pos, f) <= reach(p)) {
+          p.score += 1;
+          eaten = true;
+          break;
+        }
+      }
+      if (eaten) {
+        foods.splice(i, 1);
+        // respawn somewhere else
+        foods.push(this.randomPoint());
+      }
+    }
+
+    // eat boost trail pellets (gone once eaten: they came out of someone's score)
+    for (let i = trailFood.length - 1; i >= 0; i--) {
+      const f = trailFood[i];
+      for (const p of players.values()) {
+        if (!p.alive) continue;
+        if (dist2(p.pos, f) <= reach(p)) {
+          p.score += 1;
+          trailFood.splice(i, 1);
+          break;
+        }
+      }
+    }
+
+    // eat bonus food and pick up power-ups
+    for (let i = bonusFood.length - 1; i >= 0; i--) {
+      const f = bonusFood[i];
+      let eaten = false;
+      for (const p of players.values()) {
+        if (!p.alive) continue;
+        if (dist2(p.pos, f) <= reach(p)) {
+          eaten = true;
+          if (isPowerUp(f.type)) {
+            // Picking up one that's running starts it over
+            const ticks = POWER_UPS[f.type].ticks;
+            p.effects = { ...p.effects, [f.type]: ticks };
+            this.log(`[power-up] ${p.name} picked up ${f.type}`);
+            events.push({ type: "powerUp", playerId: p.id, playerName: p.name, powerUp: f.type, ticks });
+            break;
+          }
+          p.score += f.value; // Use food's point value
+          this.log(`[bonus-food] ${p.name} ate ${f.type} (+${f.value} points, total: ${p.score})`);
+          events.push({ type: "bonusFood", playerId: p.id, playerName: p.name, food: f.type, value: f.value, score: p.score });
+          break;
+        }
+      }
+      if (eaten) {
+        bonusFood.splice(i, 1);
+        // respawn new bonus food (or another power-up)
+        bonusFood.push(isPowerUp(f.type) ? generatePowerUp(world, this.rng) : generateBonusFood(world, this.rng));
+      }
+    }
+
+    // collisions (head-to-body, optimized with spatial partitioning)
+    const dead: string[] = [];
+
+    // Build spatial grid from all body segments
+    const grid = new SpatialGrid(world.width, world.height, 100);
+    for (const p of players.values()) {
+      if (!p.alive) continue;
+      for (let i = 0; i < p.body.length; i++) {
+        grid.insert(p.body[i], p.id, i);
+      }
+    }
+
+    // Check the path each head took this tick against the segments along it.
+    // A fast head moves further than a body is thick, so its path is swept
+    // against each stretch of body (a point and the next one) rather than
+    // testing just where it ended up.
+    for (const p of players.values()) {
+      if (!p.alive) continue;
+
+      const start = from.get(p.id) ?? p.pos;
+      const nearbySegments = grid.queryPath(start, p.pos);
+
+      for (const { segment, ownerId, segmentIndex } of nearbySegments) {
+        // allow touching your first few segments (hinge)
+        if (ownerId === p.id && segmentIndex < SELF_HINGE) continue;
+        const owner = ownerId === p.id ? undefined : players.get(ownerId);
+        if (owner && passThrough(p, owner)) continue;
+
+        const body = (owner ?? p).body;
+        const next = body[segmentIndex + 1] ?? segment; // the tail is just a point
+        if (sweptDist2(start, p.pos, segment, next, world) < HEAD_R2) {
+          if (owner && p.effects?.shield) continue; // shields hold against other worms, not your own tail
+          p.alive = false;
+          dead.push(p.id);
+          // segment 0 is the other worm's head
+          const cause: KillCause = ownerId === p.id ? "self" : segmentIndex === 0 ? "head" : "body";
+          events.push(killOf(p, cause === "self" ? undefined : players.get(ownerId), cause));
+
+          // Create food burst from dead worm
+          foods.push(...this.foodBurst(p, events));
+
+          break;
+        }
+      }
+    }
+
+    // Check head-to-head collisions, also along the paths the heads took
+    const alivePlayers = Array.from(players.values()).filter(p => p.alive);
+    for (let i = 0; i < alivePlayers.length; i++) {
+      for (let j = i + 1; j < alivePlayers.length; j++) {
+        const playerA = alivePlayers[i];
+        const playerB = alivePlayers[j];
+
+        if (!playerA.alive || !playerB.alive || passThrough(playerA, playerB)) continue;
+
+        const startA = from.get(playerA.id) ?? playerA.pos;
+        const startB = from.get(playerB.id) ?? playerB.pos;
+        if (closestApproach2(startA, playerA.pos, startB, playerB.pos, world) < HEAD_R2) {
+          // Both worms die in head-to-head collision, unless shielded
+          const losers = [[playerA, playerB], [playerB, playerA]].filter(([victim]) => !victim.effects?.shield);
+          for (const [victim, killer] of losers) {
+            victim.alive = false;
+            dead.push(victim.id);
+            events.push(killOf(victim, killer, "head"));
+            // Create a food burst from the dead worm
+            foods.push(...this.foodBurst(victim, events));
+          }
+
+          this.log(`[collision] Head-to-head: ${playerA.name} and ${playerB.name}, ${losers.length === 2 ? "both died" : losers.length === 1 ? `${losers[0][0].name} died` : "both shielded"}`);
+        }
+      }
+    }
+
+    return dead;
+  }
+
+  /** A copy of the worms and food, for saving */
+  exportState(): EngineState {
+    return structuredClone({
+      players: Array.from(this.players.values()),
+      foods: this.foods,
+      bonusFood: this.bonusFood,
+      trailFood: this.trailFood,
+    });
+  }
+
+  /** Replace the worms and food with saved ones; worms wait going straight for their players */
+  restoreState(state: EngineState) {
+    this.players.clear();
+    for (const saved of state.players) {
+      const p = structuredClone(saved);
+      p.turn = 0;
+      p.targetAngle = undefined;
+      p.boosting = false;
+      p.inputSeq = 0;
+      p.inputTicks = 0;
+      this.players.set(p.id, p);
+    }
+    this.foods = structuredClone(state.foods);
+    this.bonusFood = structuredClone(state.bonusFood);
+    this.trailFood = structuredClone(state.trailFood ?? []);
+  }
+
+  /** The room as seen by everyone, stamped with the engine clock */
+  snapshot(): Snapshot {
+    return {
+      t: this.now(),
+      world: this.world,
+      players: Array.from(this.players.values()).map(toView),
+      foods: this.trailFood.length > 0 ? [...this.foods, ...this.trailFood] : this.foods,
+      bonusFood: this.bonusFood.length > 0 ? this.bonusFood : undefined,
+    };
+  }
+
+  // Drop a 1-point pellet just past the tail for every whole point shed
+  private shedTrail(p: PlayerState, mass: number) {
+    p.shed = (p.shed ?? 0) + mass;
+    if (p.shed < 1) return;
+
+    // Past the tail, away from the worm, so it doesn't run over its own pellets
+    const { width, height } = this.world;
+    const tail = p.body[p.body.length - 1] ?? p.pos;
+    const before = p.body[p.body.length - 2] ?? p.pos;
+    let dx = tail.x - before.x;
+    let dy = tail.y - before.y;
+    if (Math.abs(dx) > width / 2) dx -= Math.sign(dx) * width; // segments either side of the wrap
+    if (Math.abs(dy) > height / 2) dy -= Math.sign(dy) * height;
+    const len = Math.hypot(dx, dy) || 1;
+    const behind = { x: tail.x + (dx / len) * TRAIL_GAP, y: tail.y + (dy / len) * TRAIL_GAP };
+
+    while (p.shed >= 1) {
+      p.shed -= 1;
+      this.trailFood.push({
+        x: wrap(behind.x + (this.rng() - 0.5) * 10, width),
+        y: wrap(behind.y + (this.rng() - 0.5) * 10, height),
+      });
+    }
+    if (this.trailFood.length > MAX_TRAIL_FOOD) this.trailFood.splice(0, this.trailFood.length - MAX_TRAIL_FOOD);
+  }
+
+  // Food dropped where a worm died, scaled with its size and score
+  private foodBurst(player: PlayerState, events: GameEvent[]): Vec[] {
+    const world = this.world;
+    const burstFood: Vec[] = [];
+
+    // Bigger worms and high scorers drop more
+    const { segmentFood, bonusFood: bonusFoodCount } = calculateFoodBurst(player.body.length, player.score);
+
+    this.log(`[food-burst] ${player.name} (score: ${player.score}, body: ${player.body.length}) creating ${segmentFood + bonusFoodCount} food items`);
+
+    // Create food from body segments
+    for (let i = 0; i < segmentFood; i++) {
+      const segmentIndex = i * 3;
+      if (segmentIndex < player.body.length) {
+        const segment = player.body[segmentIndex];
+        const offsetX = (this.rng() - 0.5) * 40;
+        const offsetY = (this.rng() - 0.5) * 40;
+
+        burstFood.push({
+          x: wrap(segment.x + offsetX, world.width),
+          y: wrap(segment.y + offsetY, world.height)
+        });
+      }
+    }
+
+    // Create bonus food in circle pattern
+    for (let i = 0; i < bonusFoodCount; i++) {
+      const angle = (Math.PI * 2 * i) / bonusFoodCount;
+      const radius = 60 + this.rng() * 40;
+      burstFood.push({
+        x: wrap(player.pos.x + Math.cos(angle) * radius, world.width),
+        y: wrap(player.pos.y + Math.sin(angle) * radius, world.height)
+      });
+    }
+
+    events.push({ type: "foodBurst", playerId: player.id, pos: { x: player.pos.x, y: player.pos.y }, count: burstFood.length });
+    return burstFood;
+  }
+
+  private randomPoint(): Vec {
+    return { x: this.rng() * this.world.width, y: this.rng() * this.world.height };
+  }
+}
@@ -0,0 +1,134 @@
+// server/src/room-pool.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RoomPool, type PoolEvent } from './room-pool';
+import { TickScheduler } from './scheduler';
+import { ROOM_CONFIGS } from './room-config';
+
+const TICK = 10;
+
+// Pool on a hand-driven scheduler, collecting what it emits
+function setup() {
+  const clock = { now: 0 };
+  const scheduler = new TickScheduler({ tickMs: TICK, now: () => clock.now });
+  scheduler.advance(0);
+  const events: PoolEvent[] = [];
+  const pool = new RoomPool(event => events.push(event), scheduler);
+  const run = (ticks: number) => {
+    for (let i = 0; i < ticks; i++) scheduler.advance(clock.now += TICK);
+  };
+  const sent = () => events.filter(e => e.type === 'send');
+  const lastStatus = () => events.filter(e => e.type === 'status').at(-1);
+  return { pool, events, run, sent, lastStatus };
+}
+
+describe('Room Pool', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report status when rooms are added and removed', () => {
+    const { pool, lastStatus } = setup();
+    pool.handle({ type: 'addRoom', config: ROOM_CONFIGS.chill });
+    pool.handle({ type: 'addRoom', config: ROOM_CONFIGS.arena1 });
+
+    expect(pool.size).toBe(2);
+    expect(lastStatus()).toEqual({
+      type: 'status',
+      rooms: [
+        { id: 'chill', state: 'freeplay', playerCount: 0, spectatorCount: 0 },
+        { id: 'arena1', state: 'waiting', playerCount: 0, spectatorCount: 0 },
+      ],
+    });
+
+    pool.handle({ type: 'removeRoom', roomId: 'arena1' });
+    expect(pool.size).toBe(1);
+    expect(lastStatus()).toEqual({ type: 'status', rooms: [{ id: 'chill', state: 'freeplay', playerCount: 0, spectatorCount: 0 }] });
+  });
+
+  it('should send snapshots to the connections in a room every tick', () => {
+    const { pool, run, sent } = setup();
+    pool.handle({ type: 'addRoom', config: ROOM_CONFIGS.chill });
+    pool.handle({ type: 'join', roomId: 'chill', conn: 'c1', encoding: 'json', delta: false, aoi: false, predict: false, events: false });
+
+    run(3);
+    expect(sent()).toHaveLength(3);
+    expect(sent().every(e => e.type === 'send' && e.roomId === 'chill' && e.to[0] === 'c1')).toBe(true);
+  });
+
+  it('should stop ticking a removed room', () => {
+    const { pool, run, sent } = setup();
+    pool.handle({ type: 'addRoom', config: ROOM_CONFIGS.chill });
+    pool.handle({ type: 'join', roomId: 'chill', conn: 'c1', encoding: 'json', delta: false, aoi: false, predict: false, events: false });
+    pool.handle({ type: 'removeRoom', roomId: 'chill' });
+
+    run(3);
+    expect(sent()).toHaveLength(0);
+  });
+
+  it('should count players joining and leaving', () => {
+    const { pool, lastStatus } = setup();
+    pool.handle({ type: 'addRoom', config: ROOM_CONFIGS.chill });
+    pool.handle({
+      type: 'join', roomId: 'chill', conn: 'c1', encoding: 'binary', delta: true, aoi: true, predict: true, events: false,
+      player: { id: 'p1', name: 'P1', color: '#fff' },
+    });
+    expect(lastStatus()).toMatchObject({ rooms: [{ playerCount: 1 }] });
+
+    pool.handle({ type: 'leave', roomId: 'chill', conn: 'c1', worm: 'hold' });
+    expect(lastStatus()).toMatchObject({ rooms: [{ playerCount: 1 }] });
+
+    pool.handle({ type: 'removePlayer', roomId: 'chill', playerId: 'p1' });
+    expect(lastStatus()).toMatchObject({ rooms: [{ playerCount: 0 }] });
+  });
+
+  it('should run tournament round commands', () => {
+    const { pool, lastStatus } = setup();
+    pool.handle({ type: 'addRoom', config: ROOM_CONFIGS.arena1 });
+
+    pool.handle({ type: 'startRound', roomId: 'arena1', at: Date.now() });
+    expect(lastStatus()).toMatchObject({ rooms: [{ state: 'active' }] });
+    pool.handle({ type: 'endRound', roomId: 'arena1' });
+    expect(lastStatus()).toMatchObject({ rooms: [{ state: 'finished' }] });
+    pool.handle({ type: 'resetRound', roomId: 'arena1' });
+    expect(lastStatus()).toMatchObject({ rooms: [{ state: 'waiting' }] });
+  });
+
+  it('should report status about once a second without commands', () => {
+    const { pool, events, run } = setup();
+    pool.handle({ type: 'addRoom', config: ROOM_CONFIGS.chill });
+    events.length = 0;
+
+    run(90);
+    expect(events.filter(e => e.type === 'status')).toHaveLength(3);
+  });
+
+  it('should answer a save with every room and start rooms from saved state', () => {
+    const { pool, events, lastStatus } = setup();
+    pool.handle({ type: 'addRoom', config: ROOM_CONFIGS.arena1 });
+    pool.handle({
+      type: 'join', roomId: 'arena1', conn: 'c1', encoding: 'json', delta: false, aoi: false, predict: false, events: false,
+      player: { id: 'p1', name: 'P1', color: '#fff' },
+    });
+    pool.handle({ type: 'startRound', roomId: 'arena1', at: Date.now() });
+    pool.handle({ type: 'save', id: 7 });
+
+    const saved = events.find(e => e.type === 'saved');
+    expect(saved).toMatchObject({ id: 7, rooms: [{ config: { id: 'arena1' }, state: 'active' }] });
+
+    const other = setup();
+    other.pool.handle({ type: 'addRoom', config: ROOM_CONFIGS.arena1, restore: saved!.type === 'saved' ? saved!.rooms[0] : undefined });
+    expect(other.lastStatus()).toEqual(lastStatus());
+  });
+
+  it('should ignore commands for rooms it does not run', () => {
+    const { pool, events } = setup();
+    pool.handle({ type: 'client', roomId: 'nowhere', conn: 'c1', msg: { type: 'turn', dir: 1 } });
+    pool.handle({ type: 'leave', roomId: 'nowhere', conn: 'c1', worm: 'remove' });
+
+    expect(events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,143 @@
+// server/src/room-pool.ts
+// A set of rooms ticked by one fixed-timestep scheduler.
+//
+// The server talks to a pool only through PoolCommands and hears back through
+// PoolEvents, so the same pool runs on the main thread or inside a worker
+// thread (room-worker.ts) with the messages going over postMessage.
+
+import type { WireEncoding } from "../../client/src/net/protocol";
+import { TickScheduler } from "./scheduler.js";
+import { SnapshotSync } from "./snapshot-sync.js";
+import type { RoomConfig } from "./room-config.js";
+import {
+  RoomRuntime, TICK_MS, TICK_HZ, type RoomClientMsg, type RoomStatus, type Outgoing, type SavedRoom
+} from "./room-runtime.js";
+
+const ROOM_TICK_BUDGET_MS = 5;        // step + broadcast for one room; all rooms in a pool share a tick
+const STATUS_EVERY_TICKS = TICK_HZ;   // room status reported about once a second
+
+export type JoinCommand = {
+  type: "join";
+  roomId: string;
+  conn: string;
+  encoding: WireEncoding;
+  delta: boolean;
+  aoi: boolean;
+  predict: boolean;
+  events: boolean;
+  player?: { id: string; name: string; color: string; avatar?: string };
+  resume?: boolean;     // take over the worm held under player.id
+};
+
+export type PoolCommand =
+  | { type: "addRoom"; config: RoomConfig; restore?: SavedRoom }
+  | { type: "removeRoom"; roomId: string }
+  | { type: "configure"; config: RoomConfig }
+  | JoinCommand
+  | { type: "leave"; roomId: string; conn: string; worm: "hold" | "keep" | "remove" }
+  | { type: "removePlayer"; roomId: string; playerId: string }
+  | { type: "client"; roomId: string; conn: string; msg: RoomClientMsg }
+  | { type: "startRound"; roomId: string; at: number }
+  | { type: "endRound"; roomId: string }
+  | { type: "resetRound"; roomId: string }
+  | { type: "save"; id: number };     // answered with a "saved" event carrying the same id
+
+export type PoolEvent =
+  | ({ type: "send"; roomId: string } & Outgoing)
+  | { type: "status"; rooms: RoomStatus[] }
+  | { type: "saved"; id: number; rooms: SavedRoom[] };
+
+export class RoomPool {
+  private rooms = new Map<string, RoomRuntime>();
+  private readonly scheduler: TickScheduler;
+
+  constructor(private readonly emit: (event: PoolEvent) => void, scheduler?: TickScheduler) {
+    this.scheduler = scheduler ?? new TickScheduler({ tickMs: TICK_MS, budgetMs: ROOM_TICK_BUDGET_MS });
+    this.scheduler.add(":status", (tick) => { // not a valid room id, so it can't collide
+      if (tick % STATUS_EVERY_TICKS === 0) this.reportStatus();
+    });
+  }
+
+  start() {
+    this.scheduler.start();
+  }
+
+  stop() {
+    this.scheduler.stop();
+  }
+
+  get size() {
+    return this.rooms.size;
+  }
+
+  handle(cmd: PoolCommand) {
+    if (cmd.type === "addRoom") {
+      this.addRoom(cmd.config, cmd.restore);
+      this.reportStatus();
+      return;
+    }
+    if (cmd.type === "save") {
+      const now = Date.now();
+      this.emit({ type: "saved", id: cmd.id, rooms: Array.from(this.rooms.values(), r => r.save(now)) });
+      return;
+    }
+
+    const room = this.rooms.get(cmd.type === "configure" ? cmd.config.id : cmd.roomId);
+    if (!room) return; // e.g. input that raced a room being deleted
+
+    switch (cmd.type) {
+      case "removeRoom":
+        this.scheduler.remove(room.id);
+        this.rooms.delete(room.id);
+        break;
+      case "configure":
+        room.configure(cmd.config);
+        break;
+      case "join":
+        room.join({
+          conn: cmd.conn,
+          encoding: cmd.encoding,
+          sync: cmd.delta ? new SnapshotSync() : undefined, // fresh state per hello
+          aoi: cmd.aoi,
+          predict: cmd.predict,
+          events: cmd.events,
+        }, cmd.player, cmd.resume);
+        break;
+      case "leave":
+        room.leave(cmd.conn, cmd.worm);
+        break;
+      case "removePlayer":
+        room.removePlayer(cmd.playerId);
+        break;
+      case "client":
+        room.handle(cmd.conn, cmd.msg);
+        return; // gameplay input doesn't change the status
+      case "startRound":
+        room.startRound(cmd.at);
+        break;
+      case "endRound":
+        room.endRound();
+        break;
+      case "resetRound":
+        room.resetRound();
+        break;
+    }
+    this.reportStatus();
+  }
+
+  private addRoom(config: RoomConfig, restore?: SavedRoom) {
+    const room = new RoomRuntime(config, () => this.scheduler.time);
+    if (restore) room.restore(restore, Date.now());
+    this.rooms.set(room.id, room);
+    this.scheduler.add(room.id, (tick) => {
+      const now = Date.now(); // tournament rounds run on wall-clock time
+      for (const frame of room.tick(tick, now)) this.emit({ type: "send", roomId: room.id, ...frame });
+    });
+    const restored = restore ? `, restored with ${room.engine.players.size} worms` : "";
+    console.log(`[rooms] Initialized ${config.name} (${config.type})${restored}`);
+  }
+
+  private reportStatus() {
+    this.emit({ type: "status", rooms: Array.from(this.rooms.values(), r => r.status()) });
+  }
+}
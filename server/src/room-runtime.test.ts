@@ -0,0 +1,261 @@
+// server/src/room-runtime.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RoomRuntime, type Viewer } from './room-runtime';
+import { SnapshotSync } from './snapshot-sync';
+import { decodeSnapshot } from '../../client/src/net/codec';
+import type { RoomConfig } from './room-config';
+
+const casual: RoomConfig = {
+  id: 'test', name: 'Test', world: { width: 2000, height: 1200 }, maxPlayers: 10,
+  description: '', type: 'casual', foodCount: 20, roundDuration: 60_000, boostTrail: 0,
+};
+const tournament: RoomConfig = { ...casual, id: 'cup', name: 'Cup', type: 'tournament' };
+
+function viewer(conn: string, options: Partial<Viewer> = {}): Viewer {
+  return { conn, encoding: 'json', aoi: false, predict: false, events: false, ...options };
+}
+
+function player(id: string) {
+  return { id, name: id.toUpperCase(), color: '#fff' };
+}
+
+// Frames for one connection, decoded
+function framesFor(out: ReturnType<RoomRuntime['tick']>, conn: string) {
+  return out
+    .filter(frame => frame.to.includes(conn))
+    .map(frame => typeof frame.data === 'string' ? JSON.parse(frame.data) : decodeSnapshot(frame.data));
+}
+
+describe('Room Runtime', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should add a worm for a joining player but not for a spectator', () => {
+    const room = new RoomRuntime(casual, () => 0);
+    room.join(viewer('c1'), player('p1'));
+    room.join(viewer('c2'));
+
+    expect(room.engine.players.has('p1')).toBe(true);
+    expect(room.status()).toEqual({ id: 'test', state: 'freeplay', playerCount: 1, spectatorCount: 1 });
+    expect(room.connections()).toEqual(['c1', 'c2']);
+  });
+
+  it('should count spectators until they leave', () => {
+    const room = new RoomRuntime(casual, () => 0);
+    room.join(viewer('c1'), player('p1'));
+    room.join(viewer('c2'));
+    room.join(viewer('c3'));
+
+    room.leave('c2', 'remove');
+    room.leave('c1', 'hold');
+    expect(room.status()).toMatchObject({ playerCount: 1, spectatorCount: 1 });
+    room.leave('c3', 'remove');
+    expect(room.status().spectatorCount).toBe(0);
+  });
+
+  it('should hold a worm going straight after its connection drops', () => {
+    const room = new RoomRuntime(casual, () => 0);
+    room.join(viewer('c1'), player('p1'));
+    room.handle('c1', { type: 'turn', dir: 1 });
+    room.handle('c1', { type: 'boost', boosting: true });
+
+    room.leave('c1', 'hold');
+
+    const worm = room.engine.players.get('p1')!;
+    expect(worm.turn).toBe(0);
+    expect(worm.boosting).toBe(false);
+    expect(room.connections()).toEqual([]);
+  });
+
+  it('should hand a held worm to the resuming connection', () => {
+    const room = new RoomRuntime(casual, () => 0);
+    room.join(viewer('c1'), player('p1'));
+    room.handle('c1', { type: 'turn', dir: 1, seq: 5 });
+    room.leave('c1', 'hold');
+
+    room.join(viewer('c2'), player('p1'), true);
+    const worm = room.engine.players.get('p1')!;
+    expect(room.engine.players.size).toBe(1);
+    expect(worm.inputSeq).toBe(0);
+
+    room.handle('c2', { type: 'turn', dir: -1 });
+    expect(worm.turn).toBe(-1);
+  });
+
+  it('should remove the worm when the player leaves for good', () => {
+    const room = new RoomRuntime(casual, () => 0);
+    room.join(viewer('c1'), player('p1'));
+    room.leave('c1', 'remove');
+
+    expect(room.engine.players.size).toBe(0);
+  });
+
+  it('should ignore input from spectators and unknown connections', () => {
+    const room = new RoomRuntime(casual, () => 0);
+    room.join(viewer('c1'), player('p1'));
+    room.join(viewer('c2'));
+
+    room.handle('c2', { type: 'turn', dir: 1 });
+    room.handle('c3', { type: 'turn', dir: 1 });
+    expect(room.engine.players.get('p1')!.turn).toBe(0);
+  });
+
+  it('should encode a shared snapshot once per encoding', () => {
+    const room = new RoomRuntime(casual, () => 0);
+    room.join(viewer('a'));
+    room.join(viewer('b'));
+    room.join(viewer('c', { encoding: 'binary' }));
+    room.join(viewer('d', { encoding: 'binary' }));
+
+    const out = room.tick(1, 0);
+    expect(out).toHaveLength(2);
+    expect(out.map(frame => frame.to).sort()).toEqual([['a', 'b'], ['c', 'd']]);
+
+    const [json] = framesFor(out, 'a');
+    const [binary] = framesFor(out, 'c');
+    expect(json.type).toBe('state');
+    expect(binary.seq).toBe(json.snapshot.seq);
+    expect(binary.tick).toBe(1);
+  });
+
+  it('should send each delta-capable viewer its own keyframe, then deltas after an ack', () => {
+    const room = new RoomRuntime(casual, () => 0);
+    room.join(viewer('c1', { sync: new SnapshotSync() }), player('p1'));
+
+    const [first] = framesFor(room.tick(1, 0), 'c1');
+    expect(first.type).toBe('state');
+
+    room.handle('c1', { type: 'ack', seq: first.snapshot.seq });
+    const [second] = framesFor(room.tick(2, 0), 'c1');
+    expect(second.type).toBe('delta');
+  });
+
+  it('should send events to "events" clients on the tick they happen, ahead of the snapshot', () => {
+    const room = new RoomRuntime(casual, () => 0);
+    room.join(viewer('c1'), player('p1'));
+    room.join(viewer('c2', { encoding: 'binary', events: true }));
+    const victim = room.engine.players.get('p1')!;
+    victim.pos = { x: 500, y: 500 };
+    victim.angle = 0;
+    victim.body = Array.from({ length: 20 }, (_, i) => ({ x: 500 - i, y: 560 }));
+    victim.body[10] = { x: 500 + victim.speed, y: 500 };
+
+    const out = room.tick(1, 0);
+    const [events, snap] = framesFor(out, 'c2');
+    expect(events).toMatchObject({ type: 'events', tick: 1 });
+    expect(events.events.map((e: { type: string }) => e.type)).toEqual(['kill', 'foodBurst']);
+    expect(events.events[0]).toEqual({ type: 'kill', victimId: 'p1', victimName: 'P1', cause: 'self' });
+    expect(snap.dead).toEqual(['p1']);
+    expect(framesFor(room.tick(2, 0), 'c2')).toHaveLength(1);
+  });
+
+  it('should still send kills to clients without "events"', () => {
+    const room = new RoomRuntime(casual, () => 0);
+    room.join(viewer('c1'), player('p1'));
+    const victim = room.engine.players.get('p1')!;
+    victim.pos = { x: 500, y: 500 };
+    victim.angle = 0;
+    victim.body = Array.from({ length: 20 }, (_, i) => ({ x: 500 - i, y: 560 }));
+    victim.body[10] = { x: 500 + victim.speed, y: 500 };
+
+    const [kill, snap] = framesFor(room.tick(1, 0), 'c1');
+    expect(kill).toEqual({ type: 'kill', tick: 1, kills: [{ victimId: 'p1', victimName: 'P1', cause: 'self' }] });
+    expect(snap.type).toBe('state');
+  });
+
+  it('should send "events" clients round changes as messages instead of snapshot fields', () => {
+    const room = new RoomRuntime(tournament, () => 0);
+    room.join(viewer('c1'), player('p1'));
+    room.join(viewer('c2', { events: true }));
+    expect(framesFor(room.tick(1, 0), 'c2').map(f => f.type)).toEqual(['state']);
+
+    room.startRound(1000);
+    const [round, snap] = framesFor(room.tick(2, 1000), 'c2');
+    expect(round).toEqual({ type: 'tournament', timer: { state: 'active', remaining: 60, duration: 60 } });
+    expect(snap.snapshot.tournamentTimer).toBeUndefined();
+    expect(framesFor(room.tick(3, 1000), 'c2').map(f => f.type)).toEqual(['state']);
+    const out = room.tick(4, 1500);
+    expect(framesFor(out, 'c2')[0].timer).toMatchObject({ remaining: 59 });
+    expect(framesFor(out, 'c1')[0].snapshot.tournamentTimer).toMatchObject({ remaining: 59 });
+
+    room.resetRound();
+    expect(framesFor(room.tick(5, 2000), 'c2')[0]).toEqual({ type: 'tournament' });
+  });
+
+  it('should echo applied input seqs to predicting players only', () => {
+    const room = new RoomRuntime(casual, () => 0);
+    room.join(viewer('c1', { predict: true }), player('p1'));
+    room.join(viewer('c2'), player('p2'));
+    room.handle('c1', { type: 'turn', dir: 1, seq: 3 });
+    room.handle('c2', { type: 'turn', dir: 1, seq: 4 });
+
+    const out = room.tick(1, 0);
+    expect(framesFor(out, 'c1')[0].snapshot.inputSeq).toBe(3);
+    expect(framesFor(out, 'c2')[0].snapshot.inputSeq).toBeUndefined();
+  });
+
+  it('should leave casual rooms alone on round commands', () => {
+    const room = new RoomRuntime(casual, () => 0);
+    room.startRound(0);
+    room.endRound();
+
+    expect(room.state).toBe('freeplay');
+  });
+
+  it('should end a tournament round when the timer runs out and name the winner', () => {
+    const room = new RoomRuntime(tournament, () => 0);
+    room.join(viewer('c1'), player('p1'));
+    room.join(viewer('c2'), player('p2'));
+    room.engine.players.get('p2')!.score = 50;
+
+    room.startRound(1000);
+    const [running] = framesFor(room.tick(1, 1000 + 30_000), 'c1');
+    expect(running.snapshot.tournamentTimer).toEqual({ state: 'active', remaining: 30, duration: 60 });
+
+    const [ended] = framesFor(room.tick(2, 1000 + 60_000), 'c1');
+    expect(room.state).toBe('finished');
+    expect(ended.snapshot.tournamentWinner).toEqual({ name: 'P2', score: 50 });
+  });
+
+  it('should save and restore a tournament round, pausing its timer while down', () => {
+    const room = new RoomRuntime(tournament, () => 0);
+    room.join(viewer('c1'), player('p1'));
+    room.startRound(1000);
+    const saved = JSON.parse(JSON.stringify(room.save(1000 + 20_000)));
+
+    const restored = new RoomRuntime(tournament, () => 0);
+    restored.restore(saved, 500_000);
+    restored.join(viewer('c2'), player('p1'), true);
+
+    expect(restored.state).toBe('active');
+    expect(restored.engine.players.size).toBe(1);
+    const [frame] = framesFor(restored.tick(1, 500_000), 'c2');
+    expect(frame.snapshot.tournamentTimer.remaining).toBe(40);
+  });
+
+  it('should restore a finished round with its winner', () => {
+    const room = new RoomRuntime(tournament, () => 0);
+    room.join(viewer('c1'), player('p1'));
+    room.startRound(0);
+    room.tick(1, 60_000);
+
+    const restored = new RoomRuntime(tournament, () => 0);
+    restored.restore(JSON.parse(JSON.stringify(room.save(70_000))), 0);
+    expect(restored.state).toBe('finished');
+    expect(restored.tournament!.topPlayers).toEqual([{ id: 'p1', name: 'P1', score: 10 }]);
+  });
+
+  it('should apply live config changes but keep the world size', () => {
+    const room = new RoomRuntime(tournament, () => 0);
+    room.configure({ ...tournament, name: 'Grand Cup', roundDuration: 90_000, world: { width: 500, height: 500 } });
+
+    expect(room.config.name).toBe('Grand Cup');
+    expect(room.config.world).toEqual(tournament.world);
+    expect(room.timing!.roundDuration).toBe(90_000);
+  });
+});
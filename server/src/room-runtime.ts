@@ -0,0 +1,406 @@
+// server/src/room-runtime.ts
+// One running room: its simulation, tournament round and the connections
+// watching it, plus the per-tick fan-out of snapshots to those connections.
+//
+// Nothing in here touches a socket. Connections are known by id, and each tick
+// returns the encoded frames to send, so a room can run on the main thread or
+// inside a worker (see room-pool.ts) without changes.
+
+import type {
+  Snapshot, StateMsg, Kill, KillEvent, KillMsg, EventsMsg, TournamentMsg, WireEncoding, TurnMsg, SteerMsg, BoostMsg, RespawnMsg, AckMsg, ViewMsg
+} from "../../client/src/net/protocol";
+import { encodeSnapshot, encodeDelta } from "../../client/src/net/codec.js";
+import { RoomEngine, type Clock, type EngineState } from "./room-engine.js";
+import { SnapshotSync } from "./snapshot-sync.js";
+import { cullSnapshot, clampView, DEFAULT_VIEW, type ViewExtent } from "./interest.js";
+import type { RoomConfig } from "./room-config.js";
+
+export const TICK_HZ = 30;
+export const TICK_MS = 1000 / TICK_HZ;
+const STATE_HZ = 30; // Broadcast at 30 Hz (clients interpolate remote worms between snapshots)
+const TICKS_PER_STATE = Math.max(1, Math.round(TICK_HZ / STATE_HZ));
+const NO_ROUND = JSON.stringify({ type: "tournament" }); // what a viewer knows before any round message
+
+export type RoomState = "waiting" | "ready_check" | "countdown" | "active" | "finished" | "freeplay";
+
+// What the lobby needs to know about a room
+export type RoomStatus = {
+  id: string;
+  state: RoomState;
+  playerCount: number;   // worms in the room, including ones held for a dropped connection
+  spectatorCount: number; // connections watching without a worm
+};
+
+// A connection in the room, playing (with a worm) or spectating
+export type Viewer = {
+  conn: string;
+  playerId?: string;
+  encoding: WireEncoding;
+  sync?: SnapshotSync;  // delta-capable clients only
+  aoi: boolean;         // cull to the area around their worm
+  predict: boolean;     // echo input seqs for client-side prediction
+  events: boolean;      // send game events and round messages (snapshots leave the round out)
+  round?: string;       // last round message sent (JSON), to send only changes
+  view?: ViewExtent;
+};
+
+// Messages a connection sends that its room handles
+export type RoomClientMsg = TurnMsg | SteerMsg | BoostMsg | RespawnMsg | AckMsg | ViewMsg;
+
+// A frame for one or more connections; shared frames are encoded once
+export type Outgoing = { to: string[]; data: string | Uint8Array };
+
+// A room's state saved across a server restart (see room-state.ts)
+export type SavedRoom = {
+  config: RoomConfig;
+  state: RoomState;
+  readyPlayers: string[];
+  roundElapsed?: number;   // ms into an active tournament round; the clock is paused while the server is down
+  tournament?: {
+    topPlayers: Array<{ id: string; name: string; score: number }>;
+    advancedPlayers: string[];
+  };
+  engine: EngineState;
+};
+
+export function initialRoomState(config: RoomConfig): RoomState {
+  return config.type === "casual" ? "freeplay" : "waiting";
+}
+
+export class RoomRuntime {
+  readonly id: string;
+  config: RoomConfig;
+  state: RoomState;
+  readonly engine: RoomEngine;
+  readyPlayers = new Set<string>();
+  timing?: {
+    roundStartTime: number;
+    roundDuration: number;
+    countdownStartTime?: number;
+  };
+  broadcastSeq = 0;   // increments per broadcast, used as delta baseline ids
+  tournament?: {
+    topPlayers: Array<{ id: string; name: string; score: number }>;
+    advancedPlayers: Set<string>;
+  };
+
+  private viewers = new Map<string, Viewer>();
+
+  constructor(config: RoomConfig, now: Clock) {
+    this.id = config.id;
+    this.config = config;
+    this.state = initialRoomState(config);
+    this.engine = new RoomEngine({ world: config.world, now, boostTrail: config.boostTrail });
+
+    // Add timing for tournament rooms
+    if (config.type === "tournament") {
+      this.timing = {
+        roundStartTime: 0,
+        roundDuration: config.roundDuration,
+      };
+      this.tournament = {
+        topPlayers: [],
+        advancedPlayers: new Set()
+      };
+    }
+
+    // Seed food for this room
+    this.engine.seedFood(config.foodCount);
+    console.log(`[food] ${config.name}: Seeded ${config.foodCount} regular + ${this.engine.bonusFood.length} bonus food`);
+  }
+
+  /**
+   * A connection entered the room. Players bring a worm: with `resume` the
+   * worm held under `player.id` is taken over if it's still here.
+   */
+  join(viewer: Viewer, player?: { id: string; name: string; color: string; avatar?: string }, resume = false) {
+    this.viewers.set(viewer.conn, viewer);
+    if (!player) return;
+
+    const held = resume ? this.engine.players.get(player.id) : undefined;
+    if (held) {
+      held.inputSeq = 0;   // the new connection numbers its inputs from 1 again
+      held.inputTicks = 0;
+    } else {
+      this.engine.addPlayer(player.id, player.name, player.color, player.avatar);
+    }
+    viewer.playerId = player.id;
+  }
+
+  /**
+   * A connection left. Its worm is held (kept going straight) while the player
+   * may still resume, kept as is if another connection took it over, or removed.
+   */
+  leave(conn: string, worm: "hold" | "keep" | "remove") {
+    const viewer = this.viewers.get(conn);
+    if (!viewer) return;
+    this.viewers.delete(conn);
+
+    const playerId = viewer.playerId;
+    if (!playerId) return;
+    if (worm === "hold") {
+      this.engine.applyInput(playerId, { type: "turn", dir: 0 });
+      this.engine.applyInput(playerId, { type: "boost", boosting: false });
+    } else if (worm === "remove") {
+      this.removePlayer(playerId);
+    }
+  }
+
+  removePlayer(playerId: string) {
+    this.engine.removePlayer(playerId);
+  }
+
+  /** Handle a gameplay message from a connection in this room */
+  handle(conn: string, msg: RoomClientMsg) {
+    const viewer = this.viewers.get(conn);
+    if (!viewer) return;
+
+    if (msg.type === "ack") {
+      viewer.sync?.ack(msg.seq);
+      return;
+    }
+    if (msg.type === "view") {
+      viewer.view = clampView(msg.width, msg.height);
+      return;
+    }
+
+    const playerId = viewer.playerId;
+    if (!playerId) return;
+    if (msg.type === "respawn") {
+      const p = this.engine.respawn(playerId);
+      if (p) console.log(`[respawn] ${p.name} respawned as baby worm at (${Math.round(p.pos.x)}, ${Math.round(p.pos.y)})`);
+      return;
+    }
+    this.engine.applyInput(playerId, msg);
+  }
+
+  /** Apply a changed config that doesn't need a fresh room (see needsRestart) */
+  configure(config: RoomConfig) {
+    const previous = this.config;
+    this.config = { ...config, type: previous.type, world: previous.world };
+    if (this.timing) this.timing.roundDuration = config.roundDuration;
+    this.engine.boostTrail = config.boostTrail;
+    if (config.foodCount !== previous.foodCount) this.engine.seedFood(config.foodCount);
+  }
+
+  startRound(now: number) {
+    if (this.config.type !== "tournament") return;
+    this.state = "active";
+    if (this.timing) {
+      this.timing.roundStartTime = now;
+    }
+
+    // Clear previous winner overlay
+    if (this.tournament) {
+      this.tournament.topPlayers = [];
+      this.tournament.advancedPlayers.clear();
+    }
+  }
+
+  endRound() {
+    if (this.config.type !== "tournament") return;
+    this.state = "finished";
+  }
+
+  resetRound() {
+    if (this.config.type !== "tournament") return;
+    this.state = "waiting";
+    this.readyPlayers.clear();
+    if (this.timing) {
+      this.timing.roundStartTime = 0;
+    }
+    if (this.tournament) {
+      this.tournament.topPlayers = [];
+      this.tournament.advancedPlayers.clear();
+    }
+  }
+
+  /** Everything needed to pick the room up again after a restart */
+  save(now: number): SavedRoom {
+    return {
+      config: this.config,
+      state: this.state,
+      readyPlayers: Array.from(this.readyPlayers),
+      roundElapsed: this.state === "active" && this.timing ? now - this.timing.roundStartTime : undefined,
+      tournament: this.tournament && {
+        topPlayers: this.tournament.topPlayers.map(p => ({ ...p })),
+        advancedPlayers: Array.from(this.tournament.advancedPlayers),
+      },
+      engine: this.engine.exportState(),
+    };
+  }
+
+  /** Continue from a saved room of the same type and world size; the round timer picks up where it stopped */
+  restore(saved: SavedRoom, now: number) {
+    this.engine.restoreState(saved.engine);
+    this.state = saved.state;
+    this.readyPlayers = new Set(saved.readyPlayers);
+    if (this.timing && saved.roundElapsed !== undefined) {
+      this.timing.roundStartTime = now - saved.roundElapsed;
+    }
+    if (saved.tournament) {
+      this.tournament = {
+        topPlayers: saved.tournament.topPlayers,
+        advancedPlayers: new Set(saved.tournament.advancedPlayers),
+      };
+    }
+  }
+
+  /** Connection ids in the room */
+  connections(): string[] {
+    return Array.from(this.viewers.keys());
+  }
+
+  status(): RoomStatus {
+    let spectatorCount = 0;
+    for (const viewer of this.viewers.values()) if (!viewer.playerId) spectatorCount++;
+    return { id: this.id, state: this.state, playerCount: this.engine.players.size, spectatorCount };
+  }
+
+  /** Step the simulation; returns the frames to send. `now` is wall-clock ms for tournament rounds */
+  tick(tick: number, now: number): Outgoing[] {
+    // For now, run all rooms (tournament logic will be added later)
+    // if (this.config.type === "tournament" && this.state !== "active") {
+    //   return;
+    // }
+
+    const dead = this.engine.step();
+    const round = this.round(now);
+
+    // Events go out on the tick they happen, ahead of its snapshot
+    const out: Outgoing[] = [];
+    const eventViewers = Array.from(this.viewers.values()).filter(viewer => viewer.events);
+    if (this.engine.events.length && eventViewers.length) {
+      const msg: EventsMsg = { type: "events", tick, events: this.engine.events };
+      out.push({ to: eventViewers.map(viewer => viewer.conn), data: JSON.stringify(msg) });
+    }
+    // Clients without "events" still get the kills, for their kill feed
+    const killViewers = Array.from(this.viewers.values()).filter(viewer => !viewer.events);
+    const kills: Kill[] = this.engine.events
+      .filter((e): e is KillEvent => e.type === "kill")
+      .map(({ type: _type, ...kill }) => kill);
+    if (kills.length && killViewers.length) {
+      const msg: KillMsg = { type: "kill", tick, kills };
+      out.push({ to: killViewers.map(viewer => viewer.conn), data: JSON.stringify(msg) });
+    }
+
+    // Throttle broadcasts to STATE_HZ, but report deaths right away
+    const shouldBroadcast = dead.length > 0 || tick % TICKS_PER_STATE === 0;
+    if (!shouldBroadcast) return out;
+
+    this.broadcastSeq++;
+
+    // Create snapshot for this room
+    const snap: Snapshot = { ...this.engine.snapshot(), seq: this.broadcastSeq, tick };
+
+    if (dead.length) snap.dead = dead;
+
+    // "events" clients get the round as a message when it changes, the rest in every snapshot
+    const roundJson = JSON.stringify(round);
+    const roundChanged = eventViewers.filter(viewer => (viewer.round ?? NO_ROUND) !== roundJson);
+    if (roundChanged.length) {
+      for (const viewer of roundChanged) viewer.round = roundJson;
+      out.push({ to: roundChanged.map(viewer => viewer.conn), data: roundJson });
+    }
+    const legacySnap: Snapshot = round.timer || round.winner
+      ? { ...snap, tournamentTimer: round.timer, tournamentWinner: round.winner }
+      : snap;
+
+    out.push(...this.fanOut(snap, legacySnap));
+    return out;
+  }
+
+  // The tournament round as of `now`, ending it when its timer runs out
+  private round(now: number): TournamentMsg {
+    const round: TournamentMsg = { type: "tournament" };
+
+    if (this.config.type === "tournament" && this.state === "active" && this.timing) {
+      const elapsed = now - this.timing.roundStartTime;
+      const remaining = Math.max(0, this.timing.roundDuration - elapsed);
+      round.timer = {
+        state: this.state,
+        remaining: Math.floor(remaining / 1000), // seconds
+        duration: Math.floor(this.timing.roundDuration / 1000)
+      };
+
+      // Auto-end round when timer expires
+      if (remaining <= 0 && this.state === "active") {
+        this.state = "finished";
+
+        // Find winner (top score) and store it
+        const players = Array.from(this.engine.players.values());
+        if (players.length > 0) {
+          const winner = players.reduce((top, p) => p.score > top.score ? p : top);
+          this.tournament = {
+            topPlayers: [{ id: winner.id, name: winner.name, score: winner.score }],
+            advancedPlayers: new Set()
+          };
+          console.log(`[tournament] ${this.config.name} round ended - Winner: ${winner.name} (${winner.score})`);
+        } else {
+          console.log(`[tournament] ${this.config.name} round ended (timer expired)`);
+        }
+      }
+    }
+
+    // Show winner overlay if round is finished
+    if (this.state === "finished" && this.tournament && this.tournament.topPlayers.length > 0) {
+      const winner = this.tournament.topPlayers[0];
+      round.winner = {
+        name: winner.name,
+        score: winner.score
+      };
+    }
+    return round;
+  }
+
+  // Encode the snapshot for every viewer; `legacySnap` is the same with the round, for clients without "events"
+  private fanOut(snap: Snapshot, legacySnap: Snapshot): Outgoing[] {
+    const out: Outgoing[] = [];
+
+    // Each full snapshot is encoded at most once per encoding, for everyone who shares it
+    const shared = new Map<Snapshot, { json: string[]; binary: string[] }>();
+
+    for (const viewer of this.viewers.values()) {
+      const base = viewer.events ? snap : legacySnap;
+
+      // Players only receive what's around them; spectators and clients without
+      // the "aoi" capability see the whole map
+      const playerId = viewer.playerId;
+      const view = viewer.view ?? DEFAULT_VIEW;
+      let clientSnap = playerId && viewer.aoi ? cullSnapshot(base, playerId, view) : base;
+
+      // Predicting clients reconcile against the last input we applied for them
+      const self = playerId && viewer.predict ? this.engine.players.get(playerId) : undefined;
+      if (self) {
+        clientSnap = { ...clientSnap, inputSeq: self.inputSeq, inputTicks: self.inputTicks };
+      }
+      const isBinary = viewer.encoding === "binary";
+      const to = [viewer.conn];
+
+      if (viewer.sync) {
+        // Delta-capable clients get a keyframe or a diff against their last ack
+        const msg = viewer.sync.next(clientSnap);
+        if (isBinary) {
+          out.push({ to, data: msg.type === "delta" ? encodeDelta(msg.delta) : encodeSnapshot(msg.snapshot) });
+        } else {
+          out.push({ to, data: JSON.stringify(msg) });
+        }
+      } else if (clientSnap !== base) {
+        out.push({ to, data: isBinary ? encodeSnapshot(clientSnap) : JSON.stringify({ type: "state", snapshot: clientSnap }) });
+      } else {
+        const group = shared.get(base) ?? { json: [], binary: [] };
+        shared.set(base, group);
+        (isBinary ? group.binary : group.json).push(viewer.conn);
+      }
+    }
+
+    for (const [full, group] of shared) {
+      if (group.binary.length > 0) out.push({ to: group.binary, data: encodeSnapshot(full) });
+      if (group.json.length > 0) {
+        const payload: StateMsg = { type: "state", snapshot: full };
+        out.push({ to: group.json, data: JSON.stringify(payload) });
+      }
+    }
+    return out;
+  }
+}
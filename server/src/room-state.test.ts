@@ -0,0 +1,116 @@
+// server/src/room-state.test.ts
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readStateFile, writeStateFile, planRestore, STATE_VERSION, STATE_MAX_AGE_MS, type ServerState } from './room-state';
+import { ROOM_CONFIGS } from './room-config';
+import { createPlayer } from './room-engine';
+import type { SavedRoom } from './room-runtime';
+
+const configs = Object.values(ROOM_CONFIGS);
+
+function savedRoom(id: string, playerIds: string[]): SavedRoom {
+  const config = ROOM_CONFIGS[id];
+  return {
+    config,
+    state: 'active',
+    readyPlayers: [],
+    roundElapsed: 30_000,
+    tournament: { topPlayers: [], advancedPlayers: [] },
+    engine: {
+      players: playerIds.map(pid => createPlayer(pid, pid, '#fff', undefined, config.world)),
+      foods: [{ x: 1, y: 2 }],
+      bonusFood: [],
+    },
+  };
+}
+
+function state(rooms: SavedRoom[], sessions: ServerState['sessions'], savedAt = 1000): ServerState {
+  return { version: STATE_VERSION, savedAt, rooms, sessions };
+}
+
+describe('Room State', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('should write and read back the state file', () => {
+    dir = mkdtempSync(join(tmpdir(), 'room-state-'));
+    const path = join(dir, 'room-state.json');
+    const saved = state([savedRoom('arena1', ['p1'])], [{ token: 't1', playerId: 'p1', roomId: 'arena1' }]);
+
+    expect(readStateFile(path)).toBeNull();
+    writeStateFile(path, saved);
+    expect(readStateFile(path)).toEqual({ ok: true, state: saved });
+    expect(existsSync(`${path}.tmp`)).toBe(false);
+  });
+
+  it('should refuse unreadable or foreign state files', () => {
+    dir = mkdtempSync(join(tmpdir(), 'room-state-'));
+    const path = join(dir, 'room-state.json');
+
+    writeFileSync(path, '{ broken');
+    expect(readStateFile(path)?.ok).toBe(false);
+    writeFileSync(path, JSON.stringify({ ...state([], []), version: STATE_VERSION + 1 }));
+    expect(readStateFile(path)).toEqual({ ok: false, error: `not a version ${STATE_VERSION} state file` });
+    writeFileSync(path, JSON.stringify({ version: STATE_VERSION, rooms: [] }));
+    expect(readStateFile(path)?.ok).toBe(false);
+    writeFileSync(path, JSON.stringify({ ...state([], []), adminRooms: 'custom' }));
+    expect(readStateFile(path)?.ok).toBe(false);
+  });
+
+  it('should restore rooms with the worms their players can resume', () => {
+    const saved = state(
+      [savedRoom('arena1', ['p1', 'p2']), savedRoom('chill', ['p3'])],
+      [{ token: 't1', playerId: 'p1', roomId: 'arena1' }, { token: 't3', playerId: 'p3', roomId: 'chill' }],
+    );
+    const plan = planRestore(saved, configs, 2000);
+
+    expect(plan.skipped).toEqual([]);
+    expect([...plan.rooms.keys()]).toEqual(['arena1', 'chill']);
+    expect(plan.rooms.get('arena1')!.engine.players.map(p => p.id)).toEqual(['p1']);
+    expect(plan.rooms.get('arena1')!.roundElapsed).toBe(30_000);
+    expect(plan.sessions.map(s => s.token)).toEqual(['t1', 't3']);
+  });
+
+  it('should skip rooms that are gone or changed shape', () => {
+    const resized = { ...savedRoom('arena2', ['p2']) };
+    resized.config = { ...resized.config, world: { width: 999, height: 999 } };
+    const saved = state(
+      [savedRoom('arena1', ['p1']), resized],
+      [{ token: 't1', playerId: 'p1', roomId: 'arena1' }, { token: 't2', playerId: 'p2', roomId: 'arena2' }],
+    );
+    const plan = planRestore(saved, configs.filter(c => c.id !== 'arena1'), 2000);
+
+    expect(plan.rooms.size).toBe(0);
+    expect(plan.sessions).toEqual([]);
+    expect(plan.skipped).toEqual(['arena1: no longer configured', 'arena2: type or world size changed']);
+  });
+
+  it('should bring back admin-created rooms unless the rooms file took the id', () => {
+    const custom = { ...ROOM_CONFIGS['arena1'], id: 'custom', name: 'Custom' };
+    const taken = { ...ROOM_CONFIGS['arena1'], id: 'chill', name: 'Old Chill' };
+    const saved = savedRoom('arena1', ['p1']);
+    const customRoom = { ...saved, config: custom, engine: { ...saved.engine, players: [] } };
+    const plan = planRestore(
+      { ...state([customRoom], []), adminRooms: [custom, taken] },
+      configs,
+      2000,
+    );
+
+    expect(plan.adminRooms).toEqual([custom]);
+    expect([...plan.rooms.keys()]).toEqual(['custom']);
+  });
+
+  it('should ignore state that is too old', () => {
+    const saved = state([savedRoom('arena1', ['p1'])], [{ token: 't1', playerId: 'p1', roomId: 'arena1' }], 0);
+    const plan = planRestore(saved, configs, STATE_MAX_AGE_MS + 1);
+
+    expect(plan.rooms.size).toBe(0);
+    expect(plan.skipped).toHaveLength(1);
+  });
+});
@@ -0,0 +1,102 @@
+// server/src/room-state.ts
+// Room state saved to disk so a restart (a deploy, or a crash between
+// autosaves) doesn't wipe the worms, food and tournament rounds.
+//
+// The server writes the state file on shutdown and every few seconds while it
+// runs, and reads it back on startup: rooms still in the rooms file with the
+// same type and world size continue where they were, and their players have a
+// while to reconnect and resume their worms with their old resume tokens.
+// Rooms an admin created aren't in the rooms file, so their configs are saved
+// too and they're created again before the saved rooms are matched up.
+
+import { readFileSync, writeFileSync, renameSync, existsSync } from "fs";
+import type { SavedRoom } from "./room-runtime.js";
+import type { SavedSession } from "./sessions.js";
+import { needsRestart, type RoomConfig } from "./room-config.js";
+
+export const STATE_VERSION = 1;
+export const STATE_MAX_AGE_MS = 30 * 60_000; // older state is from another event; start fresh
+
+export type ServerState = {
+  version: number;
+  savedAt: number;          // Date.now()
+  rooms: SavedRoom[];
+  sessions: SavedSession[]; // resume tokens for the saved worms
+  adminRooms?: RoomConfig[]; // rooms created by an admin command (absent in older files)
+};
+
+export type RestorePlan = {
+  adminRooms: RoomConfig[];      // admin-created rooms to create again
+  rooms: Map<string, SavedRoom>; // by room id
+  sessions: SavedSession[];
+  skipped: string[];        // why saved rooms weren't restored, for the log
+};
+
+/** Write the state file; a crash mid-write leaves the previous one in place */
+export function writeStateFile(path: string, state: ServerState) {
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(state));
+  renameSync(tmp, path);
+}
+
+/** Read the state file; null if there isn't one */
+export function readStateFile(path: string): { ok: true; state: ServerState } | { ok: false; error: string } | null {
+  if (!existsSync(path)) return null;
+
+  let state: unknown;
+  try {
+    state = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    return { ok: false, error: (err as Error).message };
+  }
+
+  const s = state as Partial<ServerState> | null;
+  if (!s || typeof s !== "object" || s.version !== STATE_VERSION) {
+    return { ok: false, error: `not a version ${STATE_VERSION} state file` };
+  }
+  if (typeof s.savedAt !== "number" || !Array.isArray(s.rooms) || !Array.isArray(s.sessions)) {
+    return { ok: false, error: "missing savedAt, rooms or sessions" };
+  }
+  if (s.adminRooms !== undefined && !Array.isArray(s.adminRooms)) {
+    return { ok: false, error: "adminRooms is not a list" };
+  }
+  return { ok: true, state: s as ServerState };
+}
+
+/**
+ * Decide what to bring back from saved state, given the rooms this server is
+ * starting with. Admin-created rooms come back unless the rooms file now has a
+ * room with the same id. Worms nobody can resume are left out.
+ */
+export function planRestore(
+  state: ServerState, configs: RoomConfig[], now: number, maxAgeMs = STATE_MAX_AGE_MS
+): RestorePlan {
+  const plan: RestorePlan = { adminRooms: [], rooms: new Map(), sessions: [], skipped: [] };
+  const age = now - state.savedAt;
+  if (age > maxAgeMs) {
+    plan.skipped.push(`state saved ${Math.round(age / 60_000)} minutes ago, too old to restore`);
+    return plan;
+  }
+
+  plan.adminRooms = (state.adminRooms ?? []).filter(admin => !configs.some(c => c.id === admin.id));
+  const all = [...configs, ...plan.adminRooms];
+
+  for (const saved of state.rooms) {
+    const id = saved.config.id;
+    const config = all.find(c => c.id === id);
+    if (!config) {
+      plan.skipped.push(`${id}: no longer configured`);
+      continue;
+    }
+    if (needsRestart(saved.config, config)) {
+      plan.skipped.push(`${id}: type or world size changed`);
+      continue;
+    }
+
+    const sessions = state.sessions.filter(s => s.roomId === id);
+    const players = saved.engine.players.filter(p => sessions.some(s => s.playerId === p.id));
+    plan.rooms.set(id, { ...saved, engine: { ...saved.engine, players } });
+    plan.sessions.push(...sessions.filter(s => players.some(p => p.id === s.playerId)));
+  }
+  return plan;
+}
@@ -0,0 +1,20 @@
+// server/src/room-worker.ts
+// Worker thread entry: runs a RoomPool and relays its commands and events.
+// Started by spawnRoomWorker (pool-client.ts) when ROOM_WORKERS is set.
+
+import { parentPort } from "worker_threads";
+import { RoomPool, type PoolCommand, type PoolEvent } from "./room-pool.js";
+
+const port = parentPort!;
+
+const pool = new RoomPool((event: PoolEvent) => {
+  // Encoded snapshots are fresh buffers, so hand them over instead of copying
+  if (event.type === "send" && event.data instanceof Uint8Array) {
+    port.postMessage(event, [event.data.buffer as ArrayBuffer]);
+  } else {
+    port.postMessage(event);
+  }
+});
+
+port.on("message", (cmd: PoolCommand) => pool.handle(cmd));
+pool.start();
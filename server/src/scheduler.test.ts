@@ -0,0 +1,129 @@
+// server/src/scheduler.test.ts
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TickScheduler } from './scheduler';
+
+const TICK = 10;
+
+// Scheduler on a hand-driven clock; tasks can advance it to simulate slow steps
+function setup(options: { maxCatchUp?: number; budgetMs?: number } = {}) {
+  const clock = { now: 0 };
+  const warn = vi.fn();
+  const scheduler = new TickScheduler({ tickMs: TICK, now: () => clock.now, warn, ...options });
+  scheduler.advance(0);
+  return { clock, warn, scheduler };
+}
+
+describe('Tick Scheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run one tick per tick interval, carrying leftover time', () => {
+    const { scheduler } = setup();
+    const ticks: number[] = [];
+    scheduler.add('room', tick => ticks.push(tick));
+
+    expect(scheduler.advance(9)).toBe(0);
+    expect(scheduler.advance(15)).toBe(1);
+    expect(scheduler.advance(25)).toBe(1);
+    expect(scheduler.advance(30)).toBe(1);
+    expect(ticks).toEqual([1, 2, 3]);
+  });
+
+  it('should keep game speed independent of timer jitter', () => {
+    const { scheduler } = setup();
+    let now = 0;
+    // Irregular wake-ups averaging one per tick
+    for (const gap of [3, 17, 9, 11, 25, 1, 14, 0, 20]) scheduler.advance(now += gap);
+
+    expect(now).toBe(100);
+    expect(scheduler.tick).toBe(10);
+  });
+
+  it('should step every room on the same tick number', () => {
+    const { scheduler } = setup();
+    const seen: string[] = [];
+    scheduler.add('a', tick => seen.push(`a${tick}`));
+    scheduler.add('b', tick => seen.push(`b${tick}`));
+    scheduler.advance(20);
+
+    expect(seen).toEqual(['a1', 'b1', 'a2', 'b2']);
+  });
+
+  it('should advance simulation time exactly one interval per tick', () => {
+    const { scheduler } = setup();
+    const start = scheduler.time;
+    scheduler.advance(37);
+
+    expect(scheduler.time - start).toBe(3 * TICK);
+  });
+
+  it('should bound catch-up after a stall and drop the backlog', () => {
+    const { scheduler, warn } = setup({ maxCatchUp: 3 });
+    scheduler.add('room', () => {});
+
+    expect(scheduler.advance(1000)).toBe(3);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('skipping 97 ticks'));
+    expect(scheduler.advance(1010)).toBe(1); // back to normal pace, not 97 ticks behind
+  });
+
+  it('should keep simulation time on the wall clock across dropped ticks', () => {
+    const { scheduler } = setup({ maxCatchUp: 3 });
+    const start = scheduler.time;
+    scheduler.advance(1000);
+    scheduler.advance(1010);
+
+    expect(scheduler.tick).toBe(4);
+    expect(scheduler.time - start).toBe(1010);
+  });
+
+  it('should warn when a room step exceeds its budget, at most every few seconds', () => {
+    const { clock, scheduler, warn } = setup({ budgetMs: 4 });
+    scheduler.add('fast', () => { clock.now += 1; });
+    scheduler.add('slow', () => { clock.now += 6; });
+
+    scheduler.advance(clock.now = 10);
+    scheduler.advance(clock.now = 30);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/slow step took 6\.0ms \(budget 4\.0ms\) on tick 1/));
+  });
+
+  it('should keep ticking other rooms when one throws', () => {
+    const { scheduler } = setup();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const ran = vi.fn();
+    scheduler.add('broken', () => { throw new Error('boom'); });
+    scheduler.add('fine', ran);
+    scheduler.advance(20);
+
+    expect(ran).toHaveBeenCalledTimes(2);
+    expect(error).toHaveBeenCalledTimes(2);
+    error.mockRestore();
+  });
+
+  it('should stop running removed rooms', () => {
+    const { scheduler } = setup();
+    const task = vi.fn();
+    scheduler.add('room', task);
+    scheduler.advance(10);
+    scheduler.remove('room');
+    scheduler.advance(20);
+
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drive itself from timers between start and stop', () => {
+    vi.useFakeTimers();
+    const scheduler = new TickScheduler({ tickMs: TICK, now: () => Date.now(), warn: () => {} });
+    const task = vi.fn();
+    scheduler.add('room', task);
+
+    scheduler.start();
+    vi.advanceTimersByTime(10 * TICK);
+    scheduler.stop();
+    vi.advanceTimersByTime(10 * TICK);
+
+    expect(task).toHaveBeenCalledTimes(10);
+  });
+});
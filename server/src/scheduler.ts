@@ -0,0 +1,131 @@
+// server/src/scheduler.ts
+// Fixed-timestep loop that drives every room's simulation.
+//
+// Real time is fed into an accumulator and the game advances in whole ticks of
+// exactly tickMs, so timer drift and GC pauses change when ticks run but never
+// how fast the game plays. After a long stall only maxCatchUp ticks are run and
+// the rest of the backlog is dropped, rather than fast-forwarding the world;
+// the clock still moves on by the dropped time, so it keeps up with wall-clock time.
+
+export type TickTask = (tick: number) => void;
+
+export type SchedulerOptions = {
+  tickMs: number;
+  maxCatchUp?: number;                // ticks run in one go after a stall
+  budgetMs?: number;                  // a task taking longer than this gets a warning
+  now?: () => number;                 // monotonic ms
+  warn?: (line: string) => void;
+};
+
+const DEFAULT_MAX_CATCH_UP = 5;
+const WARN_INTERVAL_MS = 5000;        // per task, so a slow room doesn't flood the log
+
+export class TickScheduler {
+  /** Ticks run so far; the first tick is 1 */
+  tick = 0;
+
+  readonly tickMs: number;
+  private readonly maxCatchUp: number;
+  private readonly budgetMs: number;
+  private readonly now: () => number;
+  private readonly warn: (line: string) => void;
+
+  private readonly epoch = Date.now();
+  private tasks = new Map<string, TickTask>();
+  private lastWarned = new Map<string, number>();
+  private accumulator = 0;
+  private skippedMs = 0;              // time dropped after stalls, so `time` stays on the wall clock
+  private last: number | null = null;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor({
+    tickMs,
+    maxCatchUp = DEFAULT_MAX_CATCH_UP,
+    budgetMs = tickMs,
+    now = () => performance.now(),
+    warn = console.warn,
+  }: SchedulerOptions) {
+    this.tickMs = tickMs;
+    this.maxCatchUp = maxCatchUp;
+    this.budgetMs = budgetMs;
+    this.now = now;
+    this.warn = warn;
+  }
+
+  /** Simulation time of the current tick: wall-clock ms at start plus one tickMs per tick, and any ticks dropped */
+  get time(): number {
+    return this.epoch + this.skippedMs + this.tick * this.tickMs;
+  }
+
+  /** Run `task` every tick, under `id` (e.g. a room id) */
+  add(id: string, task: TickTask) {
+    this.tasks.set(id, task);
+  }
+
+  remove(id: string) {
+    this.tasks.delete(id);
+    this.lastWarned.delete(id);
+  }
+
+  /** Run the ticks due by `now`; returns how many ran */
+  advance(now = this.now()): number {
+    if (this.last === null) this.last = now;
+    this.accumulator += Math.max(0, now - this.last);
+    this.last = now;
+
+    let due = Math.floor(this.accumulator / this.tickMs);
+    if (due > this.maxCatchUp) {
+      const skipped = due - this.maxCatchUp;
+      this.warn(`[scheduler] ${Math.round(this.accumulator)}ms behind, skipping ${skipped} ticks`);
+      this.accumulator -= skipped * this.tickMs;
+      this.skippedMs += skipped * this.tickMs;
+      due = this.maxCatchUp;
+    }
+
+    for (let i = 0; i < due; i++) {
+      this.accumulator -= this.tickMs;
+      this.tick++;
+      this.runTasks();
+    }
+    return due;
+  }
+
+  /** Drive advance() from timers until stop() */
+  start() {
+    if (this.timer) return;
+    const loop = () => {
+      this.advance();
+      // Wake up at the next tick boundary
+      this.timer = setTimeout(loop, Math.max(0, this.tickMs - this.accumulator));
+    };
+    this.last = this.now();
+    this.timer = setTimeout(loop, this.tickMs);
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private runTasks() {
+    for (const [id, task] of this.tasks) {
+      const started = this.now();
+      try {
+        task(this.tick);
+      } catch (err) {
+        // One broken room shouldn't stop the others
+        console.error(`[scheduler] ${id} failed on tick ${this.tick}:`, err);
+      }
+      const took = this.now() - started;
+      if (took > this.budgetMs) this.warnSlow(id, took);
+    }
+  }
+
+  private warnSlow(id: string, took: number) {
+    const at = this.now();
+    const last = this.lastWarned.get(id);
+    if (last !== undefined && at - last < WARN_INTERVAL_MS) return;
+    this.lastWarned.set(id, at);
+    this.warn(`[scheduler] ${id} step took ${took.toFixed(1)}ms (budget ${this.budgetMs.toFixed(1)}ms) on tick ${this.tick}`);
+  }
+}
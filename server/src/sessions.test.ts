@@ -0,0 +1,140 @@
+// server/src/sessions.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionStore } from './sessions';
+
+const GRACE = 1000;
+
+describe('Session Resume', () => {
+  let store: SessionStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = new SessionStore(GRACE);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should issue unique tokens per worm', () => {
+    const a = store.issue('p1', 'chill', 'conn1');
+    const b = store.issue('p2', 'chill', 'conn2');
+
+    expect(a).not.toBe(b);
+    expect(store.get(a)).toMatchObject({ playerId: 'p1', roomId: 'chill', owner: 'conn1' });
+  });
+
+  it('should expire a detached session after the grace period', () => {
+    const token = store.issue('p1', 'arena1', 'conn1');
+    const onExpire = vi.fn();
+
+    expect(store.detach(token, 'conn1', onExpire)).toBe(true);
+    vi.advanceTimersByTime(GRACE - 1);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onExpire).toHaveBeenCalledWith(expect.objectContaining({ playerId: 'p1', roomId: 'arena1' }));
+    expect(store.get(token)).toBeUndefined();
+  });
+
+  it('should keep the worm when resumed within the grace period', () => {
+    const token = store.issue('p1', 'arena1', 'conn1');
+    const onExpire = vi.fn();
+    store.detach(token, 'conn1', onExpire);
+
+    vi.advanceTimersByTime(GRACE / 2);
+    const session = store.resume(token, 'conn2');
+    vi.advanceTimersByTime(GRACE * 2);
+
+    expect(session).toMatchObject({ playerId: 'p1', owner: 'conn2' });
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+
+  it('should restart the grace period on each disconnect', () => {
+    const token = store.issue('p1', 'chill', 'conn1');
+    const onExpire = vi.fn();
+    store.detach(token, 'conn1', onExpire);
+    store.resume(token, 'conn2');
+
+    vi.advanceTimersByTime(GRACE / 2);
+    store.detach(token, 'conn2', onExpire);
+    vi.advanceTimersByTime(GRACE - 1);
+
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+
+  it('should ignore disconnects from a connection that lost the session', () => {
+    const token = store.issue('p1', 'chill', 'conn1');
+    store.resume(token, 'conn2'); // conn1 still open, conn2 took over
+    const onExpire = vi.fn();
+
+    expect(store.detach(token, 'conn1', onExpire)).toBe(false);
+    vi.advanceTimersByTime(GRACE * 2);
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+
+  it('should not resume unknown or expired tokens', () => {
+    const token = store.issue('p1', 'chill', 'conn1');
+    store.detach(token, 'conn1', () => {});
+    vi.advanceTimersByTime(GRACE);
+
+    expect(store.resume(token, 'conn2')).toBeNull();
+    expect(store.resume('made-up', 'conn2')).toBeNull();
+  });
+
+  it('should drop sessions without expiring them', () => {
+    const token = store.issue('p1', 'chill', 'conn1');
+    const onExpire = vi.fn();
+    store.detach(token, 'conn1', onExpire);
+    store.drop(token);
+    vi.advanceTimersByTime(GRACE * 2);
+
+    expect(onExpire).not.toHaveBeenCalled();
+    expect(store.size).toBe(0);
+  });
+
+  it('should drop every session in a deleted room', () => {
+    const a = store.issue('p1', 'arena4', 'conn1');
+    const b = store.issue('p2', 'arena4', 'conn2');
+    const c = store.issue('p3', 'chill', 'conn3');
+    const onExpire = vi.fn();
+    store.detach(a, 'conn1', onExpire);
+    store.dropRoom('arena4');
+    vi.advanceTimersByTime(GRACE * 2);
+
+    expect(onExpire).not.toHaveBeenCalled();
+    expect(store.get(b)).toBeUndefined();
+    expect(store.get(c)).toBeDefined();
+  });
+
+  it('should count worms per room, held ones included', () => {
+    const a = store.issue('p1', 'deathmatch', 'conn1');
+    store.issue('p2', 'deathmatch', 'conn2');
+    store.issue('p3', 'chill', 'conn3');
+    store.detach(a, 'conn1', vi.fn());
+
+    expect(store.count('deathmatch')).toBe(2);
+    vi.advanceTimersByTime(GRACE);
+    expect(store.count('deathmatch')).toBe(1);
+    expect(store.count('arena1')).toBe(0);
+  });
+
+  it('should list sessions for saving and hold restored ones under their old tokens', () => {
+    const token = store.issue('p1', 'arena1', 'conn1');
+    const saved = store.list();
+    expect(saved).toEqual([{ token, playerId: 'p1', roomId: 'arena1' }]);
+
+    // After a restart
+    const restarted = new SessionStore(GRACE);
+    const onExpire = vi.fn();
+    restarted.hold(saved[0], GRACE * 3, onExpire);
+    expect(restarted.resume(token, 'conn2')).toMatchObject({ playerId: 'p1', owner: 'conn2' });
+    vi.advanceTimersByTime(GRACE * 3);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    restarted.hold({ token: 'gone', playerId: 'p2', roomId: 'arena1' }, GRACE * 3, onExpire);
+    vi.advanceTimersByTime(GRACE * 3);
+    expect(onExpire).toHaveBeenCalledWith(expect.objectContaining({ playerId: 'p2' }));
+    expect(restarted.get('gone')).toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+// server/src/sessions.ts
+// Resume tokens, so a player whose socket drops can reclaim their worm.
+//
+// A token is issued with the Welcome of every playing connection. When that
+// connection closes the worm is held for a grace period; a hello carrying the
+// token within that time takes it over, otherwise onExpire removes it.
+
+import { randomUUID } from "crypto";
+
+export const RESUME_GRACE_MS = 20_000;
+
+export type Session = {
+  token: string;
+  playerId: string;
+  roomId: string;
+  owner: string;                 // id of the connection currently driving the worm
+  expiry?: ReturnType<typeof setTimeout>; // set while disconnected
+};
+
+export type SavedSession = Pick<Session, "token" | "playerId" | "roomId">;
+
+export class SessionStore {
+  private sessions = new Map<string, Session>();
+
+  constructor(private readonly graceMs = RESUME_GRACE_MS) {}
+
+  /** Start a session for a freshly spawned worm and return its resume token */
+  issue(playerId: string, roomId: string, owner: string): string {
+    const token = randomUUID();
+    this.sessions.set(token, { token, playerId, roomId, owner });
+    return token;
+  }
+
+  /**
+   * The owning connection closed: hold the worm and call onExpire if nobody
+   * resumes in time. Returns false if `owner` no longer owns the session.
+   */
+  detach(token: string, owner: string, onExpire: (session: Session) => void): boolean {
+    const session = this.sessions.get(token);
+    if (!session || session.owner !== owner) return false;
+
+    clearTimeout(session.expiry);
+    session.expiry = setTimeout(() => {
+      this.sessions.delete(token);
+      onExpire(session);
+    }, this.graceMs);
+    return true;
+  }
+
+  /**
+   * Hold a worm restored after a server restart under its old token, with
+   * nobody driving it, until its player resumes or `graceMs` runs out.
+   */
+  hold(saved: SavedSession, graceMs: number, onExpire: (session: Session) => void) {
+    const session: Session = { ...saved, owner: "" };
+    session.expiry = setTimeout(() => {
+      this.sessions.delete(session.token);
+      onExpire(session);
+    }, graceMs);
+    this.drop(saved.token);
+    this.sessions.set(saved.token, session);
+  }
+
+  /** Every session, for saving across a restart */
+  list(): SavedSession[] {
+    return Array.from(this.sessions.values(), ({ token, playerId, roomId }) => ({ token, playerId, roomId }));
+  }
+
+  get(token: string): Session | undefined {
+    return this.sessions.get(token);
+  }
+
+  /** Hand the session to a new connection; the previous owner (if still open) loses it */
+  resume(token: string, owner: string): Session | null {
+    const session = this.sessions.get(token);
+    if (!session) return null;
+
+    clearTimeout(session.expiry);
+    session.expiry = undefined;
+    session.owner = owner;
+    return session;
+  }
+
+  /** Forget a session without expiring it (e.g. the worm left the room) */
+  drop(token: string) {
+    const session = this.sessions.get(token);
+    if (!session) return;
+    clearTimeout(session.expiry);
+    this.sessions.delete(token);
+  }
+
+  /** Forget every session in a room that's going away */
+  dropRoom(roomId: string) {
+    for (const session of this.sessions.values()) {
+      if (session.roomId === roomId) this.drop(session.token);
+    }
+  }
+
+  /** Worms in a room, held ones included */
+  count(roomId: string): number {
+    let n = 0;
+    for (const session of this.sessions.values()) {
+      if (session.roomId === roomId) n++;
+    }
+    return n;
+  }
+
+  get size() {
+    return this.sessions.size;
+  }
+}
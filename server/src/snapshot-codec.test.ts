@@ -0,0 +1,166 @@
+// server/src/snapshot-codec.test.ts
+import { describe, it, expect } from 'vitest';
+import type { Snapshot, PlayerView, Vec } from '../../client/src/net/protocol';
+import { encodeSnapshot, decodeSnapshot, CODEC_VERSION } from '../../client/src/net/codec';
+
+const world = { width: 2500, height: 1500 };
+const precision = world.width / 0xffff;
+
+function makePlayer(id: string, bodyLen: number, overrides: Partial<PlayerView> = {}): PlayerView {
+  const body: Vec[] = Array.from({ length: bodyLen }, (_, i) => ({ x: (100 + i * 4) % world.width, y: 200.25 }));
+  return {
+    id,
+    name: `Worm ${id}`,
+    color: '#22cc88',
+    avatar: '/avatars/rdc-bloop.svg',
+    head: { pos: { x: 100, y: 200.25 }, angle: 1.3 },
+    body,
+    score: 42.5,
+    alive: true,
+    ...overrides,
+  };
+}
+
+function makeSnapshot(): Snapshot {
+  return {
+    t: 1730000000123,
+    world,
+    players: [
+      makePlayer('a', 300, { boosting: true, thickness: 17.5 }),
+      makePlayer('b', 15, { avatar: undefined, alive: false }),
+    ],
+    foods: Array.from({ length: 300 }, (_, i) => ({ x: (i * 7.3) % world.width, y: (i * 3.1) % world.height })),
+    bonusFood: [
+      { x: 10, y: 20, type: 'bug', value: 5 },
+      { x: 2400, y: 1400, type: 'zillow', value: 30 },
+    ],
+    dead: ['b'],
+  };
+}
+
+describe('Binary Snapshot Codec', () => {
+  it('should tag messages with the codec version', () => {
+    const bytes = encodeSnapshot(makeSnapshot());
+    expect(bytes[0]).toBe(CODEC_VERSION);
+  });
+
+  it('should round-trip players within quantization precision', () => {
+    const snap = makeSnapshot();
+    const decoded = decodeSnapshot(encodeSnapshot(snap));
+
+    expect(decoded.t).toBe(snap.t);
+    expect(decoded.world).toEqual(world);
+    expect(decoded.players).toHaveLength(2);
+
+    const [a, b] = decoded.players;
+    expect(a.id).toBe('a');
+    expect(a.name).toBe('Worm a');
+    expect(a.avatar).toBe('/avatars/rdc-bloop.svg');
+    expect(a.boosting).toBe(true);
+    expect(a.thickness).toBe(17.5);
+    expect(a.score).toBe(42.5);
+    expect(a.head.angle).toBeCloseTo(1.3, 3);
+    expect(a.body).toHaveLength(300);
+    a.body.forEach((pt, i) => {
+      expect(Math.abs(pt.x - snap.players[0].body[i].x)).toBeLessThanOrEqual(precision);
+      expect(Math.abs(pt.y - snap.players[0].body[i].y)).toBeLessThanOrEqual(precision);
+    });
+
+    expect(b.avatar).toBeUndefined();
+    expect(b.alive).toBe(false);
+    expect(b.boosting).toBeUndefined();
+    expect(b.thickness).toBeUndefined();
+  });
+
+  it('should round-trip food, bonus food and deaths', () => {
+    const snap = makeSnapshot();
+    const decoded = decodeSnapshot(encodeSnapshot(snap));
+
+    expect(decoded.foods).toHaveLength(300);
+    expect(decoded.foods[10].x).toBeCloseTo(snap.foods[10].x, 1);
+    expect(decoded.bonusFood).toEqual([
+      expect.objectContaining({ type: 'bug', value: 5 }),
+      expect.objectContaining({ type: 'zillow', value: 30 }),
+    ]);
+    expect(decoded.dead).toEqual(['b']);
+  });
+
+  it('should omit optional fields that were not sent', () => {
+    const snap: Snapshot = { t: 1, world, players: [], foods: [] };
+    const decoded = decodeSnapshot(encodeSnapshot(snap));
+
+    expect(decoded).toEqual({ t: 1, world, players: [], foods: [] });
+  });
+
+  it('should carry running power-ups and power-up pickups', () => {
+    const snap: Snapshot = {
+      t: 1, world, foods: [],
+      players: [makePlayer('a', 5, { effects: { shield: 240, ghost: 3 } }), makePlayer('b', 5)],
+      bonusFood: [{ x: 10, y: 20, type: 'magnet', value: 0 }],
+    };
+    const decoded = decodeSnapshot(encodeSnapshot(snap));
+
+    expect(decoded.players[0].effects).toEqual({ shield: 240, ghost: 3 });
+    expect(decoded.players[1].effects).toBeUndefined();
+    expect(decoded.bonusFood).toEqual([expect.objectContaining({ type: 'magnet', value: 0 })]);
+  });
+
+  it('should carry tournament timer and winner info', () => {
+    const snap: Snapshot = {
+      t: 1, world, players: [], foods: [],
+      tournamentTimer: { state: 'active', remaining: 540, duration: 600 },
+      tournamentWinner: { name: 'Josie 🐛', score: 412 },
+    };
+    const decoded = decodeSnapshot(encodeSnapshot(snap));
+
+    expect(decoded.tournamentTimer).toEqual(snap.tournamentTimer);
+    expect(decoded.tournamentWinner).toEqual(snap.tournamentWinner);
+  });
+
+  it('should carry offscreen player summaries', () => {
+    const snap: Snapshot = {
+      t: 1, world, players: [], foods: [],
+      offscreen: [{ id: 'far', name: 'Far Worm', score: 88.5, alive: false }],
+    };
+    const decoded = decodeSnapshot(encodeSnapshot(snap));
+
+    expect(decoded.offscreen).toEqual(snap.offscreen);
+  });
+
+  it('should carry the input echo for prediction', () => {
+    const snap: Snapshot = { t: 1, world, players: [], foods: [], inputSeq: 70000, inputTicks: 3 };
+    const decoded = decodeSnapshot(encodeSnapshot(snap));
+
+    expect(decoded.inputSeq).toBe(70000);
+    expect(decoded.inputTicks).toBe(3);
+  });
+
+  it('should carry the simulation tick', () => {
+    const snap: Snapshot = { t: 1, tick: 3_000_000_000, world, players: [], foods: [] };
+
+    expect(decodeSnapshot(encodeSnapshot(snap)).tick).toBe(3_000_000_000);
+    expect(decodeSnapshot(encodeSnapshot({ ...snap, tick: undefined })).tick).toBeUndefined();
+  });
+
+  it('should normalize negative and wrapped angles', () => {
+    const snap = makeSnapshot();
+    snap.players[0].head.angle = -Math.PI / 2 - 4 * Math.PI;
+    const decoded = decodeSnapshot(encodeSnapshot(snap));
+
+    expect(decoded.players[0].head.angle).toBeCloseTo(3 * Math.PI / 2, 3);
+  });
+
+  it('should be much smaller than the JSON encoding', () => {
+    const snap = makeSnapshot();
+    const jsonSize = JSON.stringify({ type: 'state', snapshot: snap }).length;
+    const binarySize = encodeSnapshot(snap).byteLength;
+
+    expect(binarySize).toBeLessThan(jsonSize / 4);
+  });
+
+  it('should reject unknown codec versions', () => {
+    const bytes = encodeSnapshot(makeSnapshot());
+    bytes[0] = CODEC_VERSION + 1;
+    expect(() => decodeSnapshot(bytes)).toThrow(/version/);
+  });
+});
@@ -0,0 +1,200 @@
+// server/src/snapshot-delta.test.ts
+import { describe, it, expect } from 'vitest';
+import type { Snapshot, PlayerView, Vec } from '../../client/src/net/protocol';
+import { diffSnapshots, applyDelta } from '../../client/src/net/delta';
+import { encodeDelta, decodeMessage } from '../../client/src/net/codec';
+import { SnapshotSync } from './snapshot-sync';
+
+const world = { width: 2000, height: 1200 };
+
+// Minimal worm that moves right and grows like stepRoom does
+function makeWorm(id: string, y: number, len: number): PlayerView {
+  const body: Vec[] = Array.from({ length: len }, (_, i) => ({ x: 500 - i * 4, y }));
+  return {
+    id, name: id, color: '#fff',
+    head: { pos: { ...body[0] }, angle: 0 },
+    body, score: 20, alive: true,
+  };
+}
+
+function advance(p: PlayerView, maxLen: number): PlayerView {
+  const pos = { x: (p.head.pos.x + 4) % world.width, y: p.head.pos.y };
+  return { ...p, head: { pos, angle: p.head.angle }, body: [{ ...pos }, ...p.body].slice(0, maxLen) };
+}
+
+function makeSnapshot(seq: number, players: PlayerView[], foods: Vec[]): Snapshot {
+  return { t: 1000 + seq, seq, world, players, foods };
+}
+
+describe('Snapshot Deltas', () => {
+  it('should reconstruct the next snapshot from a baseline', () => {
+    const foods = [{ x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 3 }];
+    const base = makeSnapshot(1, [makeWorm('a', 100, 20), makeWorm('b', 300, 20)], foods);
+    const next = makeSnapshot(2, [advance(base.players[0], 20), advance(base.players[1], 21)], [foods[0], foods[2], { x: 9, y: 9 }]);
+
+    const delta = diffSnapshots(base, next);
+    const rebuilt = applyDelta(base, delta);
+
+    expect(rebuilt.players).toEqual(next.players);
+    expect(new Set(rebuilt.foods.map(f => `${f.x},${f.y}`))).toEqual(new Set(next.foods.map(f => `${f.x},${f.y}`)));
+  });
+
+  it('should only send new head points and the resulting length', () => {
+    const base = makeSnapshot(1, [makeWorm('a', 100, 20)], []);
+    let worm = base.players[0];
+    for (let i = 0; i < 3; i++) worm = advance(worm, 20);
+    const delta = diffSnapshots(base, makeSnapshot(4, [worm], []));
+
+    expect(delta.players[0].bodyPrepend).toHaveLength(3);
+    expect(delta.players[0].bodyLength).toBe(20);
+    expect(delta.players[0].body).toBeUndefined();
+  });
+
+  it('should send the full body when it is not a continuation (respawn)', () => {
+    const base = makeSnapshot(1, [makeWorm('a', 100, 20)], []);
+    const respawned = { ...makeWorm('a', 700, 0), body: [] };
+    const delta = diffSnapshots(base, makeSnapshot(2, [respawned], []));
+
+    expect(delta.players[0].body).toEqual([]);
+    expect(applyDelta(base, delta).players[0].body).toEqual([]);
+  });
+
+  it('should skip players that did not change', () => {
+    const dead = { ...makeWorm('a', 100, 20), alive: false };
+    const base = makeSnapshot(1, [dead], []);
+    const delta = diffSnapshots(base, makeSnapshot(2, [dead], []));
+
+    expect(delta.players).toHaveLength(0);
+    expect(delta.addedPlayers).toHaveLength(0);
+  });
+
+  it('should track joined and departed players', () => {
+    const base = makeSnapshot(1, [makeWorm('a', 100, 20)], []);
+    const next = makeSnapshot(2, [makeWorm('b', 300, 15)], []);
+    const delta = diffSnapshots(base, next);
+
+    expect(delta.removedPlayers).toEqual(['a']);
+    expect(delta.addedPlayers.map(p => p.id)).toEqual(['b']);
+    expect(applyDelta(base, delta).players).toEqual(next.players);
+  });
+
+  it('should clear boosting and thickness', () => {
+    const base = makeSnapshot(1, [{ ...makeWorm('a', 100, 20), boosting: true, thickness: 20 }], []);
+    const next = makeSnapshot(2, [makeWorm('a', 100, 20)], []);
+    const rebuilt = applyDelta(base, diffSnapshots(base, next)).players[0];
+
+    expect(rebuilt.boosting).toBeUndefined();
+    expect(rebuilt.thickness).toBeUndefined();
+  });
+
+  it('should send power-up changes and clear them when they run out', () => {
+    const worm = makeWorm('a', 100, 20);
+    const base = makeSnapshot(1, [{ ...worm, effects: { speed: 10, magnet: 2 } }], []);
+    const ticked = makeSnapshot(2, [{ ...worm, effects: { speed: 9 } }], []);
+    const expired = makeSnapshot(3, [worm], []);
+
+    const delta = diffSnapshots(base, ticked);
+    const decoded = decodeMessage(encodeDelta(delta));
+    expect(decoded.type).toBe('delta');
+    if (decoded.type !== 'delta') return;
+    expect(decoded.delta.players[0].effects).toEqual({ speed: 9 });
+    expect(applyDelta(base, decoded.delta).players[0].effects).toEqual({ speed: 9 });
+
+    const cleared = diffSnapshots(ticked, expired);
+    expect(cleared.players[0].effects).toBeNull();
+    expect(applyDelta(ticked, cleared).players[0].effects).toBeUndefined();
+    expect(diffSnapshots(ticked, ticked).players).toHaveLength(0);
+  });
+
+  it('should survive the binary encoding', () => {
+    const foods = Array.from({ length: 50 }, (_, i) => ({ x: i * 10, y: i * 5 }));
+    const base = makeSnapshot(1, [makeWorm('a', 100, 20)], foods);
+    const next = makeSnapshot(2, [{ ...advance(base.players[0], 21), score: 21, boosting: true }], [...foods.slice(1), { x: 42, y: 42 }]);
+    next.tick = 4321;
+    const delta = diffSnapshots(base, next);
+
+    const decoded = decodeMessage(encodeDelta(delta));
+    expect(decoded.type).toBe('delta');
+    if (decoded.type !== 'delta') return;
+
+    expect(decoded.delta.seq).toBe(2);
+    expect(decoded.delta.baseSeq).toBe(1);
+    expect(decoded.delta.removedFoods).toEqual([0]);
+    expect(decoded.delta.addedFoods[0].x).toBeCloseTo(42, 1);
+    expect(decoded.delta.players[0].score).toBe(21);
+    expect(decoded.delta.players[0].boosting).toBe(true);
+    expect(decoded.delta.players[0].bodyPrepend).toHaveLength(1);
+    expect(decoded.delta.players[0].bodyLength).toBe(21);
+    expect(applyDelta(base, decoded.delta).tick).toBe(4321);
+  });
+});
+
+describe('SnapshotSync', () => {
+  const foods = [{ x: 1, y: 1 }];
+
+  it('should send a keyframe until the client acks', () => {
+    const sync = new SnapshotSync();
+    expect(sync.next(makeSnapshot(1, [], foods)).type).toBe('state');
+    expect(sync.next(makeSnapshot(2, [], foods)).type).toBe('state');
+
+    sync.ack(2);
+    const msg = sync.next(makeSnapshot(3, [], foods));
+    expect(msg.type).toBe('delta');
+    if (msg.type === 'delta') expect(msg.delta.baseSeq).toBe(2);
+  });
+
+  it('should diff against the latest acked snapshot, not the latest sent', () => {
+    const sync = new SnapshotSync();
+    sync.next(makeSnapshot(1, [], foods));
+    sync.ack(1);
+    sync.next(makeSnapshot(2, [], foods));
+    const msg = sync.next(makeSnapshot(3, [], foods));
+
+    expect(msg.type === 'delta' && msg.delta.baseSeq).toBe(1);
+  });
+
+  it('should ignore acks for snapshots it never sent', () => {
+    const sync = new SnapshotSync();
+    sync.ack(99);
+    expect(sync.next(makeSnapshot(1, [], foods)).type).toBe('state');
+  });
+
+  it('should send periodic keyframes', () => {
+    const sync = new SnapshotSync(3);
+    sync.next(makeSnapshot(1, [], foods));
+    sync.ack(1);
+
+    const types = [2, 3, 4, 5].map(seq => sync.next(makeSnapshot(seq, [], foods)).type);
+    expect(types).toEqual(['delta', 'delta', 'delta', 'state']);
+  });
+
+  it('should fall back to keyframes when the client stops acking', () => {
+    const sync = new SnapshotSync(1000, 3);
+    sync.next(makeSnapshot(1, [], foods));
+    sync.ack(1);
+
+    const types = [2, 3, 4, 5].map(seq => sync.next(makeSnapshot(seq, [], foods)).type);
+    expect(types).toEqual(['delta', 'delta', 'delta', 'state']);
+  });
+
+  it('should keep client and server baselines in step over many ticks', () => {
+    const sync = new SnapshotSync();
+    let worm = makeWorm('a', 100, 15);
+    let clientView: Snapshot | null = null;
+    const clientHistory = new Map<number, Snapshot>();
+
+    for (let seq = 1; seq <= 40; seq++) {
+      worm = advance(worm, 15 + seq);
+      const serverSnap = makeSnapshot(seq, [worm], [{ x: seq, y: seq }]);
+      const msg = sync.next(serverSnap);
+
+      clientView = msg.type === 'state' ? msg.snapshot : applyDelta(clientHistory.get(msg.delta.baseSeq)!, msg.delta);
+      clientHistory.set(seq, clientView);
+      // Client acks with a lag of two ticks
+      if (seq > 2) sync.ack(seq - 2);
+
+      expect(clientView.players).toEqual(serverSnap.players);
+      expect(clientView.foods).toEqual(serverSnap.foods);
+    }
+  });
+});
@@ -0,0 +1,59 @@
+// server/src/snapshot-sync.ts
+// Per-client delta sync state: tracks which snapshots were sent, which one the
+// client acknowledged, and decides between keyframes and deltas.
+
+import type { Snapshot, StateMsg, DeltaMsg } from "../../client/src/net/protocol";
+import { diffSnapshots, applyDelta } from "../../client/src/net/delta.js";
+
+export const KEYFRAME_INTERVAL = 60;   // full snapshot at least every 2s at 30 Hz
+export const MAX_UNACKED = 30;         // ~1s of snapshots without an ack forces a keyframe
+
+export class SnapshotSync {
+  private baseline: Snapshot | null = null;
+  // What the client will hold after each unacknowledged message, by seq
+  private sent = new Map<number, Snapshot>();
+  private sinceKeyframe = 0;
+
+  constructor(
+    private keyframeInterval = KEYFRAME_INTERVAL,
+    private maxUnacked = MAX_UNACKED
+  ) {}
+
+  /** Client confirmed it reconstructed snapshot `seq` */
+  ack(seq: number) {
+    const acked = this.sent.get(seq);
+    if (!acked) return; // stale or unknown ack
+    this.baseline = acked;
+    for (const s of this.sent.keys()) {
+      if (s <= seq) this.sent.delete(s);
+    }
+  }
+
+  /** Build the message to send for `snap` (which must carry a seq) */
+  next(snap: Snapshot): StateMsg | DeltaMsg {
+    const seq = snap.seq ?? 0;
+    const needsKeyframe =
+      !this.baseline ||
+      this.sinceKeyframe >= this.keyframeInterval ||
+      this.sent.size >= this.maxUnacked;
+
+    if (needsKeyframe) {
+      if (this.sent.size >= this.maxUnacked) this.sent.clear(); // client stopped acking
+      this.sinceKeyframe = 0;
+      this.sent.set(seq, copySnapshot(snap));
+      return { type: "state", snapshot: snap };
+    }
+
+    const delta = diffSnapshots(this.baseline!, snap);
+    this.sent.set(seq, applyDelta(this.baseline!, delta));
+    this.sinceKeyframe++;
+    return { type: "delta", delta };
+  }
+}
+
+// Snapshots reference live room arrays (e.g. foods), so keep our own copy
+function copySnapshot(snap: Snapshot): Snapshot {
+  const copy: Snapshot = { ...snap, players: snap.players.slice(), foods: snap.foods.slice() };
+  if (snap.bonusFood) copy.bonusFood = snap.bonusFood.slice();
+  return copy;
+}
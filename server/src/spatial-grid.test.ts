@@ -1,58 +1,7 @@
 // server/src/spatial-grid.test.ts
 import { describe, it, expect, beforeEach } from 'vitest';
 import type { Vec } from '../../client/src/net/protocol';
-
-// SpatialGrid class for testing
-class SpatialGrid {
-  cellSize: number;
-  cols: number;
-  rows: number;
-  worldWidth: number;
-  worldHeight: number;
-  grid: Map<string, Array<{ segment: Vec; ownerId: string; segmentIndex: number }>>;
-
-  constructor(worldWidth: number, worldHeight: number, cellSize = 100) {
-    this.cellSize = cellSize;
-    this.worldWidth = worldWidth;
-    this.worldHeight = worldHeight;
-    this.cols = Math.ceil(worldWidth / cellSize);
-    this.rows = Math.ceil(worldHeight / cellSize);
-    this.grid = new Map();
-  }
-
-  cellKey(x: number, y: number): string {
-    const cx = Math.floor(x / this.cellSize) % this.cols;
-    const cy = Math.floor(y / this.cellSize) % this.rows;
-    return `${cx},${cy}`;
-  }
-
-  insert(segment: Vec, ownerId: string, segmentIndex: number) {
-    const key = this.cellKey(segment.x, segment.y);
-    if (!this.grid.has(key)) this.grid.set(key, []);
-    this.grid.get(key)!.push({ segment, ownerId, segmentIndex });
-  }
-
-  queryNearby(pos: Vec): Array<{ segment: Vec; ownerId: string; segmentIndex: number }> {
-    const cx = Math.floor(pos.x / this.cellSize);
-    const cy = Math.floor(pos.y / this.cellSize);
-    const nearby: Array<{ segment: Vec; ownerId: string; segmentIndex: number }> = [];
-
-    for (let dx = -1; dx <= 1; dx++) {
-      for (let dy = -1; dy <= 1; dy++) {
-        const checkX = (cx + dx + this.cols) % this.cols;
-        const checkY = (cy + dy + this.rows) % this.rows;
-        const key = `${checkX},${checkY}`;
-        const cell = this.grid.get(key);
-        if (cell) nearby.push(...cell);
-      }
-    }
-    return nearby;
-  }
-
-  clear() {
-    this.grid.clear();
-  }
-}
+import { SpatialGrid } from './spatial-grid';
 
 describe('Spatial Grid (Performance Optimization)', () => {
   let grid: SpatialGrid;
@@ -127,6 +76,22 @@ describe('Spatial Grid (Performance Optimization)', () => {
       const nearby = grid.queryNearby({ x: 150, y: 150 });
       expect(nearby.length).toBe(3);
     });
+
+    it('should query segments all along a path', () => {
+      grid.insert({ x: 550, y: 550 }, 'player1', 0); // halfway along
+      grid.insert({ x: 550, y: 850 }, 'player1', 1); // well off to the side
+
+      // The end's 3x3 cells miss the middle of a long path
+      expect(grid.queryNearby({ x: 950, y: 550 }).length).toBe(0);
+      expect(grid.queryPath({ x: 150, y: 550 }, { x: 950, y: 550 }).map(e => e.segmentIndex)).toEqual([0]);
+    });
+
+    it('should query a path the short way across the wrap', () => {
+      grid.insert({ x: 50, y: 550 }, 'player1', 0);
+      grid.insert({ x: 1000, y: 550 }, 'player1', 1); // the long way round
+
+      expect(grid.queryPath({ x: 1750, y: 550 }, { x: 250, y: 550 }).map(e => e.segmentIndex)).toEqual([0]);
+    });
   });
 
   describe('Performance Characteristics', () => {
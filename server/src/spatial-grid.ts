@@ -0,0 +1,92 @@
+// server/src/spatial-grid.ts
+// Spatial partitioning for optimized collision detection
+
+import type { Vec } from '../../client/src/net/protocol';
+
+export type GridEntry = { segment: Vec; ownerId: string; segmentIndex: number };
+
+export class SpatialGrid {
+  cellSize: number;
+  cols: number;
+  rows: number;
+  worldWidth: number;
+  worldHeight: number;
+  grid: Map<string, GridEntry[]>;
+
+  constructor(worldWidth: number, worldHeight: number, cellSize = 100) {
+    this.cellSize = cellSize;
+    this.worldWidth = worldWidth;
+    this.worldHeight = worldHeight;
+    this.cols = Math.ceil(worldWidth / cellSize);
+    this.rows = Math.ceil(worldHeight / cellSize);
+    this.grid = new Map();
+  }
+
+  // Convert world position to grid cell (handles toroidal wrapping)
+  cellKey(x: number, y: number): string {
+    const cx = Math.floor(x / this.cellSize) % this.cols;
+    const cy = Math.floor(y / this.cellSize) % this.rows;
+    return `${cx},${cy}`;
+  }
+
+  // Add a segment to the grid
+  insert(segment: Vec, ownerId: string, segmentIndex: number) {
+    const key = this.cellKey(segment.x, segment.y);
+    if (!this.grid.has(key)) this.grid.set(key, []);
+    this.grid.get(key)!.push({ segment, ownerId, segmentIndex });
+  }
+
+  // Get all segments near a position (checks 3×3 cells around it)
+  queryNearby(pos: Vec): GridEntry[] {
+    const cx = Math.floor(pos.x / this.cellSize);
+    const cy = Math.floor(pos.y / this.cellSize);
+    const nearby: GridEntry[] = [];
+
+    // Check 9 cells: center + 8 neighbors (handles wrapping)
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const checkX = (cx + dx + this.cols) % this.cols;
+        const checkY = (cy + dy + this.rows) % this.rows;
+        const key = `${checkX},${checkY}`;
+        const cell = this.grid.get(key);
+        if (cell) nearby.push(...cell);
+      }
+    }
+    return nearby;
+  }
+
+  // Get all segments near a path (the cells its bounding box covers, plus one
+  // cell around them), going the short way round the wrapped world
+  queryPath(from: Vec, to: Vec): GridEntry[] {
+    let dx = to.x - from.x;
+    let dy = to.y - from.y;
+    if (dx > this.worldWidth / 2) dx -= this.worldWidth;
+    else if (dx < -this.worldWidth / 2) dx += this.worldWidth;
+    if (dy > this.worldHeight / 2) dy -= this.worldHeight;
+    else if (dy < -this.worldHeight / 2) dy += this.worldHeight;
+
+    const minX = Math.floor(Math.min(from.x, from.x + dx) / this.cellSize) - 1;
+    const maxX = Math.floor(Math.max(from.x, from.x + dx) / this.cellSize) + 1;
+    const minY = Math.floor(Math.min(from.y, from.y + dy) / this.cellSize) - 1;
+    const maxY = Math.floor(Math.max(from.y, from.y + dy) / this.cellSize) + 1;
+    const seen = new Set<string>(); // a box wider than the world covers a cell twice
+    const nearby: GridEntry[] = [];
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const checkX = ((x % this.cols) + this.cols) % this.cols;
+        const checkY = ((y % this.rows) + this.rows) % this.rows;
+        const key = `${checkX},${checkY}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const cell = this.grid.get(key);
+        if (cell) nearby.push(...cell);
+      }
+    }
+    return nearby;
+  }
+
+  clear() {
+    this.grid.clear();
+  }
+}
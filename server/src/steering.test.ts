@@ -0,0 +1,58 @@
+// server/src/steering.test.ts
+import { describe, it, expect } from 'vitest';
+import { moveWorm, angleDelta, TURN_SPEED, BASE_SPEED } from './game-engine';
+import type { MovingWorm } from '../../client/src/engine/movement';
+
+const world = { width: 2000, height: 1200 };
+
+function worm(angle: number, targetAngle?: number): MovingWorm {
+  return { pos: { x: 1000, y: 600 }, angle, speed: BASE_SPEED, score: 50, turn: 0, targetAngle, boosting: false };
+}
+
+describe('Analog Steering', () => {
+  it('should give the shortest signed angle between headings', () => {
+    expect(angleDelta(0, Math.PI / 2)).toBeCloseTo(Math.PI / 2);
+    expect(angleDelta(Math.PI / 2, 0)).toBeCloseTo(-Math.PI / 2);
+    expect(angleDelta(3, -3)).toBeCloseTo(2 * Math.PI - 6); // across the ±PI seam
+    expect(angleDelta(8 * Math.PI + 0.1, 0.3)).toBeCloseTo(0.2); // keyboard turning winds the angle up
+  });
+
+  it('should turn toward the target at the capped turn rate', () => {
+    const w = worm(0, Math.PI / 2);
+    moveWorm(w, world);
+
+    expect(w.angle).toBeCloseTo(TURN_SPEED);
+  });
+
+  it('should turn the shorter way around', () => {
+    const w = worm(0, -Math.PI / 2);
+    moveWorm(w, world);
+
+    expect(w.angle).toBeCloseTo(-TURN_SPEED);
+  });
+
+  it('should settle on the target without overshooting', () => {
+    const target = 0.5;
+    const w = worm(0, target);
+    for (let i = 0; i < 10; i++) moveWorm(w, world);
+
+    expect(w.angle).toBeCloseTo(target, 10);
+    expect(w.pos.y).toBeGreaterThan(600);
+  });
+
+  it('should ignore the keyboard turn while steering', () => {
+    const w = worm(0, 0);
+    w.turn = 1;
+    moveWorm(w, world);
+
+    expect(w.angle).toBe(0);
+  });
+
+  it('should fall back to the keyboard turn without a target', () => {
+    const w = worm(0);
+    w.turn = -1;
+    moveWorm(w, world);
+
+    expect(w.angle).toBeCloseTo(-TURN_SPEED);
+  });
+});
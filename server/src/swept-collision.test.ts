@@ -0,0 +1,152 @@
+// server/src/swept-collision.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { RoomEngine, seededRandom } from './room-engine';
+import { sweptDist2, closestApproach2, HEAD_R2, BASE_SPEED, BOOST_MULTIPLIER } from './game-engine';
+
+// A worm called 'blink' covers BLINK units a tick, far faster than any boost
+const BLINK = 900;
+vi.mock('./game-engine', async importOriginal => {
+  const actual = await importOriginal<typeof import('./game-engine')>();
+  return {
+    ...actual,
+    moveWorm: (p: Parameters<typeof actual.moveWorm>[0] & { id?: string }, world: Parameters<typeof actual.moveWorm>[1]) => {
+      actual.moveWorm(p, world);
+      if (p.id === 'blink') p.pos.x = actual.wrap(p.pos.x + BLINK * Math.cos(p.angle), world.width);
+    },
+  };
+});
+
+const world = { width: 2000, height: 1200 };
+const quiet = () => {};
+const BOOST_SPEED = BASE_SPEED * BOOST_MULTIPLIER;
+
+function engine() {
+  return new RoomEngine({ world, rng: seededRandom(7), now: () => 0, log: quiet });
+}
+
+// A boosting worm at a known spot and heading
+function shooter(room: RoomEngine, id: string, x: number, y: number, angle: number) {
+  const p = room.addPlayer(id, id, '#fff');
+  p.pos = { x, y };
+  p.angle = angle;
+  p.score = 100;
+  room.applyInput(id, { type: 'boost', boosting: true });
+  return p;
+}
+
+// A worm heading up and away, its body a straight line at `x` from `top` down to `bottom`
+function wall(room: RoomEngine, x: number, top: number, bottom: number, gap = BOOST_SPEED) {
+  const p = room.addPlayer('wall', 'wall', '#fff');
+  p.pos = { x, y: top };
+  p.angle = -Math.PI / 2;
+  p.score = 400;
+  p.body = [];
+  for (let y = top; y <= bottom; y += gap) p.body.push({ x: (x + world.width) % world.width, y });
+  return p;
+}
+
+// Step until someone dies (or give up); returns the dead
+function runUntilDeath(room: RoomEngine, maxTicks = 20): string[] {
+  for (let i = 0; i < maxTicks; i++) {
+    const dead = room.step();
+    if (dead.length > 0) return dead;
+  }
+  return [];
+}
+
+describe('Swept Collision', () => {
+  it('should measure a head path against a body segment', () => {
+    const a = { x: 100, y: 90 }, b = { x: 100, y: 110 };
+
+    // Jumped clean over the segment: neither end is anywhere near it
+    expect(sweptDist2({ x: 50, y: 100 }, { x: 150, y: 100 }, a, b, world)).toBe(0);
+    expect(sweptDist2({ x: 50, y: 100 }, { x: 90, y: 100 }, a, b, world)).toBeCloseTo(100);
+    expect(sweptDist2({ x: 50, y: 130 }, { x: 150, y: 130 }, a, b, world)).toBeCloseTo(400);
+    expect(sweptDist2({ x: 50, y: 100 }, { x: 50, y: 100 }, a, b, world)).toBeCloseTo(2500);
+  });
+
+  it('should measure across the wrap', () => {
+    // Head goes from 1995 to 5 (wrapping); segment sits on x = 1
+    expect(sweptDist2({ x: 1995, y: 100 }, { x: 5, y: 100 }, { x: 1, y: 90 }, { x: 1, y: 110 }, world)).toBe(0);
+    // Segment itself straddles the seam
+    expect(sweptDist2({ x: 0, y: 50 }, { x: 0, y: 150 }, { x: 1990, y: 100 }, { x: 10, y: 100 }, world)).toBe(0);
+    expect(sweptDist2({ x: 100, y: 1195 }, { x: 100, y: 3 }, { x: 90, y: 1199 }, { x: 110, y: 1199 }, world)).toBe(0);
+  });
+
+  it('should catch heads that pass each other within a tick', () => {
+    // Swapped places: they met halfway
+    expect(closestApproach2({ x: 100, y: 100 }, { x: 130, y: 100 }, { x: 130, y: 100 }, { x: 100, y: 100 }, world)).toBe(0);
+    // Side by side, same speed: never closer than they started
+    expect(closestApproach2({ x: 100, y: 100 }, { x: 130, y: 100 }, { x: 100, y: 120 }, { x: 130, y: 120 }, world)).toBeCloseTo(400);
+    // Crossing paths at different times
+    expect(closestApproach2({ x: 0, y: 50 }, { x: 0, y: 60 }, { x: 50, y: 0 }, { x: 60, y: 0 }, world)).toBeGreaterThan(HEAD_R2);
+  });
+
+  it('should stop boosting worms fired across a body at any angle or timing', () => {
+    for (const angle of [-1, -0.5, 0, 0.5, 1]) {
+      for (let phase = 0; phase < BOOST_SPEED; phase += 0.6) {
+        const room = engine();
+        wall(room, 1000, 700, 1150);
+        const back = 40 + phase;
+        shooter(room, 's', 1000 - back * Math.cos(angle), 900 - back * Math.sin(angle), angle);
+
+        expect(runUntilDeath(room), `angle ${angle}, phase ${phase}`).toEqual(['s']);
+        expect(room.events[0]).toMatchObject({ type: 'kill', victimId: 's', killerId: 'wall', cause: 'body' });
+      }
+    }
+  });
+
+  it('should stop worms between sparse body points', () => {
+    const room = engine();
+    wall(room, 1000, 700, 1150, 90);
+    shooter(room, 's', 960, 925, 0); // halfway between two points 90 apart
+
+    expect(runUntilDeath(room)).toEqual(['s']);
+  });
+
+  it('should stop a head that crosses a body far from where it ends up', () => {
+    const room = engine();
+    wall(room, 1000, 700, 1150);
+    const s = room.addPlayer('blink', 'blink', '#fff');
+    s.pos = { x: 300, y: 900 };
+    s.angle = 0;
+
+    // One tick carries it from about 300 to about 1200, over the wall at 1000
+    expect(room.step()).toEqual(['blink']);
+    expect(room.events[0]).toMatchObject({ type: 'kill', victimId: 'blink', killerId: 'wall', cause: 'body' });
+  });
+
+  it('should end boosting head-on meetings at any gap', () => {
+    for (let gap = 20; gap < 20 + 2 * BOOST_SPEED; gap += 1.2) {
+      const room = engine();
+      shooter(room, 'a', 1000, 600, 0);
+      shooter(room, 'b', 1000 + gap, 600, Math.PI);
+
+      expect(runUntilDeath(room).sort(), `gap ${gap}`).toEqual(['a', 'b']);
+      expect(room.events.filter(e => e.type === 'kill').map(e => e.type === 'kill' && e.cause)).toEqual(['head', 'head']);
+    }
+  });
+
+  it('should collide across the world edge', () => {
+    for (let phase = 0; phase < BOOST_SPEED; phase += 0.9) {
+      const right = engine();
+      wall(right, 2, 700, 1150);
+      shooter(right, 's', world.width - 30 - phase, 900, 0);
+      expect(runUntilDeath(right), `phase ${phase}`).toEqual(['s']);
+
+      const left = engine();
+      wall(left, world.width - 2, 700, 1150);
+      shooter(left, 's', 30 + phase, 900, Math.PI);
+      expect(runUntilDeath(left), `phase ${phase}`).toEqual(['s']);
+    }
+  });
+
+  it('should let a near miss through', () => {
+    const room = engine();
+    wall(room, 1000, 700, 980);
+    const s = shooter(room, 's', 900, 1000, 0); // passes 20 below the wall's tail
+
+    expect(runUntilDeath(room, 30)).toEqual([]);
+    expect(s.pos.x).toBeGreaterThan(1100);
+  });
+});